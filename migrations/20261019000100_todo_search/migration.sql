@@ -0,0 +1,33 @@
+-- Full-text index over Todo.title and Todo.notes.
+--
+-- Prisma can't describe FTS5 tables in schema.prisma, so this migration was
+-- written by hand. `prisma migrate dev` may propose dropping the
+-- "TodoSearch" tables in later migrations; remove those statements.
+
+CREATE VIRTUAL TABLE "TodoSearch" USING fts5(
+  title,
+  notes,
+  content = 'Todo',
+  content_rowid = 'id',
+  tokenize = 'porter unicode61 remove_diacritics 2'
+);
+
+CREATE TRIGGER "Todo_search_insert" AFTER INSERT ON "Todo" BEGIN
+  INSERT INTO "TodoSearch" (rowid, title, notes)
+  VALUES (new.id, new.title, new.notes);
+END;
+
+CREATE TRIGGER "Todo_search_delete" AFTER DELETE ON "Todo" BEGIN
+  INSERT INTO "TodoSearch" ("TodoSearch", rowid, title, notes)
+  VALUES ('delete', old.id, old.title, old.notes);
+END;
+
+CREATE TRIGGER "Todo_search_update" AFTER UPDATE OF title, notes ON "Todo" BEGIN
+  INSERT INTO "TodoSearch" ("TodoSearch", rowid, title, notes)
+  VALUES ('delete', old.id, old.title, old.notes);
+  INSERT INTO "TodoSearch" (rowid, title, notes)
+  VALUES (new.id, new.title, new.notes);
+END;
+
+-- Index rows that existed before the triggers did
+INSERT INTO "TodoSearch" ("TodoSearch") VALUES ('rebuild');
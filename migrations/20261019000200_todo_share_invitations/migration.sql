@@ -0,0 +1,27 @@
+-- Shares become invitations that grant access only once accepted. Existing
+-- shares are kept as pending invitations with fresh tokens, so their owners
+-- can send the links.
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_TodoShare" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "ownerId" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "access" TEXT NOT NULL DEFAULT 'viewer',
+    "token" TEXT,
+    "userId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TodoShare_ownerId_fkey" FOREIGN KEY ("ownerId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TodoShare_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_TodoShare" ("access", "createdAt", "email", "id", "ownerId", "token")
+SELECT "access", "createdAt", "email", "id", "ownerId", lower(hex(randomblob(24))) FROM "TodoShare";
+DROP TABLE "TodoShare";
+ALTER TABLE "new_TodoShare" RENAME TO "TodoShare";
+CREATE UNIQUE INDEX "TodoShare_token_key" ON "TodoShare"("token");
+CREATE INDEX "TodoShare_userId_idx" ON "TodoShare"("userId");
+CREATE UNIQUE INDEX "TodoShare_ownerId_email_key" ON "TodoShare"("ownerId", "email");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -7,11 +7,24 @@ export default defineConfig({
     format: 'prettier',
     lint: 'biome',
   },
-  client: '@hey-api/client-axios',
   plugins: [
+    '@hey-api/client-fetch',
     {
       name: '@hey-api/sdk',
       asClass: true,
+      // Wire the zod schemas below in as request/response validators
+      validator: true,
+    },
+    {
+      name: 'zod',
+      metadata: false,
+    },
+    {
+      // `*Options`, `*QueryKey` and `*Mutation` helpers for every operation.
+      // `src/api/petstore-hooks.ts` wraps them for this app.
+      name: '@tanstack/react-query',
+      // Tags let `petstoreKeys` match every query of a tag, e.g. all pets
+      queryKeys: { tags: true },
     },
   ],
 });
@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client'
+import { hashPassword } from './src/server/password'
 
 const prisma = new PrismaClient()
 
@@ -8,16 +9,58 @@ async function main() {
   // Clear existing todos
   await prisma.todo.deleteMany()
 
-  // Create example todos
+  // Demo account for /demo/login
+  const user = await prisma.user.upsert({
+    where: { email: 'demo@example.com' },
+    update: {},
+    create: {
+      email: 'demo@example.com',
+      name: 'Demo User',
+      role: 'admin',
+      passwordHash: await hashPassword('password123'),
+    },
+  })
+
+  // Example todos belong to the demo account
   const todos = await prisma.todo.createMany({
     data: [
-      { title: 'Buy groceries' },
-      { title: 'Read a book' },
-      { title: 'Workout' },
+      { title: 'Buy groceries', position: 0, ownerId: user.id },
+      { title: 'Read a book', position: 1, ownerId: user.id },
+      { title: 'Workout', position: 2, ownerId: user.id },
     ],
   })
 
   console.log(`✅ Created ${todos.count} todos`)
+
+  // Data for the local Petstore simulator (/mock/petstore/v2)
+  await prisma.petstoreOrder.deleteMany()
+  await prisma.petstorePet.deleteMany()
+  await prisma.petstoreUser.deleteMany()
+
+  const pets = [
+    { name: 'doggie', status: 'available', category: { id: 1, name: 'Dogs' }, tags: [{ id: 1, name: 'friendly' }] },
+    { name: 'whiskers', status: 'available', category: { id: 2, name: 'Cats' }, tags: [{ id: 2, name: 'indoor' }] },
+    { name: 'nemo', status: 'pending', category: { id: 3, name: 'Fish' }, tags: [] },
+    { name: 'rex', status: 'sold', category: { id: 1, name: 'Dogs' }, tags: [{ id: 1, name: 'friendly' }] },
+  ]
+  for (const pet of pets) {
+    await prisma.petstorePet.create({
+      data: {
+        name: pet.name,
+        status: pet.status,
+        category: JSON.stringify(pet.category),
+        photoUrls: JSON.stringify([]),
+        tags: JSON.stringify(pet.tags),
+      },
+    })
+  }
+  await prisma.petstoreUser.create({
+    data: { username: 'user1', firstName: 'Pet', lastName: 'Owner', email: 'user1@example.com', password: 'password' },
+  })
+
+  console.log(`✅ Created ${pets.length} simulator pets`)
+
+  console.log(`✅ Demo admin ready: ${user.email} / password123`)
 }
 
 main()
@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { client as sharedClient } from "./petstore/client.gen";
+import { Pet } from "./petstore/sdk.gen";
+import { createPetstoreClient } from "./petstore-client";
+
+const BASE_URL = "https://petstore.test/v2";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Records the Authorization header of every outgoing request, keyed by the
+// status it asked for
+function stubFetch() {
+	const sent = new Map<string, string | null>();
+	vi.stubGlobal("fetch", async (request: Request) => {
+		const status = new URL(request.url).searchParams.get("status") ?? "";
+		sent.set(status, request.headers.get("Authorization"));
+		// Answer out of order, so the requests overlap
+		await sleep(status === "available" ? 20 : 5);
+		return Response.json([]);
+	});
+	return sent;
+}
+
+function findPets(
+	client: ReturnType<typeof createPetstoreClient>,
+	status: "available" | "pending" | "sold",
+) {
+	return Pet.findPetsByStatus({ client, query: { status: [status] } });
+}
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+describe("createPetstoreClient", () => {
+	it("never shares auth headers between parallel SSR requests", async () => {
+		const sent = stubFetch();
+
+		// Like `getRouter` on the server: one client per request, each reading
+		// its token from that request's session. The first session is slower
+		// to read, so the two requests interleave.
+		const requestA = createPetstoreClient({
+			baseUrl: BASE_URL,
+			auth: async () => {
+				await sleep(15);
+				return "token-a";
+			},
+		});
+		const requestB = createPetstoreClient({
+			baseUrl: BASE_URL,
+			auth: async () => {
+				await sleep(1);
+				return "Bearer token-b";
+			},
+		});
+
+		await Promise.all([
+			findPets(requestA, "available"),
+			findPets(requestB, "sold"),
+		]);
+
+		expect(sent.get("available")).toBe("Bearer token-a");
+		expect(sent.get("sold")).toBe("Bearer token-b");
+	});
+
+	it("sends no token for a request without one", async () => {
+		const sent = stubFetch();
+
+		const signedIn = createPetstoreClient({
+			baseUrl: BASE_URL,
+			auth: "token-c",
+		});
+		const anonymous = createPetstoreClient({ baseUrl: BASE_URL });
+
+		await Promise.all([
+			findPets(signedIn, "available"),
+			findPets(anonymous, "pending"),
+		]);
+
+		expect(sent.get("available")).toBe("Bearer token-c");
+		expect(sent.get("pending")).toBeNull();
+		expect(sharedClient.getConfig().auth).toBeUndefined();
+	});
+});
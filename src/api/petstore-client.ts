@@ -0,0 +1,89 @@
+// Factory for Petstore API clients.
+//
+// The generated `client` in `./petstore/client.gen` is a module-level singleton.
+// On the server that instance is shared by every in-flight request, so setting
+// auth on it can leak one user's credentials into another user's request.
+// Build a client per request (SSR) or per browser session instead and pass it
+// to the SDK via the `client` option.
+import { type Client, createClient, createConfig } from "./petstore/client";
+import type { ClientOptions } from "./petstore/types.gen";
+import { capturePetstoreStatus } from "./petstore-errors";
+import { installResilience, type ResilienceOptions } from "./resilience";
+
+export const PETSTORE_BASE_URL = "https://petstore.swagger.io/v2";
+
+// Path of the local simulator served by `src/routes/mock/petstore.v2.$.ts`
+export const PETSTORE_MOCK_PATH = "/mock/petstore/v2";
+
+// Same-origin proxy that attaches the session's Petstore token
+export const PETSTORE_PROXY_PATH = "/api/petstore";
+
+/**
+ * Whether Petstore calls go to the local simulator (`VITE_PETSTORE_MOCK=true`)
+ * instead of the public Petstore.
+ */
+export function isPetstoreSimulator() {
+	return import.meta.env.VITE_PETSTORE_MOCK === "true";
+}
+
+/**
+ * The public Petstore, or the local simulator when `VITE_PETSTORE_MOCK=true`.
+ * Server-side fetches need an absolute URL, taken from `APP_ORIGIN`.
+ */
+export function getPetstoreBaseUrl() {
+	if (!isPetstoreSimulator()) {
+		return PETSTORE_BASE_URL;
+	}
+
+	const origin =
+		typeof window === "undefined"
+			? (process.env.APP_ORIGIN ?? "http://localhost:3000")
+			: window.location.origin;
+
+	return `${origin}${PETSTORE_MOCK_PATH}`;
+}
+
+export type PetstoreAuth =
+	| string
+	| (() => Promise<string | undefined> | string | undefined);
+
+export type PetstoreClientOptions = {
+	baseUrl?: string;
+	/**
+	 * Token (or a function resolving one) sent with operations that declare
+	 * security. A leading `Bearer ` is stripped; the SDK adds it back.
+	 */
+	auth?: PetstoreAuth;
+	/**
+	 * Retry, timeout and circuit breaker settings (see `installResilience`).
+	 * Pass `false` to send every request exactly once.
+	 */
+	resilience?: ResilienceOptions | false;
+};
+
+const stripBearer = (token?: string) =>
+	token?.startsWith("Bearer ") ? token.slice("Bearer ".length) : token;
+
+export function createPetstoreClient(
+	options: PetstoreClientOptions = {},
+): Client {
+	const { auth, baseUrl = getPetstoreBaseUrl(), resilience = {} } = options;
+
+	const client = createClient(
+		createConfig<ClientOptions>({
+			baseUrl,
+			auth:
+				auth === undefined
+					? undefined
+					: async () =>
+							stripBearer(typeof auth === "function" ? await auth() : auth),
+		}),
+	);
+
+	if (resilience) {
+		installResilience(client, resilience);
+	}
+	client.interceptors.error.use(capturePetstoreStatus);
+
+	return client;
+}
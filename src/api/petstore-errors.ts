@@ -0,0 +1,246 @@
+// Typed errors for Petstore SDK calls.
+//
+// The SDK resolves to `{ data, error, response }` instead of throwing, so a
+// failed call looks like an empty result unless someone checks `error`.
+// `unwrapPetstore` turns any failure into a `PetstoreApiError` whose status is
+// typed by the operation's generated `*Errors` map. The generated TanStack
+// Query helpers throw instead; `toPetstoreApiError` normalises those errors.
+import { z } from "zod";
+import type {
+	AddPetErrors,
+	ApiResponse,
+	DeleteOrderErrors,
+	DeletePetErrors,
+	DeleteUserErrors,
+	FindPetsByStatusErrors,
+	FindPetsByTagsErrors,
+	GetOrderByIdErrors,
+	GetPetByIdErrors,
+	GetUserByNameErrors,
+	LoginUserErrors,
+	PlaceOrderErrors,
+	UpdatePetErrors,
+	UpdatePetWithFormErrors,
+	UpdateUserErrors,
+} from "./petstore/types.gen";
+
+// Operations without documented error responses map to `never`
+type NoDocumentedErrors = Record<never, unknown>;
+
+export type PetstoreOperationErrors = {
+	addPet: AddPetErrors;
+	updatePet: UpdatePetErrors;
+	findPetsByStatus: FindPetsByStatusErrors;
+	findPetsByTags: FindPetsByTagsErrors;
+	deletePet: DeletePetErrors;
+	getPetById: GetPetByIdErrors;
+	updatePetWithForm: UpdatePetWithFormErrors;
+	uploadFile: NoDocumentedErrors;
+	getInventory: NoDocumentedErrors;
+	placeOrder: PlaceOrderErrors;
+	deleteOrder: DeleteOrderErrors;
+	getOrderById: GetOrderByIdErrors;
+	createUser: NoDocumentedErrors;
+	createUsersWithArrayInput: NoDocumentedErrors;
+	createUsersWithListInput: NoDocumentedErrors;
+	deleteUser: DeleteUserErrors;
+	getUserByName: GetUserByNameErrors;
+	updateUser: UpdateUserErrors;
+	loginUser: LoginUserErrors;
+	logoutUser: NoDocumentedErrors;
+};
+
+export type PetstoreOperation = keyof PetstoreOperationErrors;
+
+/**
+ * Statuses the spec documents for `TOperation`. The server can still answer
+ * with anything else (a 500, or 0 when the request never got a response),
+ * so the type stays open to other numbers.
+ */
+export type PetstoreErrorStatus<TOperation extends PetstoreOperation> =
+	| Extract<keyof PetstoreOperationErrors[TOperation], number>
+	| (number & {});
+
+/**
+ * What went wrong:
+ * - "http": the Petstore answered with an error status
+ * - "network": the request never got a response
+ * - "validation": the response arrived but its data was rejected
+ */
+export type PetstoreErrorKind = "http" | "network" | "validation";
+
+export class PetstoreApiError<
+	TOperation extends PetstoreOperation = PetstoreOperation,
+> extends Error {
+	readonly operation: TOperation;
+	readonly status: PetstoreErrorStatus<TOperation>;
+	readonly kind: PetstoreErrorKind;
+	// The Petstore's `ApiResponse` envelope, when the body was one
+	readonly body: ApiResponse | undefined;
+
+	constructor(
+		operation: TOperation,
+		status: PetstoreErrorStatus<TOperation>,
+		body: ApiResponse | undefined,
+		{ kind, ...options }: ErrorOptions & { kind?: PetstoreErrorKind } = {},
+	) {
+		const reason =
+			body?.message ?? (status === 0 ? "no response" : `HTTP ${status}`);
+		super(`${operation} failed: ${reason}`, options);
+		this.name = "PetstoreApiError";
+		this.operation = operation;
+		this.status = status;
+		this.kind = kind ?? (status === 0 ? "network" : "http");
+		this.body = body;
+	}
+
+	/**
+	 * Narrows to a documented status of a specific operation.
+	 */
+	is<TOther extends PetstoreOperation>(
+		operation: TOther,
+		status?: Extract<keyof PetstoreOperationErrors[TOther], number>,
+	): this is PetstoreApiError<TOther> {
+		return (
+			(this.operation as PetstoreOperation) === operation &&
+			(status === undefined || this.status === status)
+		);
+	}
+}
+
+export function isPetstoreApiError(error: unknown): error is PetstoreApiError {
+	return error instanceof PetstoreApiError;
+}
+
+/**
+ * Thrown by the response transformers in `petstore-validation.ts` when a
+ * response doesn't match the schema.
+ */
+export class PetstoreValidationError extends Error {
+	readonly operation: PetstoreOperation;
+	readonly issues: Array<z.core.$ZodIssue>;
+
+	constructor(operation: PetstoreOperation, issues: Array<z.core.$ZodIssue>) {
+		const [first] = issues;
+		const where = first?.path.length ? ` at ${first.path.join(".")}` : "";
+		super(
+			`Unexpected response from the Petstore${where}: ${first?.message ?? "invalid data"}`,
+		);
+		this.name = "PetstoreValidationError";
+		this.operation = operation;
+		this.issues = issues;
+	}
+}
+
+function toApiResponse(error: unknown): ApiResponse | undefined {
+	// Thrown by the SDK's generated request/response validators
+	if (error instanceof z.ZodError) {
+		return { type: "validation", message: z.prettifyError(error) };
+	}
+	if (error instanceof PetstoreValidationError) {
+		return { type: "validation", message: error.message };
+	}
+	if (typeof error === "string") {
+		return error ? { message: error } : undefined;
+	}
+	if (error && typeof error === "object" && !(error instanceof Error)) {
+		const { code, type, message } = error as Record<string, unknown>;
+		return {
+			code: typeof code === "number" ? code : undefined,
+			type: typeof type === "string" ? type : undefined,
+			message: typeof message === "string" ? message : undefined,
+		};
+	}
+	if (error instanceof Error) {
+		return { message: error.message };
+	}
+	return undefined;
+}
+
+/**
+ * A failed response thrown with `throwOnError`. The client throws only the
+ * parsed body, so `capturePetstoreStatus` keeps the status alongside it.
+ */
+class PetstoreHttpFailure {
+	constructor(
+		readonly status: number,
+		readonly body: unknown,
+	) {}
+}
+
+/**
+ * Error interceptor for Petstore clients (see `createPetstoreClient`). Calls
+ * that resolve to `{ data, error }` keep receiving the plain body.
+ */
+export function capturePetstoreStatus(
+	error: unknown,
+	response: Response | undefined,
+	_request: Request,
+	options: { throwOnError?: boolean },
+) {
+	return response && options.throwOnError
+		? new PetstoreHttpFailure(response.status, error)
+		: error;
+}
+
+/**
+ * Normalise anything a Petstore call threw into a `PetstoreApiError`.
+ * `status` is used when the error itself doesn't carry one.
+ */
+export function toPetstoreApiError<TOperation extends PetstoreOperation>(
+	operation: TOperation,
+	error: unknown,
+	status = 0,
+): PetstoreApiError<TOperation> {
+	if (error instanceof PetstoreApiError) {
+		return error;
+	}
+	if (error instanceof PetstoreHttpFailure) {
+		return new PetstoreApiError(
+			operation,
+			error.status,
+			toApiResponse(error.body),
+			{ cause: error.body },
+		);
+	}
+	return new PetstoreApiError(operation, status, toApiResponse(error), {
+		cause: error,
+		// Rejected by a validator or transformer, after the response arrived
+		kind:
+			error instanceof z.ZodError || error instanceof PetstoreValidationError
+				? "validation"
+				: undefined,
+	});
+}
+
+type SdkResult<TData> = {
+	data?: TData;
+	error?: unknown;
+	response?: Response;
+};
+
+/**
+ * Await an SDK call and return its data, throwing a `PetstoreApiError` for
+ * non-2xx responses and requests that never got a response.
+ */
+export async function unwrapPetstore<
+	TOperation extends PetstoreOperation,
+	TData,
+>(operation: TOperation, call: Promise<SdkResult<TData>>): Promise<TData> {
+	let result: SdkResult<TData>;
+	try {
+		result = await call;
+	} catch (error) {
+		// Interceptors and transformers can reject outright, e.g. while a
+		// circuit breaker is open
+		throw toPetstoreApiError(operation, error);
+	}
+
+	const { data, error, response } = result;
+
+	if (!response || !response.ok) {
+		throw toPetstoreApiError(operation, error, response?.status);
+	}
+
+	return data as TData;
+}
@@ -0,0 +1,342 @@
+// @vitest-environment jsdom
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import type { ReactNode } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Pet } from "./petstore/types.gen";
+import { createPetstoreClient } from "./petstore-client";
+import { PetstoreApiError } from "./petstore-errors";
+import {
+	editCachedPet,
+	findCachedPet,
+	petstoreKeys,
+	useAddPet,
+	useDeletePet,
+	useUpdatePet,
+} from "./petstore-hooks";
+
+const client = createPetstoreClient({
+	baseUrl: "https://petstore.test/v2",
+	resilience: false,
+});
+
+// The hooks read the client from the router context
+vi.mock("@tanstack/react-router", async (importOriginal) => ({
+	...(await importOriginal<typeof import("@tanstack/react-router")>()),
+	useRouteContext: ({
+		select,
+	}: {
+		select: (context: { petstoreClient: typeof client }) => unknown;
+	}) => select({ petstoreClient: client }),
+}));
+
+const rex: Pet = {
+	id: 1,
+	name: "Rex",
+	photoUrls: [],
+	status: "available",
+	tags: [{ id: 1, name: "dog" }],
+};
+const tom: Pet = { id: 2, name: "Tom", photoUrls: [], status: "available" };
+const kit: Pet = { id: 3, name: "Kit", photoUrls: [], status: "pending" };
+
+let queryClient: QueryClient;
+
+function seed() {
+	queryClient.setQueryData(petstoreKeys.petsByStatus(null, ["available"]), [
+		rex,
+		tom,
+	]);
+	queryClient.setQueryData(petstoreKeys.petsByStatus(null, ["pending"]), [kit]);
+	queryClient.setQueryData(petstoreKeys.petsByTags(null, ["dog"]), [rex]);
+	queryClient.setQueryData(petstoreKeys.pet(null, 1), rex);
+	queryClient.setQueryData(petstoreKeys.inventory(null), {
+		available: 2,
+		pending: 1,
+	});
+}
+
+const cached = <T,>(key: readonly unknown[]) =>
+	queryClient.getQueryData<T>(key);
+const names = (key: readonly unknown[]) =>
+	cached<Array<Pet>>(key)?.map((pet) => pet.name);
+
+beforeEach(() => {
+	queryClient = new QueryClient({
+		defaultOptions: { queries: { retry: false, staleTime: Infinity } },
+	});
+	seed();
+});
+
+afterEach(() => {
+	queryClient.clear();
+	vi.unstubAllGlobals();
+});
+
+describe("findCachedPet", () => {
+	it("finds a pet in any cached pet query", () => {
+		expect(findCachedPet(queryClient, null, 3)).toBe(kit);
+		expect(findCachedPet(queryClient, null, 4)).toBeUndefined();
+	});
+
+	it("only looks at the given account's queries unless none is given", () => {
+		queryClient.setQueryData(petstoreKeys.pet("user-2", 5), { ...kit, id: 5 });
+
+		expect(findCachedPet(queryClient, null, 5)).toBeUndefined();
+		expect(findCachedPet(queryClient, "user-2", 5)?.id).toBe(5);
+		expect(findCachedPet(queryClient, undefined, 5)?.id).toBe(5);
+	});
+});
+
+describe("editCachedPet", () => {
+	it("moves a pet between status lists and updates its counts", async () => {
+		const sold = { ...rex, name: "Rex II", status: "pending" as const };
+
+		await editCachedPet(queryClient, null, 1, sold);
+
+		expect(names(petstoreKeys.petsByStatus(null, ["available"]))).toEqual([
+			"Tom",
+		]);
+		expect(names(petstoreKeys.petsByStatus(null, ["pending"]))).toEqual([
+			"Kit",
+			"Rex II",
+		]);
+		expect(names(petstoreKeys.petsByTags(null, ["dog"]))).toEqual(["Rex II"]);
+		expect(cached(petstoreKeys.pet(null, 1))).toEqual(sold);
+		expect(cached(petstoreKeys.inventory(null))).toEqual({
+			available: 1,
+			pending: 2,
+		});
+	});
+
+	it("leaves another account's cached pets alone", async () => {
+		queryClient.setQueryData(
+			petstoreKeys.petsByStatus("user-2", ["available"]),
+			[rex],
+		);
+
+		await editCachedPet(queryClient, null, 1, undefined);
+
+		expect(names(petstoreKeys.petsByStatus("user-2", ["available"]))).toEqual([
+			"Rex",
+		]);
+	});
+
+	it("drops a pet from tag lists it no longer belongs to", async () => {
+		await editCachedPet(queryClient, null, 1, { ...rex, tags: [] });
+
+		expect(names(petstoreKeys.petsByTags(null, ["dog"]))).toEqual([]);
+		expect(names(petstoreKeys.petsByStatus(null, ["available"]))).toEqual([
+			"Rex",
+			"Tom",
+		]);
+	});
+
+	it("removes a deleted pet everywhere", async () => {
+		await editCachedPet(queryClient, null, 1, undefined);
+
+		expect(names(petstoreKeys.petsByStatus(null, ["available"]))).toEqual([
+			"Tom",
+		]);
+		expect(names(petstoreKeys.petsByTags(null, ["dog"]))).toEqual([]);
+		expect(
+			queryClient.getQueryState(petstoreKeys.pet(null, 1)),
+		).toBeUndefined();
+		expect(cached(petstoreKeys.inventory(null))).toEqual({
+			available: 1,
+			pending: 1,
+		});
+	});
+
+	it("puts everything back when restored", async () => {
+		const restore = await editCachedPet(queryClient, null, 1, undefined);
+		restore();
+
+		expect(names(petstoreKeys.petsByStatus(null, ["available"]))).toEqual([
+			"Rex",
+			"Tom",
+		]);
+		expect(names(petstoreKeys.petsByTags(null, ["dog"]))).toEqual(["Rex"]);
+		expect(cached(petstoreKeys.inventory(null))).toEqual({
+			available: 2,
+			pending: 1,
+		});
+	});
+
+	it("cancels refetches that would overwrite the edit", async () => {
+		let answer = (_pets: Array<Pet>) => {};
+		const refetch = queryClient
+			.fetchQuery({
+				queryKey: petstoreKeys.petsByStatus(null, ["pending"]),
+				queryFn: () =>
+					new Promise<Array<Pet>>((resolve) => {
+						answer = resolve;
+					}),
+				staleTime: 0,
+			})
+			.catch(() => {});
+
+		await editCachedPet(queryClient, null, 3, undefined);
+		answer([kit]);
+		await refetch;
+
+		expect(names(petstoreKeys.petsByStatus(null, ["pending"]))).toEqual([]);
+	});
+});
+
+describe("optimistic pet mutations", () => {
+	type Reply = (response: Response) => void;
+	let replies: Array<Reply>;
+	let sent: Array<Request>;
+
+	function wrapper({ children }: { children: ReactNode }) {
+		return (
+			<QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+		);
+	}
+
+	beforeEach(() => {
+		replies = [];
+		sent = [];
+		// Each request waits until the test answers it
+		vi.stubGlobal(
+			"fetch",
+			(request: Request) =>
+				new Promise<Response>((resolve) => {
+					sent.push(request);
+					replies.push(resolve);
+				}),
+		);
+	});
+
+	async function answer(response: Response) {
+		await waitFor(() => expect(replies).toHaveLength(1));
+		await act(async () => replies.shift()?.(response));
+	}
+
+	it("shows an update straight away and keeps it once saved", async () => {
+		const { result } = renderHook(() => useUpdatePet({ optimistic: true }), {
+			wrapper,
+		});
+		const renamed = { ...rex, name: "Max" };
+
+		act(() => result.current.mutate(renamed));
+
+		await waitFor(() =>
+			expect(cached(petstoreKeys.pet(null, 1))).toEqual(renamed),
+		);
+		expect(names(petstoreKeys.petsByStatus(null, ["available"]))).toEqual([
+			"Max",
+			"Tom",
+		]);
+
+		await answer(Response.json(renamed));
+		await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+		expect(cached(petstoreKeys.pet(null, 1))).toEqual(renamed);
+		// Refetched once settled, to pick up what the server stored
+		expect(
+			queryClient.getQueryState(petstoreKeys.petsByStatus(null, ["available"]))
+				?.isInvalidated,
+		).toBe(true);
+		expect(
+			queryClient.getQueryState(petstoreKeys.inventory(null))?.isInvalidated,
+		).toBe(true);
+	});
+
+	it("rolls back when the server rejects the change", async () => {
+		const onError = vi.fn();
+		const { result } = renderHook(
+			() => useUpdatePet({ optimistic: true, onError }),
+			{ wrapper },
+		);
+
+		act(() => result.current.mutate({ ...rex, status: "sold" }));
+		await waitFor(() =>
+			expect(names(petstoreKeys.petsByStatus(null, ["available"]))).toEqual([
+				"Tom",
+			]),
+		);
+		expect(cached(petstoreKeys.inventory(null))).toEqual({
+			available: 1,
+			pending: 1,
+			sold: 1,
+		});
+
+		await answer(
+			Response.json(
+				{ code: 405, message: "Validation exception" },
+				{
+					status: 405,
+				},
+			),
+		);
+		await waitFor(() => expect(result.current.isError).toBe(true));
+
+		expect(result.current.error).toBeInstanceOf(PetstoreApiError);
+		expect(result.current.error).toMatchObject({ status: 405 });
+		expect(onError).toHaveBeenCalledOnce();
+		expect(cached(petstoreKeys.pet(null, 1))).toEqual(rex);
+		expect(names(petstoreKeys.petsByStatus(null, ["available"]))).toEqual([
+			"Rex",
+			"Tom",
+		]);
+		expect(cached(petstoreKeys.inventory(null))).toEqual({
+			available: 2,
+			pending: 1,
+		});
+	});
+
+	it("rolls back a delete that never reached the server", async () => {
+		vi.stubGlobal("fetch", async () => {
+			throw new TypeError("fetch failed");
+		});
+		const { result } = renderHook(() => useDeletePet({ optimistic: true }), {
+			wrapper,
+		});
+
+		act(() => result.current.mutate(2));
+		await waitFor(() => expect(result.current.isError).toBe(true));
+
+		expect(result.current.error).toMatchObject({ kind: "network" });
+		expect(names(petstoreKeys.petsByStatus(null, ["available"]))).toEqual([
+			"Rex",
+			"Tom",
+		]);
+	});
+
+	it("undoes a delete by adding the pet back with its ID", async () => {
+		const { result } = renderHook(
+			() => ({
+				deletePet: useDeletePet({ optimistic: true }),
+				restorePet: useAddPet({ optimistic: true }),
+			}),
+			{ wrapper },
+		);
+
+		act(() => result.current.deletePet.mutate(1));
+		await waitFor(() =>
+			expect(names(petstoreKeys.petsByTags(null, ["dog"]))).toEqual([]),
+		);
+		await answer(Response.json({ code: 200, message: "1" }));
+		await waitFor(() => expect(result.current.deletePet.isSuccess).toBe(true));
+
+		act(() => result.current.restorePet.mutate(rex));
+		await waitFor(() =>
+			expect(names(petstoreKeys.petsByTags(null, ["dog"]))).toEqual(["Rex"]),
+		);
+		expect(names(petstoreKeys.petsByStatus(null, ["available"]))).toEqual([
+			"Tom",
+			"Rex",
+		]);
+		expect(cached(petstoreKeys.inventory(null))).toEqual({
+			available: 2,
+			pending: 1,
+		});
+
+		await answer(Response.json(rex));
+		await waitFor(() => expect(result.current.restorePet.isSuccess).toBe(true));
+		expect(sent.map((request) => request.method)).toEqual(["DELETE", "POST"]);
+		expect(await sent[1].json()).toMatchObject({ id: 1, name: "Rex" });
+	});
+});
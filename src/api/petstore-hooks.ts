@@ -1,89 +1,681 @@
 // TanStack Query hooks for Petstore API
+//
+// Query options, keys and mutations for every operation are generated into
+// `./petstore/@tanstack/react-query.gen` (see `openapi-ts.config.ts`). The
+// hooks below are thin wrappers that add the router's client and this app's
+// error and validation handling. For operations without a hook, wrap the
+// generated helper directly:
+//
+//   useSuspenseQuery(
+//     petstoreQuery(
+//       "getUserByName",
+//       getUserByNameOptions({ client, path }),
+//       usePetstoreAccount(),
+//     ),
+//   );
 import {
+	type DefaultError,
+	type MutationFunctionContext,
 	type QueryClient,
+	type QueryFunction,
+	type QueryKey,
+	queryOptions,
+	type SkipToken,
 	type UseMutationOptions,
 	type UseQueryOptions,
+	type UseSuspenseQueryOptions,
 	useMutation,
 	useQuery,
+	useQueryClient,
 	useSuspenseQuery,
 } from "@tanstack/react-query";
-import { client } from "./petstore/client.gen";
-import { Pet, Store } from "./petstore/sdk.gen";
+import { useRouteContext } from "@tanstack/react-router";
+import {
+	addPetMutation,
+	createUserMutation,
+	createUsersWithArrayInputMutation,
+	createUsersWithListInputMutation,
+	deleteOrderMutation,
+	deletePetMutation,
+	deleteUserMutation,
+	findPetsByStatusOptions,
+	findPetsByStatusQueryKey,
+	findPetsByTagsOptions,
+	findPetsByTagsQueryKey,
+	getInventoryOptions,
+	getInventoryQueryKey,
+	getOrderByIdOptions,
+	getOrderByIdQueryKey,
+	getPetByIdOptions,
+	getPetByIdQueryKey,
+	getUserByNameOptions,
+	getUserByNameQueryKey,
+	placeOrderMutation,
+	updatePetMutation,
+	updatePetWithFormMutation,
+	updateUserMutation,
+	uploadFileMutation,
+} from "./petstore/@tanstack/react-query.gen";
+import type { Client } from "./petstore/client";
+import { User } from "./petstore/sdk.gen";
 import type {
 	AddPetData,
+	ApiResponse,
 	Order,
 	Pet as PetType,
 	PlaceOrderData,
 	UpdatePetData,
+	UpdatePetWithFormData,
+	UploadFileData,
+	User as UserType,
 } from "./petstore/types.gen";
+import {
+	type PetstoreApiError,
+	type PetstoreOperation,
+	toPetstoreApiError,
+} from "./petstore-errors";
+import {
+	checkQueuedChange,
+	PETSTORE_QUEUE_SCOPE,
+	trackQueuedPetChanges,
+} from "./petstore-offline";
+import { validatePet, validatePetList } from "./petstore-validation";
+import { createProgressFetch, type UploadProgress } from "./upload-progress";
+
+type PetstoreAuth = string | (() => Promise<string | undefined>);
+
+// ============================================================================
+// Query Keys
+// ============================================================================
+
+type GeneratedQueryKey = readonly [
+	{ _id: string; baseUrl?: unknown; tags?: ReadonlyArray<string> },
+];
+
+/**
+ * Whose Petstore data a query holds: the signed-in user's ID, or null when
+ * signed out. Requests go out with the session's token and role, so two
+ * accounts can get different answers to the same call.
+ */
+export type PetstoreAccount = string | null;
 
-// Configure the base URL for the Petstore API
-client.setConfig({
-	baseUrl: "https://petstore.swagger.io/v2",
-});
+export type PetstoreQueryKey<TKey extends GeneratedQueryKey> = readonly [
+	Omit<TKey[0], "baseUrl"> & { api: "petstore"; account: PetstoreAccount },
+];
+
+/**
+ * Cache key for a generated query key. Generated keys include the client's
+ * `baseUrl`, which differs between the server and the browser (the proxy),
+ * so it is replaced with a fixed marker to let SSR data hydrate.
+ */
+function petstoreKey<TParams extends GeneratedQueryKey[0]>(
+	account: PetstoreAccount,
+	[{ baseUrl: _baseUrl, ...params }]: readonly [TParams],
+): PetstoreQueryKey<readonly [TParams]> {
+	return [{ ...params, api: "petstore", account }];
+}
+
+// Without an account, a prefix key matches every account's queries
+const forAccount = (account?: PetstoreAccount) =>
+	account === undefined ? {} : { account };
 
 // Query Keys Factory
 export const petstoreKeys = {
-	all: ["petstore"] as const,
-	pets: () => [...petstoreKeys.all, "pets"] as const,
-	pet: (id: number) => [...petstoreKeys.pets(), id] as const,
-	petsByStatus: (status: Array<"available" | "pending" | "sold">) =>
-		[...petstoreKeys.pets(), "status", status] as const,
-	inventory: () => [...petstoreKeys.all, "inventory"] as const,
-	orders: () => [...petstoreKeys.all, "orders"] as const,
-	order: (id: number) => [...petstoreKeys.orders(), id] as const,
+	all: [{ api: "petstore" }] as const,
+	pets: (account?: PetstoreAccount) =>
+		[{ api: "petstore", tags: ["pet"], ...forAccount(account) }] as const,
+	pet: (account: PetstoreAccount, petId: number) =>
+		petstoreKey(account, getPetByIdQueryKey({ path: { petId } })),
+	petsByStatus: (
+		account: PetstoreAccount,
+		status: Array<"available" | "pending" | "sold">,
+	) => petstoreKey(account, findPetsByStatusQueryKey({ query: { status } })),
+	petsByTags: (account: PetstoreAccount, tags: Array<string>) =>
+		petstoreKey(account, findPetsByTagsQueryKey({ query: { tags } })),
+	inventories: (account?: PetstoreAccount) =>
+		[{ api: "petstore", _id: "getInventory", ...forAccount(account) }] as const,
+	inventory: (account: PetstoreAccount) =>
+		petstoreKey(account, getInventoryQueryKey()),
+	orders: (account?: PetstoreAccount) =>
+		[{ api: "petstore", _id: "getOrderById", ...forAccount(account) }] as const,
+	order: (account: PetstoreAccount, orderId: number) =>
+		petstoreKey(account, getOrderByIdQueryKey({ path: { orderId } })),
+	users: (account?: PetstoreAccount) =>
+		[
+			{ api: "petstore", _id: "getUserByName", ...forAccount(account) },
+		] as const,
+	user: (account: PetstoreAccount, username: string) =>
+		petstoreKey(account, getUserByNameQueryKey({ path: { username } })),
 };
 
+// ============================================================================
+// Generated helper adapters
+// ============================================================================
+
+/**
+ * Adapt generated `*Options(...)` for this app: cache under `account`'s
+ * `petstoreKey` and raise failures as `PetstoreApiError`.
+ */
+export function petstoreQuery<
+	TOperation extends PetstoreOperation,
+	TData,
+	TKey extends GeneratedQueryKey,
+>(
+	operation: TOperation,
+	generated: {
+		queryKey: TKey;
+		queryFn?: QueryFunction<TData, TKey> | SkipToken;
+	},
+	account: PetstoreAccount,
+) {
+	const { queryKey, queryFn } = generated;
+
+	return queryOptions<
+		TData,
+		PetstoreApiError<TOperation>,
+		TData,
+		PetstoreQueryKey<TKey>
+	>({
+		queryKey: petstoreKey(account, queryKey),
+		queryFn: async (context) => {
+			if (typeof queryFn !== "function") {
+				throw new Error(`${operation} has no query function`);
+			}
+			try {
+				// The generated function reads its request options from its own key
+				return await queryFn({ ...context, queryKey });
+			} catch (error) {
+				throw toPetstoreApiError(operation, error);
+			}
+		},
+	});
+}
+
+/**
+ * Adapt generated `*Mutation(...)` options to raise `PetstoreApiError`.
+ */
+export function petstoreMutation<
+	TOperation extends PetstoreOperation,
+	TData,
+	TVariables,
+>(
+	operation: TOperation,
+	generated: UseMutationOptions<TData, DefaultError, TVariables>,
+): UseMutationOptions<TData, PetstoreApiError<TOperation>, TVariables> {
+	const { mutationFn } = generated;
+
+	return {
+		mutationFn: async (variables, context) => {
+			if (!mutationFn) {
+				throw new Error(`${operation} has no mutation function`);
+			}
+			try {
+				return await mutationFn(variables, context);
+			} catch (error) {
+				throw toPetstoreApiError(operation, error);
+			}
+		},
+	};
+}
+
+type QueryOverrides<
+	TData,
+	TOperation extends PetstoreOperation,
+	TKey extends QueryKey,
+> = Omit<
+	UseSuspenseQueryOptions<TData, PetstoreApiError<TOperation>, TData, TKey>,
+	"queryKey" | "queryFn"
+>;
+
+type MutationOverrides<
+	TData,
+	TOperation extends PetstoreOperation,
+	TVariables,
+> = Omit<
+	UseMutationOptions<TData, PetstoreApiError<TOperation>, TVariables>,
+	"mutationFn"
+>;
+
+/**
+ * The Petstore client for the current router. It is created per request on the
+ * server (see `getRouter`), so hooks never share credentials across users.
+ */
+export function usePetstoreClient() {
+	return useRouteContext({
+		from: "__root__",
+		select: (context) => context.petstoreClient,
+	});
+}
+
+/**
+ * The account Petstore queries are cached for: the user the `_authed` layout
+ * signed in, or null outside it. Route loaders pass `context.user.id`.
+ */
+export function usePetstoreAccount(): PetstoreAccount {
+	return useRouteContext({
+		strict: false,
+		select: (context): PetstoreAccount => context.user?.id ?? null,
+	});
+}
+
 // ============================================================================
 // Pet Queries
 // ============================================================================
 
+/**
+ * Query options for pets by status, shared by `useFindPetsByStatus` and
+ * non-suspense readers such as tag suggestions
+ */
+export function petsByStatusQuery(
+	client: Client,
+	account: PetstoreAccount,
+	status: Array<"available" | "pending" | "sold">,
+	auth?: PetstoreAuth,
+) {
+	return petstoreQuery(
+		"findPetsByStatus",
+		findPetsByStatusOptions({
+			client,
+			auth,
+			query: { status },
+			...validatePetList("findPetsByStatus"),
+		}),
+		account,
+	);
+}
+
 /**
  * Hook to fetch pets by status
  */
 export function useFindPetsByStatus(
 	status: Array<"available" | "pending" | "sold">,
-	options?: Omit<UseQueryOptions<PetType[], Error>, "queryKey" | "queryFn">,
-	auth?: string | (() => Promise<string | undefined>),
+	options?: QueryOverrides<
+		Array<PetType>,
+		"findPetsByStatus",
+		ReturnType<typeof petstoreKeys.petsByStatus>
+	>,
+	auth?: PetstoreAuth,
 ) {
+	const client = usePetstoreClient();
+	const account = usePetstoreAccount();
+
 	return useSuspenseQuery({
-		queryKey: petstoreKeys.petsByStatus(status),
-		queryFn: async () => {
-			const response = await Pet.findPetsByStatus({
-				query: { status },
+		...petsByStatusQuery(client, account, status, auth),
+		...options,
+	});
+}
+
+/**
+ * Hook to fetch pets that have any of `tags`
+ */
+export function useFindPetsByTags(
+	tags: Array<string>,
+	options?: QueryOverrides<
+		Array<PetType>,
+		"findPetsByTags",
+		ReturnType<typeof petstoreKeys.petsByTags>
+	>,
+	auth?: PetstoreAuth,
+) {
+	const client = usePetstoreClient();
+	const account = usePetstoreAccount();
+
+	return useSuspenseQuery({
+		...petstoreQuery(
+			"findPetsByTags",
+			findPetsByTagsOptions({
+				client,
 				auth,
-			});
-			return response.data ?? [];
-		},
+				query: { tags },
+				...validatePetList("findPetsByTags"),
+			}),
+			account,
+		),
 		...options,
 	});
 }
 
+/**
+ * Query options for a single pet, shared by `useGetPetById` and route loaders
+ */
+export function petByIdQuery(
+	client: Client,
+	account: PetstoreAccount,
+	petId: number,
+	auth?: PetstoreAuth,
+) {
+	return petstoreQuery(
+		"getPetById",
+		getPetByIdOptions({
+			client,
+			auth,
+			path: { petId },
+			...validatePet("getPetById"),
+		}),
+		account,
+	);
+}
+
 /**
  * Hook to fetch a single pet by ID
  */
 export function useGetPetById(
 	petId: number,
-	options?: Omit<
-		UseQueryOptions<PetType | null, Error>,
-		"queryKey" | "queryFn"
+	options?: QueryOverrides<
+		PetType,
+		"getPetById",
+		ReturnType<typeof petstoreKeys.pet>
 	>,
-	auth?: string | (() => Promise<string | undefined>),
+	auth?: PetstoreAuth,
 ) {
+	const client = usePetstoreClient();
+	const account = usePetstoreAccount();
+
 	return useSuspenseQuery({
-		queryKey: petstoreKeys.pet(petId),
-		queryFn: async () => {
-			const response = await Pet.getPetById({
-				path: { petId },
-				auth,
-			});
-			return response.data ?? null;
-		},
-		enabled: petId > 0,
+		...petByIdQuery(client, account, petId, auth),
 		...options,
 	});
 }
 
+// ============================================================================
+// Optimistic pet edits
+// ============================================================================
+
+/**
+ * Puts back the cache entries an optimistic edit changed.
+ */
+export type RestorePetCache = () => void;
+
+// The parts of a generated key the edits below look at
+type PetCacheKey = readonly [
+	{
+		_id?: string;
+		path?: { petId?: number };
+		query?: { status?: Array<string>; tags?: Array<string> };
+	},
+];
+
+/**
+ * Pet `petId` from whichever of `account`'s cached pet queries has it, or
+ * any account's when `account` is undefined
+ */
+export function findCachedPet(
+	queryClient: QueryClient,
+	account: PetstoreAccount | undefined,
+	petId: number,
+) {
+	for (const [, data] of queryClient.getQueriesData<PetType | Array<PetType>>({
+		queryKey: petstoreKeys.pets(account),
+	})) {
+		const pet = Array.isArray(data)
+			? data.find((cached) => cached.id === petId)
+			: data?.id === petId
+				? data
+				: undefined;
+		if (pet) return pet;
+	}
+	return undefined;
+}
+
+/**
+ * Show `next` in place of pet `petId` in every pet list `account` has
+ * cached, the pet's own query and the inventory counts before the server
+ * confirms it. A status
+ * change moves the pet between `petsByStatus` lists; `next` undefined removes
+ * the pet everywhere. Pending refetches are cancelled so they can't overwrite
+ * the edit.
+ */
+export async function editCachedPet(
+	queryClient: QueryClient,
+	account: PetstoreAccount,
+	petId: number,
+	next: PetType | undefined,
+): Promise<RestorePetCache> {
+	await Promise.all([
+		queryClient.cancelQueries({ queryKey: petstoreKeys.pets(account) }),
+		queryClient.cancelQueries({ queryKey: petstoreKeys.inventory(account) }),
+	]);
+
+	const entries = queryClient.getQueriesData<PetType | Array<PetType>>({
+		queryKey: petstoreKeys.pets(account),
+	});
+	const inventory = queryClient.getQueryData<Record<string, number>>(
+		petstoreKeys.inventory(account),
+	);
+
+	const previous = findCachedPet(queryClient, account, petId);
+
+	for (const [key, data] of entries) {
+		const [{ _id, query }] = key as unknown as PetCacheKey;
+
+		if (!Array.isArray(data)) {
+			if (data?.id !== petId) continue;
+			if (next) {
+				queryClient.setQueryData(key, next);
+			} else if (
+				!queryClient
+					.getQueryCache()
+					.find({ queryKey: key, exact: true })
+					?.getObserversCount()
+			) {
+				// Forget a deleted pet, or restoring it would look like a no-op
+				queryClient.removeQueries({ queryKey: key, exact: true });
+			}
+			continue;
+		}
+
+		const belongs =
+			next !== undefined &&
+			(_id === "findPetsByStatus"
+				? query?.status?.includes(next.status ?? "")
+				: next.tags?.some((tag) => query?.tags?.includes(tag.name ?? "")));
+		const cached = data.some((pet) => pet.id === petId);
+
+		if (!belongs) {
+			if (cached) {
+				queryClient.setQueryData(
+					key,
+					data.filter((pet) => pet.id !== petId),
+				);
+			}
+		} else if (!cached) {
+			queryClient.setQueryData(key, [...data, next]);
+		} else {
+			queryClient.setQueryData(
+				key,
+				data.map((pet) => (pet.id === petId ? next : pet)),
+			);
+		}
+	}
+
+	if (inventory && previous?.status !== next?.status) {
+		const counts = { ...inventory };
+		if (previous?.status) {
+			counts[previous.status] = Math.max(0, (counts[previous.status] ?? 0) - 1);
+		}
+		if (next?.status) {
+			counts[next.status] = (counts[next.status] ?? 0) + 1;
+		}
+		queryClient.setQueryData(petstoreKeys.inventory(account), counts);
+	}
+
+	return () => {
+		for (const [key, data] of entries) queryClient.setQueryData(key, data);
+		queryClient.setQueryData(petstoreKeys.inventory(account), inventory);
+	};
+}
+
+type OptimisticOption = {
+	/**
+	 * Edit the cached pet lists and inventory as soon as the mutation starts
+	 * (see `editCachedPet`), roll back if it fails and refetch once it settles.
+	 */
+	optimistic?: boolean;
+};
+
+// Wrap a mutation's callbacks with an optimistic `edit`; the caller's own
+// callbacks still run
+function optimisticPetOptions<TOperation extends PetstoreOperation, TVariables>(
+	queryClient: QueryClient,
+	edit: (variables: TVariables) => Promise<RestorePetCache>,
+	{
+		onMutate,
+		onError,
+		onSettled,
+		...options
+	}: MutationOverrides<unknown, TOperation, TVariables>,
+): MutationOverrides<unknown, TOperation, TVariables> {
+	return {
+		...options,
+		onMutate: async (variables, context) => {
+			const restore = await edit(variables);
+			await onMutate?.(variables, context);
+			return restore;
+		},
+		onError: (error, variables, restore, context) => {
+			(restore as RestorePetCache | undefined)?.();
+			return onError?.(error, variables, restore, context);
+		},
+		onSettled: (data, error, variables, restore, context) => {
+			invalidatePetQueries(queryClient);
+			invalidateInventoryQueries(queryClient);
+			return onSettled?.(data, error, variables, restore, context);
+		},
+	};
+}
+
+async function noCacheEdit(): Promise<RestorePetCache> {
+	return () => {};
+}
+
+// ============================================================================
+// Offline queue
+// ============================================================================
+
+// Mutations that can be queued while offline. They need a key so a replay
+// after a reload can find their `mutationFn` (see `setupPetstoreOfflineQueue`)
+export const petstoreMutationKeys = {
+	addPet: () => [{ api: "petstore", _id: "addPet" }] as const,
+	updatePet: () => [{ api: "petstore", _id: "updatePet" }] as const,
+	deletePet: () => [{ api: "petstore", _id: "deletePet" }] as const,
+	placeOrder: () => [{ api: "petstore", _id: "placeOrder" }] as const,
+};
+
+function addPetFn(client: Client, auth?: PetstoreAuth) {
+	const { mutationFn } = petstoreMutation(
+		"addPet",
+		addPetMutation({ client, auth }),
+	);
+
+	return (pet: AddPetData["body"], context: MutationFunctionContext) =>
+		mutationFn?.({ body: pet }, context) as Promise<unknown>;
+}
+
+function updatePetFn(client: Client, auth?: PetstoreAuth) {
+	const { mutationFn } = petstoreMutation(
+		"updatePet",
+		updatePetMutation({ client, auth }),
+	);
+
+	return async (
+		pet: UpdatePetData["body"],
+		context: MutationFunctionContext,
+	) => {
+		if (pet.id !== undefined) {
+			await checkQueuedChange(context.client, client, "updatePet", pet.id);
+		}
+		return mutationFn?.({ body: pet }, context) as Promise<unknown>;
+	};
+}
+
+function deletePetFn(client: Client, auth?: PetstoreAuth) {
+	const { mutationFn } = petstoreMutation(
+		"deletePet",
+		deletePetMutation({ client, auth }),
+	);
+
+	return async (petId: number, context: MutationFunctionContext) => {
+		if (
+			(await checkQueuedChange(context.client, client, "deletePet", petId)) ===
+			"skip"
+		) {
+			return undefined;
+		}
+		return mutationFn?.({ path: { petId } }, context) as Promise<unknown>;
+	};
+}
+
+function placeOrderFn(client: Client, auth?: PetstoreAuth) {
+	const { mutationFn } = petstoreMutation(
+		"placeOrder",
+		placeOrderMutation({ client, auth }),
+	);
+
+	return async (
+		order: PlaceOrderData["body"],
+		context: MutationFunctionContext,
+	) => {
+		if (order.petId !== undefined) {
+			await checkQueuedChange(
+				context.client,
+				client,
+				"placeOrder",
+				order.petId,
+			);
+		}
+		return mutationFn?.({ body: order }, context) as Promise<Order>;
+	};
+}
+
+/**
+ * Let Petstore mutations queue while offline and replay after a reload:
+ * registers their `mutationFn`s as defaults and records the pets queued
+ * changes target (see `./petstore-offline`). Browser only; returns a
+ * function that stops recording.
+ */
+export function setupPetstoreOfflineQueue(
+	queryClient: QueryClient,
+	client: Client,
+) {
+	// Replayed mutations have lost their component's callbacks
+	const onSettled = () => invalidateStoreQueries(queryClient);
+
+	queryClient.setMutationDefaults(petstoreMutationKeys.addPet(), {
+		mutationFn: addPetFn(client),
+		scope: PETSTORE_QUEUE_SCOPE,
+		onSettled,
+	});
+	queryClient.setMutationDefaults(petstoreMutationKeys.updatePet(), {
+		mutationFn: updatePetFn(client),
+		scope: PETSTORE_QUEUE_SCOPE,
+		onSettled,
+	});
+	queryClient.setMutationDefaults(petstoreMutationKeys.deletePet(), {
+		mutationFn: deletePetFn(client),
+		scope: PETSTORE_QUEUE_SCOPE,
+		onSettled,
+	});
+	queryClient.setMutationDefaults(petstoreMutationKeys.placeOrder(), {
+		mutationFn: placeOrderFn(client),
+		scope: PETSTORE_QUEUE_SCOPE,
+		onSettled,
+	});
+
+	return trackQueuedPetChanges(queryClient, {
+		targetOf: ({ options: { mutationKey }, state: { variables } }) => {
+			const [{ _id } = {}] = (mutationKey ?? []) as ReadonlyArray<{
+				_id?: string;
+			}>;
+			if (_id === "updatePet") return (variables as PetType).id;
+			if (_id === "deletePet") return variables as number;
+			if (_id === "placeOrder") return (variables as Order).petId;
+			return undefined;
+		},
+		// Another account's cache is cleared before this one is used
+		cachedPet: (petId) => findCachedPet(queryClient, undefined, petId),
+	});
+}
+
 // ============================================================================
 // Pet Mutations
 // ============================================================================
@@ -92,18 +684,32 @@ export function useGetPetById(
  * Hook to add a new pet
  */
 export function useAddPet(
-	options?: UseMutationOptions<PetType, Error, AddPetData["body"]>,
-	auth?: string | (() => Promise<string | undefined>),
+	{
+		optimistic,
+		...options
+	}: MutationOverrides<unknown, "addPet", AddPetData["body"]> &
+		OptimisticOption = {},
+	auth?: PetstoreAuth,
 ) {
+	const client = usePetstoreClient();
+	const account = usePetstoreAccount();
+	const queryClient = useQueryClient();
 	return useMutation({
-		mutationFn: async (pet: AddPetData["body"]) => {
-			const response = await Pet.addPet({
-				body: pet,
-				auth,
-			});
-			return response.data as PetType;
-		},
-		...options,
+		mutationKey: petstoreMutationKeys.addPet(),
+		scope: PETSTORE_QUEUE_SCOPE,
+		mutationFn: addPetFn(client, auth),
+		// Only a pet with an ID (such as one being restored) can be placed
+		// in the cache before the server assigns one
+		...(optimistic
+			? optimisticPetOptions(
+					queryClient,
+					(pet) =>
+						pet.id === undefined
+							? noCacheEdit()
+							: editCachedPet(queryClient, account, pet.id, pet),
+					options,
+				)
+			: options),
 	});
 }
 
@@ -111,16 +717,94 @@ export function useAddPet(
  * Hook to update an existing pet
  */
 export function useUpdatePet(
-	options?: UseMutationOptions<void, Error, UpdatePetData["body"]>,
-	auth?: string | (() => Promise<string | undefined>),
+	{
+		optimistic,
+		...options
+	}: MutationOverrides<unknown, "updatePet", UpdatePetData["body"]> &
+		OptimisticOption = {},
+	auth?: PetstoreAuth,
 ) {
+	const client = usePetstoreClient();
+	const account = usePetstoreAccount();
+	const queryClient = useQueryClient();
 	return useMutation({
-		mutationFn: async (pet: UpdatePetData["body"]) => {
-			await Pet.updatePet({
-				body: pet,
-				auth,
-			});
-		},
+		mutationKey: petstoreMutationKeys.updatePet(),
+		scope: PETSTORE_QUEUE_SCOPE,
+		mutationFn: updatePetFn(client, auth),
+		...(optimistic
+			? optimisticPetOptions(
+					queryClient,
+					(pet) =>
+						pet.id === undefined
+							? noCacheEdit()
+							: editCachedPet(queryClient, account, pet.id, pet),
+					options,
+				)
+			: options),
+	});
+}
+
+export type UpdatePetWithFormVariables = {
+	petId: number;
+} & NonNullable<UpdatePetWithFormData["body"]>;
+
+/**
+ * Hook to update a pet's name and/or status with a form post
+ */
+export function useUpdatePetWithForm(
+	options?: MutationOverrides<
+		unknown,
+		"updatePetWithForm",
+		UpdatePetWithFormVariables
+	>,
+	auth?: PetstoreAuth,
+) {
+	const client = usePetstoreClient();
+	const { mutationFn } = petstoreMutation(
+		"updatePetWithForm",
+		updatePetWithFormMutation({ client, auth }),
+	);
+
+	return useMutation({
+		mutationFn: (
+			{ petId, ...body }: UpdatePetWithFormVariables,
+			context: MutationFunctionContext,
+		) => mutationFn?.({ path: { petId }, body }, context) as Promise<unknown>,
+		...options,
+	});
+}
+
+export type UploadFileVariables = {
+	petId: number;
+	onProgress?: (progress: UploadProgress) => void;
+} & NonNullable<UploadFileData["body"]>;
+
+/**
+ * Hook to upload a pet photo. Pass `onProgress` to follow the upload.
+ */
+export function useUploadFile(
+	options?: MutationOverrides<ApiResponse, "uploadFile", UploadFileVariables>,
+	auth?: PetstoreAuth,
+) {
+	const client = usePetstoreClient();
+	const { mutationFn } = petstoreMutation(
+		"uploadFile",
+		uploadFileMutation({ client, auth }),
+	);
+
+	return useMutation({
+		mutationFn: (
+			{ petId, onProgress, ...body }: UploadFileVariables,
+			context: MutationFunctionContext,
+		) =>
+			mutationFn?.(
+				{
+					path: { petId },
+					body,
+					fetch: onProgress && createProgressFetch(onProgress),
+				},
+				context,
+			) as Promise<ApiResponse>,
 		...options,
 	});
 }
@@ -129,17 +813,26 @@ export function useUpdatePet(
  * Hook to delete a pet
  */
 export function useDeletePet(
-	options?: UseMutationOptions<void, Error, number>,
-	auth?: string | (() => Promise<string | undefined>),
+	{
+		optimistic,
+		...options
+	}: MutationOverrides<unknown, "deletePet", number> & OptimisticOption = {},
+	auth?: PetstoreAuth,
 ) {
+	const client = usePetstoreClient();
+	const account = usePetstoreAccount();
+	const queryClient = useQueryClient();
 	return useMutation({
-		mutationFn: async (petId: number) => {
-			await Pet.deletePet({
-				path: { petId },
-				auth,
-			});
-		},
-		...options,
+		mutationKey: petstoreMutationKeys.deletePet(),
+		scope: PETSTORE_QUEUE_SCOPE,
+		mutationFn: deletePetFn(client, auth),
+		...(optimistic
+			? optimisticPetOptions(
+					queryClient,
+					(petId) => editCachedPet(queryClient, account, petId, undefined),
+					options,
+				)
+			: options),
 	});
 }
 
@@ -151,39 +844,63 @@ export function useDeletePet(
  * Hook to fetch store inventory
  */
 export function useGetInventory(
-	options?: Omit<
-		UseQueryOptions<Record<string, number>, Error>,
-		"queryKey" | "queryFn"
+	options?: QueryOverrides<
+		Record<string, number>,
+		"getInventory",
+		ReturnType<typeof petstoreKeys.inventory>
 	>,
-	auth?: string | (() => Promise<string | undefined>),
+	auth?: PetstoreAuth,
 ) {
+	const client = usePetstoreClient();
+	const account = usePetstoreAccount();
+
 	return useSuspenseQuery({
-		queryKey: petstoreKeys.inventory(),
-		queryFn: async () => {
-			const response = await Store.getInventory({ auth });
-			return response.data ?? {};
-		},
+		...petstoreQuery(
+			"getInventory",
+			getInventoryOptions({ client, auth }),
+			account,
+		),
 		...options,
 	});
 }
 
+/**
+ * Query options for an order, shared by `useGetOrderById` and route loaders
+ */
+export function orderByIdQuery(
+	client: Client,
+	account: PetstoreAccount,
+	orderId: number,
+	auth?: PetstoreAuth,
+) {
+	return petstoreQuery(
+		"getOrderById",
+		getOrderByIdOptions({ client, auth, path: { orderId } }),
+		account,
+	);
+}
+
 /**
  * Hook to fetch an order by ID
  */
 export function useGetOrderById(
 	orderId: number,
-	options?: Omit<UseQueryOptions<Order | null, Error>, "queryKey" | "queryFn">,
-	auth?: string | (() => Promise<string | undefined>),
+	options?: Omit<
+		UseQueryOptions<
+			Order,
+			PetstoreApiError<"getOrderById">,
+			Order,
+			ReturnType<typeof petstoreKeys.order>
+		>,
+		"queryKey" | "queryFn"
+	>,
+	auth?: PetstoreAuth,
 ) {
+	const client = usePetstoreClient();
+	const account = usePetstoreAccount();
+
 	return useQuery({
-		queryKey: petstoreKeys.order(orderId),
-		queryFn: async () => {
-			const response = await Store.getOrderById({
-				path: { orderId },
-				auth,
-			});
-			return response.data ?? null;
-		},
+		...orderByIdQuery(client, account, orderId, auth),
 		enabled: orderId > 0,
 		...options,
 	});
@@ -197,21 +914,243 @@ export function useGetOrderById(
  * Hook to place an order
  */
 export function usePlaceOrder(
-	options?: UseMutationOptions<Order | null, Error, PlaceOrderData["body"]>,
-	auth?: string | (() => Promise<string | undefined>),
+	options?: MutationOverrides<Order, "placeOrder", PlaceOrderData["body"]>,
+	auth?: PetstoreAuth,
 ) {
+	const client = usePetstoreClient();
 	return useMutation({
-		mutationFn: async (order: PlaceOrderData["body"]) => {
-			const response = await Store.placeOrder({
-				body: order,
-				auth,
-			});
-			return response.data ?? null;
-		},
+		mutationKey: petstoreMutationKeys.placeOrder(),
+		scope: PETSTORE_QUEUE_SCOPE,
+		mutationFn: placeOrderFn(client, auth),
+		...options,
+	});
+}
+
+/**
+ * Hook to cancel (delete) an order
+ */
+export function useDeleteOrder(
+	options?: MutationOverrides<unknown, "deleteOrder", number>,
+	auth?: PetstoreAuth,
+) {
+	const client = usePetstoreClient();
+	const { mutationFn } = petstoreMutation(
+		"deleteOrder",
+		deleteOrderMutation({ client, auth }),
+	);
+
+	return useMutation({
+		mutationFn: (orderId: number, context: MutationFunctionContext) =>
+			mutationFn?.({ path: { orderId } }, context) as Promise<unknown>,
+		...options,
+	});
+}
+
+// ============================================================================
+// User Queries
+// ============================================================================
+
+/**
+ * Query options for a user, shared by `useGetUserByName` and route loaders
+ */
+export function userByNameQuery(
+	client: Client,
+	account: PetstoreAccount,
+	username: string,
+	auth?: PetstoreAuth,
+) {
+	return petstoreQuery(
+		"getUserByName",
+		getUserByNameOptions({ client, auth, path: { username } }),
+		account,
+	);
+}
+
+/**
+ * Hook to fetch a user by username
+ */
+export function useGetUserByName(
+	username: string,
+	options?: QueryOverrides<
+		UserType,
+		"getUserByName",
+		ReturnType<typeof petstoreKeys.user>
+	>,
+	auth?: PetstoreAuth,
+) {
+	const client = usePetstoreClient();
+	const account = usePetstoreAccount();
+
+	return useSuspenseQuery({
+		...userByNameQuery(client, account, username, auth),
+		...options,
+	});
+}
+
+// ============================================================================
+// User Mutations
+// ============================================================================
+
+/**
+ * Hook to create a user
+ */
+export function useCreateUser(
+	options?: MutationOverrides<unknown, "createUser", UserType>,
+	auth?: PetstoreAuth,
+) {
+	const client = usePetstoreClient();
+	const { mutationFn } = petstoreMutation(
+		"createUser",
+		createUserMutation({ client, auth }),
+	);
+
+	return useMutation({
+		mutationFn: (user: UserType, context: MutationFunctionContext) =>
+			mutationFn?.({ body: user }, context) as Promise<unknown>,
+		...options,
+	});
+}
+
+/**
+ * Hook to create several users from an array
+ */
+export function useCreateUsersWithArrayInput(
+	options?: MutationOverrides<
+		unknown,
+		"createUsersWithArrayInput",
+		Array<UserType>
+	>,
+	auth?: PetstoreAuth,
+) {
+	const client = usePetstoreClient();
+	const { mutationFn } = petstoreMutation(
+		"createUsersWithArrayInput",
+		createUsersWithArrayInputMutation({ client, auth }),
+	);
+
+	return useMutation({
+		mutationFn: (users: Array<UserType>, context: MutationFunctionContext) =>
+			mutationFn?.({ body: users }, context) as Promise<unknown>,
+		...options,
+	});
+}
+
+/**
+ * Hook to create several users from a list
+ */
+export function useCreateUsersWithListInput(
+	options?: MutationOverrides<
+		unknown,
+		"createUsersWithListInput",
+		Array<UserType>
+	>,
+	auth?: PetstoreAuth,
+) {
+	const client = usePetstoreClient();
+	const { mutationFn } = petstoreMutation(
+		"createUsersWithListInput",
+		createUsersWithListInputMutation({ client, auth }),
+	);
+
+	return useMutation({
+		mutationFn: (users: Array<UserType>, context: MutationFunctionContext) =>
+			mutationFn?.({ body: users }, context) as Promise<unknown>,
+		...options,
+	});
+}
+
+export type UpdateUserVariables = {
+	// The user's current username; `user.username` may rename them
+	username: string;
+	user: UserType;
+};
+
+/**
+ * Hook to update a user
+ */
+export function useUpdateUser(
+	options?: MutationOverrides<unknown, "updateUser", UpdateUserVariables>,
+	auth?: PetstoreAuth,
+) {
+	const client = usePetstoreClient();
+	const { mutationFn } = petstoreMutation(
+		"updateUser",
+		updateUserMutation({ client, auth }),
+	);
+
+	return useMutation({
+		mutationFn: (
+			{ username, user }: UpdateUserVariables,
+			context: MutationFunctionContext,
+		) =>
+			mutationFn?.(
+				{ path: { username }, body: user },
+				context,
+			) as Promise<unknown>,
 		...options,
 	});
 }
 
+/**
+ * Hook to delete a user
+ */
+export function useDeleteUser(
+	options?: MutationOverrides<unknown, "deleteUser", string>,
+	auth?: PetstoreAuth,
+) {
+	const client = usePetstoreClient();
+	const { mutationFn } = petstoreMutation(
+		"deleteUser",
+		deleteUserMutation({ client, auth }),
+	);
+
+	return useMutation({
+		mutationFn: (username: string, context: MutationFunctionContext) =>
+			mutationFn?.({ path: { username } }, context) as Promise<unknown>,
+		...options,
+	});
+}
+
+export type PetstoreLogin = {
+	session: string;
+	// From the `X-Expires-After` header, when the server sends one
+	expiresAt?: Date;
+};
+
+/**
+ * Log a user in with `loginUser`. Only the server calls this, while signing
+ * in (see `src/server/auth.ts`); the browser never sees Petstore passwords.
+ */
+export async function loginPetstoreUser(
+	client: Client,
+	credentials: { username: string; password: string },
+	auth?: PetstoreAuth,
+): Promise<PetstoreLogin> {
+	try {
+		const { data, response } = await User.loginUser({
+			client,
+			auth,
+			query: credentials,
+			throwOnError: true,
+			// The spec promises a string, but the public Petstore answers with
+			// an `ApiResponse` whose message holds the session
+			responseValidator: undefined,
+		});
+		const expires = response.headers.get("X-Expires-After");
+		const body = data as unknown;
+
+		return {
+			session:
+				typeof body === "string"
+					? body
+					: ((body as { message?: string } | undefined)?.message ?? ""),
+			expiresAt: expires ? new Date(expires) : undefined,
+		};
+	} catch (error) {
+		throw toPetstoreApiError("loginUser", error);
+	}
+}
+
 // ============================================================================
 // Helper function to invalidate queries
 // ============================================================================
@@ -231,9 +1170,27 @@ export function invalidatePetQueries(queryClient: QueryClient) {
 }
 
 export function invalidateInventoryQueries(queryClient: QueryClient) {
-	return queryClient.invalidateQueries({ queryKey: petstoreKeys.inventory() });
+	return queryClient.invalidateQueries({
+		queryKey: petstoreKeys.inventories(),
+	});
 }
 
 export function invalidateOrderQueries(queryClient: QueryClient) {
 	return queryClient.invalidateQueries({ queryKey: petstoreKeys.orders() });
 }
+
+export function invalidateUserQueries(queryClient: QueryClient) {
+	return queryClient.invalidateQueries({ queryKey: petstoreKeys.users() });
+}
+
+/**
+ * Helper to invalidate everything an order can affect: orders, the
+ * inventory and pet statuses
+ */
+export function invalidateStoreQueries(queryClient: QueryClient) {
+	return Promise.all([
+		invalidateOrderQueries(queryClient),
+		invalidateInventoryQueries(queryClient),
+		invalidatePetQueries(queryClient),
+	]);
+}
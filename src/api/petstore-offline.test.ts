@@ -0,0 +1,209 @@
+import {
+	MutationObserver,
+	onlineManager,
+	QueryClient,
+} from "@tanstack/react-query";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Pet } from "./petstore/types.gen";
+import { createPetstoreClient } from "./petstore-client";
+import { PetstoreApiError } from "./petstore-errors";
+import { checkQueuedChange, trackQueuedPetChanges } from "./petstore-offline";
+
+const client = createPetstoreClient({
+	baseUrl: "https://petstore.test/v2",
+	resilience: false,
+});
+
+const rex: Pet = {
+	id: 1,
+	name: "Rex",
+	photoUrls: [],
+	status: "available",
+	tags: [{ id: 1, name: "dog" }],
+};
+
+let queryClient: QueryClient;
+let stopTracking: () => void;
+let server: Response | Error;
+let requests: number;
+
+beforeEach(() => {
+	queryClient = new QueryClient();
+	// Mutations target the pet ID they're called with; only Rex is cached
+	stopTracking = trackQueuedPetChanges(queryClient, {
+		targetOf: (mutation) => mutation.state.variables as number,
+		cachedPet: (petId) => (petId === rex.id ? rex : undefined),
+	});
+	server = Response.json(rex);
+	requests = 0;
+	vi.stubGlobal("fetch", async () => {
+		requests++;
+		if (server instanceof Error) throw server;
+		return server.clone();
+	});
+});
+
+afterEach(() => {
+	stopTracking();
+	queryClient.clear();
+	onlineManager.setOnline(true);
+	vi.unstubAllGlobals();
+});
+
+// Start a change to `petId` while offline, then come back online. The
+// mutation stays paused: only the pet it recorded matters here.
+async function queueOffline(petId: number) {
+	onlineManager.setOnline(false);
+	new MutationObserver<unknown, Error, number>(queryClient, {
+		mutationFn: async () => {},
+	})
+		.mutate(petId)
+		.catch(() => {});
+	await Promise.resolve();
+	onlineManager.setOnline(true);
+}
+
+const conflict = (message: string) => ({
+	status: 409,
+	body: { type: "conflict", message: `${message} Your change was not sent.` },
+});
+
+describe("checkQueuedChange", () => {
+	it("sends changes that weren't queued offline without asking the server", async () => {
+		await expect(
+			checkQueuedChange(queryClient, client, "updatePet", 1),
+		).resolves.toBe("send");
+		expect(requests).toBe(0);
+	});
+
+	it("doesn't record changes made while online", async () => {
+		new MutationObserver<unknown, Error, number>(queryClient, {
+			mutationFn: async () => {},
+		}).mutate(1);
+		await Promise.resolve();
+
+		await checkQueuedChange(queryClient, client, "updatePet", 1);
+		expect(requests).toBe(0);
+	});
+
+	it("replays a change to a pet nobody else touched, once", async () => {
+		await queueOffline(1);
+
+		await expect(
+			checkQueuedChange(queryClient, client, "updatePet", 1),
+		).resolves.toBe("send");
+		expect(requests).toBe(1);
+
+		// The recorded pet is used up by the first replay
+		await checkQueuedChange(queryClient, client, "updatePet", 1);
+		expect(requests).toBe(1);
+	});
+
+	it("refuses a change to a pet edited while offline", async () => {
+		await queueOffline(1);
+		server = Response.json({ ...rex, name: "Max" });
+
+		const error = await checkQueuedChange(
+			queryClient,
+			client,
+			"updatePet",
+			1,
+		).catch((error: unknown) => error);
+
+		expect(error).toBeInstanceOf(PetstoreApiError);
+		expect(error).toMatchObject({
+			operation: "updatePet",
+			...conflict("Pet #1 was changed while you were offline."),
+		});
+	});
+
+	it("ignores fields a person wouldn't notice changing", async () => {
+		await queueOffline(1);
+		server = Response.json({
+			...rex,
+			tags: [{ id: 7, name: "dog" }],
+		});
+
+		await expect(
+			checkQueuedChange(queryClient, client, "updatePet", 1),
+		).resolves.toBe("send");
+	});
+
+	it("refuses an update to a pet deleted while offline", async () => {
+		await queueOffline(1);
+		server = Response.json(
+			{ code: 404, type: "error", message: "Pet not found" },
+			{ status: 404 },
+		);
+
+		await expect(
+			checkQueuedChange(queryClient, client, "updatePet", 1),
+		).rejects.toMatchObject(
+			conflict("Pet #1 was deleted while you were offline."),
+		);
+	});
+
+	it("skips a delete that already happened elsewhere", async () => {
+		await queueOffline(1);
+		server = Response.json(
+			{ code: 404, type: "error", message: "Pet not found" },
+			{ status: 404 },
+		);
+
+		await expect(
+			checkQueuedChange(queryClient, client, "deletePet", 1),
+		).resolves.toBe("skip");
+	});
+
+	it("refuses an order for a pet that is no longer available", async () => {
+		await queueOffline(1);
+		server = Response.json({ ...rex, status: "sold" });
+
+		await expect(
+			checkQueuedChange(queryClient, client, "placeOrder", 1),
+		).rejects.toMatchObject({
+			operation: "placeOrder",
+			...conflict("Pet #1 is no longer available."),
+		});
+	});
+
+	it("places an order for an edited pet that is still available", async () => {
+		await queueOffline(1);
+		server = Response.json({ ...rex, name: "Max" });
+
+		await expect(
+			checkQueuedChange(queryClient, client, "placeOrder", 1),
+		).resolves.toBe("send");
+	});
+
+	it("sends a change to a pet that wasn't cached when it was queued", async () => {
+		await queueOffline(2);
+		server = Response.json({ ...rex, id: 2, name: "Tom" });
+
+		await expect(
+			checkQueuedChange(queryClient, client, "updatePet", 2),
+		).resolves.toBe("send");
+		expect(requests).toBe(1);
+	});
+
+	it("keeps the recorded pet when the server can't be reached", async () => {
+		await queueOffline(1);
+		server = new TypeError("fetch failed");
+
+		await expect(
+			checkQueuedChange(queryClient, client, "deletePet", 1),
+		).rejects.toMatchObject({
+			operation: "deletePet",
+			status: 0,
+			kind: "network",
+		});
+
+		// The next replay checks again
+		server = Response.json({ ...rex, name: "Max" });
+		await expect(
+			checkQueuedChange(queryClient, client, "deletePet", 1),
+		).rejects.toMatchObject(
+			conflict("Pet #1 was changed while you were offline."),
+		);
+	});
+});
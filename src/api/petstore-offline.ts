@@ -0,0 +1,203 @@
+// Offline queue for Petstore mutations.
+//
+// While the browser is offline, mutations pause instead of failing. Paused
+// mutations are persisted with the query cache (see `persistQueryClient`) and
+// replayed once the browser is back online. A replayed change may be stale:
+// the pet can have been deleted, sold or edited by someone else in the
+// meantime. So the pet is recorded when a change to it is queued, and checked
+// against the server before the change is sent.
+import {
+	type Mutation,
+	onlineManager,
+	type QueryClient,
+} from "@tanstack/react-query";
+import { useSyncExternalStore } from "react";
+import type { Client } from "./petstore/client";
+import { Pet as PetApi } from "./petstore/sdk.gen";
+import type { Pet } from "./petstore/types.gen";
+import {
+	isPetstoreApiError,
+	PetstoreApiError,
+	unwrapPetstore,
+} from "./petstore-errors";
+
+/**
+ * Queued mutations share a scope so they replay one at a time, in order.
+ */
+export const PETSTORE_QUEUE_SCOPE = { id: "petstore" };
+
+// The pet as it was when the first change to it was queued. It lives in the
+// query cache so it is persisted, and dropped, together with the mutations.
+type QueuedPet = { pet: Pet | null };
+
+const QUEUED_PETS_KEY = ["petstore-offline", "queued-pet"] as const;
+const queuedPetKey = (petId: number) => [...QUEUED_PETS_KEY, petId] as const;
+
+/**
+ * Record the pet a mutation changes when it is queued while offline.
+ * `targetOf` picks the pet ID out of a mutation; `cachedPet` looks the pet up
+ * before any optimistic edit. Returns a function that stops tracking.
+ */
+export function trackQueuedPetChanges(
+	queryClient: QueryClient,
+	{
+		targetOf,
+		cachedPet,
+	}: {
+		targetOf: (
+			mutation: Mutation<unknown, unknown, unknown>,
+		) => number | undefined;
+		cachedPet: (petId: number) => Pet | undefined;
+	},
+) {
+	// Nothing observes these entries, so keep them until the replay
+	queryClient.setQueryDefaults(QUEUED_PETS_KEY, {
+		gcTime: Number.POSITIVE_INFINITY,
+	});
+
+	return queryClient.getMutationCache().subscribe((event) => {
+		// `pending` is dispatched when the mutation starts, before `onMutate`
+		if (
+			event.type !== "updated" ||
+			event.action.type !== "pending" ||
+			!event.action.isPaused ||
+			onlineManager.isOnline()
+		) {
+			return;
+		}
+
+		const petId = targetOf(event.mutation);
+		if (petId === undefined) return;
+
+		const key = queuedPetKey(petId);
+		// Later changes to the same pet build on the first one
+		if (queryClient.getQueryData(key) === undefined) {
+			queryClient.setQueryData<QueuedPet>(key, {
+				pet: cachedPet(petId) ?? null,
+			});
+		}
+	});
+}
+
+// Fields a person would notice changing
+function petSnapshot(pet: Pet) {
+	return JSON.stringify([
+		pet.name,
+		pet.status,
+		pet.category?.name,
+		pet.photoUrls,
+		pet.tags?.map((tag) => tag.name),
+	]);
+}
+
+/**
+ * Before a queued change to `petId` is replayed, make sure the server hasn't
+ * moved on: the pet must still exist, be unchanged since the change was
+ * queued, and be available for an order. Returns `"skip"` when a delete
+ * already happened elsewhere. Changes that weren't queued are sent as is.
+ */
+export async function checkQueuedChange<
+	TOperation extends "updatePet" | "deletePet" | "placeOrder",
+>(
+	queryClient: QueryClient,
+	client: Client,
+	operation: TOperation,
+	petId: number,
+): Promise<"send" | "skip"> {
+	const key = queuedPetKey(petId);
+	const queued = queryClient.getQueryData<QueuedPet>(key);
+	if (!queued) return "send";
+
+	let current: Pet | undefined;
+	try {
+		current = await unwrapPetstore(
+			"getPetById",
+			PetApi.getPetById({ client, path: { petId } }),
+		);
+	} catch (error) {
+		if (!isPetstoreApiError(error) || error.status !== 404) {
+			throw new PetstoreApiError(
+				operation,
+				isPetstoreApiError(error) ? error.status : 0,
+				isPetstoreApiError(error) ? error.body : undefined,
+				{
+					cause: error,
+					kind: isPetstoreApiError(error) ? error.kind : undefined,
+				},
+			);
+		}
+	}
+	queryClient.removeQueries({ queryKey: key, exact: true });
+
+	if (!current) {
+		if (operation === "deletePet") return "skip";
+		throw conflict(
+			operation,
+			`Pet #${petId} was deleted while you were offline.`,
+		);
+	}
+	if (operation === "placeOrder" && current.status !== "available") {
+		throw conflict(operation, `Pet #${petId} is no longer available.`);
+	}
+	if (
+		operation !== "placeOrder" &&
+		queued.pet &&
+		petSnapshot(queued.pet) !== petSnapshot(current)
+	) {
+		throw conflict(
+			operation,
+			`Pet #${petId} was changed while you were offline.`,
+		);
+	}
+	return "send";
+}
+
+// ============================================================================
+// Conflicts
+// ============================================================================
+
+export type PetstoreConflict = { id: number; message: string };
+
+const listeners = new Set<() => void>();
+const noConflicts: Array<PetstoreConflict> = [];
+let conflicts = noConflicts;
+let nextConflictId = 1;
+
+function setConflicts(next: Array<PetstoreConflict>) {
+	conflicts = next;
+	for (const listener of listeners) listener();
+}
+
+function conflict<TOperation extends "updatePet" | "deletePet" | "placeOrder">(
+	operation: TOperation,
+	message: string,
+) {
+	setConflicts([...conflicts, { id: nextConflictId++, message }]);
+	return new PetstoreApiError(operation, 409, {
+		code: 409,
+		type: "conflict",
+		message: `${message} Your change was not sent.`,
+	});
+}
+
+export function dismissConflict(id: number) {
+	setConflicts(conflicts.filter((entry) => entry.id !== id));
+}
+
+function subscribe(listener: () => void) {
+	listeners.add(listener);
+	return () => {
+		listeners.delete(listener);
+	};
+}
+
+/**
+ * Queued changes that were dropped because the server had moved on.
+ */
+export function usePetstoreConflicts() {
+	return useSyncExternalStore(
+		subscribe,
+		() => conflicts,
+		() => noConflicts,
+	);
+}
@@ -0,0 +1,195 @@
+import { QueryClient } from "@tanstack/react-query";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createPetstoreClient } from "./petstore-client";
+import { PetstoreApiError, PetstoreValidationError } from "./petstore-errors";
+import { petByIdQuery, petsByStatusQuery } from "./petstore-hooks";
+import {
+	getPetstoreValidationPolicy,
+	validatePet,
+	validatePetList,
+} from "./petstore-validation";
+
+const valid = { id: 1, name: "Rex", photoUrls: ["rex.jpg"] };
+const nameless = { id: 2, photoUrls: ["2.jpg"] };
+const badPhotos = { id: 3, name: "Tom", photoUrls: [{ url: "tom.jpg" }] };
+
+let warn: ReturnType<typeof vi.spyOn>;
+
+beforeEach(() => {
+	warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+	vi.restoreAllMocks();
+	vi.unstubAllEnvs();
+	vi.unstubAllGlobals();
+});
+
+describe("getPetstoreValidationPolicy", () => {
+	it("reads VITE_PETSTORE_VALIDATION", () => {
+		vi.stubEnv("VITE_PETSTORE_VALIDATION", "reject");
+
+		expect(getPetstoreValidationPolicy()).toBe("reject");
+	});
+
+	it("defaults to drop", () => {
+		vi.stubEnv("VITE_PETSTORE_VALIDATION", "");
+		expect(getPetstoreValidationPolicy()).toBe("drop");
+
+		vi.stubEnv("VITE_PETSTORE_VALIDATION", "ignore");
+		expect(getPetstoreValidationPolicy()).toBe("drop");
+	});
+});
+
+describe("validatePetList", () => {
+	const transform = (policy: "reject" | "drop" | "log", data: unknown) =>
+		validatePetList("findPetsByStatus", policy).responseTransformer(data);
+
+	it("replaces the SDK's rejecting validator", () => {
+		expect(validatePetList("findPetsByStatus", "reject")).toMatchObject({
+			responseValidator: undefined,
+		});
+	});
+
+	it("returns valid lists as received under every policy", async () => {
+		for (const policy of ["reject", "drop", "log"] as const) {
+			await expect(transform(policy, [valid])).resolves.toEqual([valid]);
+		}
+		expect(warn).not.toHaveBeenCalled();
+	});
+
+	it("reject: fails with the path of the first invalid pet", async () => {
+		const error = await transform("reject", [valid, badPhotos]).catch(
+			(error: unknown) => error,
+		);
+
+		expect(error).toBeInstanceOf(PetstoreValidationError);
+		expect(error).toMatchObject({
+			operation: "findPetsByStatus",
+			issues: [expect.objectContaining({ path: [1, "photoUrls", 0] })],
+		});
+		expect((error as Error).message).toMatch(/at 1\.photoUrls\.0/);
+	});
+
+	it("drop: leaves out invalid pets and warns", async () => {
+		await expect(
+			transform("drop", [nameless, valid, badPhotos]),
+		).resolves.toEqual([valid]);
+		expect(warn).toHaveBeenCalledWith(
+			"[petstore] findPetsByStatus: dropped 2 invalid pet(s)",
+			[
+				expect.objectContaining({ index: 0 }),
+				expect.objectContaining({ index: 2 }),
+			],
+		);
+	});
+
+	it("log: keeps invalid pets and warns", async () => {
+		await expect(transform("log", [nameless, valid])).resolves.toEqual([
+			nameless,
+			valid,
+		]);
+		expect(warn).toHaveBeenCalledWith(
+			"[petstore] findPetsByStatus: 1 pet(s) do not match the schema",
+			[expect.objectContaining({ index: 0 })],
+		);
+	});
+
+	it("handles a body that isn't a list", async () => {
+		await expect(transform("reject", { pets: [] })).rejects.toBeInstanceOf(
+			PetstoreValidationError,
+		);
+		await expect(transform("drop", { pets: [] })).resolves.toEqual([]);
+		await expect(transform("log", { pets: [] })).resolves.toEqual({
+			pets: [],
+		});
+	});
+});
+
+describe("validatePet", () => {
+	const transform = (policy: "reject" | "drop" | "log", data: unknown) =>
+		validatePet("getPetById", policy).responseTransformer(data);
+
+	it("returns a valid pet as received", async () => {
+		await expect(transform("reject", valid)).resolves.toBe(valid);
+	});
+
+	it("reject: fails validation", async () => {
+		await expect(transform("reject", nameless)).rejects.toMatchObject({
+			name: "PetstoreValidationError",
+			operation: "getPetById",
+			issues: [expect.objectContaining({ path: ["name"] })],
+		});
+	});
+
+	it("drop: reads as not found", async () => {
+		const error = await transform("drop", nameless).catch(
+			(error: unknown) => error,
+		);
+
+		expect(error).toBeInstanceOf(PetstoreApiError);
+		expect(error).toMatchObject({
+			status: 404,
+			kind: "http",
+			body: { type: "validation" },
+		});
+		expect(warn).toHaveBeenCalledOnce();
+	});
+
+	it("log: returns the pet and warns", async () => {
+		await expect(transform("log", nameless)).resolves.toBe(nameless);
+		expect(warn).toHaveBeenCalledWith(
+			"[petstore] getPetById: pet does not match the schema",
+			expect.any(Array),
+		);
+	});
+});
+
+describe("rejected responses in queries", () => {
+	const client = createPetstoreClient({
+		baseUrl: "https://petstore.test/v2",
+		resilience: false,
+	});
+	const queryClient = new QueryClient({
+		defaultOptions: { queries: { retry: false } },
+	});
+
+	beforeEach(() => {
+		queryClient.clear();
+		vi.stubEnv("VITE_PETSTORE_VALIDATION", "reject");
+	});
+
+	it("fails a list query with a validation error", async () => {
+		vi.stubGlobal("fetch", async () => Response.json([valid, nameless]));
+
+		const error = await queryClient
+			.fetchQuery(petsByStatusQuery(client, null, ["available"]))
+			.catch((error: unknown) => error);
+
+		expect(error).toBeInstanceOf(PetstoreApiError);
+		expect(error).toMatchObject({
+			operation: "findPetsByStatus",
+			kind: "validation",
+			body: { type: "validation" },
+			cause: expect.any(PetstoreValidationError),
+		});
+	});
+
+	it("fails a pet query with a validation error", async () => {
+		vi.stubGlobal("fetch", async () => Response.json(badPhotos));
+
+		await expect(
+			queryClient.fetchQuery(petByIdQuery(client, null, 3)),
+		).rejects.toMatchObject({ operation: "getPetById", kind: "validation" });
+	});
+
+	it("keeps HTTP failures as kind http", async () => {
+		vi.stubGlobal("fetch", async () =>
+			Response.json({ message: "Pet not found" }, { status: 404 }),
+		);
+
+		await expect(
+			queryClient.fetchQuery(petByIdQuery(client, null, 3)),
+		).rejects.toMatchObject({ status: 404, kind: "http" });
+	});
+});
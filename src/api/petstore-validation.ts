@@ -0,0 +1,139 @@
+// Runtime checks for Petstore responses.
+//
+// The SDK validates every response against the zod schemas generated from
+// `petstore-openapi.json` (see `zod.gen.ts`) and rejects on any mismatch. The
+// public Petstore often serves pets with no `name` or non-string `photoUrls`,
+// so one bad record would fail a whole list. For pet reads the hooks replace
+// that check with one of these policies:
+// - "reject": fail the call, like the generated validator
+// - "drop": leave out invalid pets (a single invalid pet reads as a 404)
+// - "log": warn in the console and return the data as received
+import type { z } from "zod";
+import type { Pet } from "./petstore/types.gen";
+import { zPet } from "./petstore/zod.gen";
+import {
+	PetstoreApiError,
+	type PetstoreOperation,
+	PetstoreValidationError,
+} from "./petstore-errors";
+
+export const VALIDATION_POLICIES = ["reject", "drop", "log"] as const;
+
+export type ValidationPolicy = (typeof VALIDATION_POLICIES)[number];
+
+/**
+ * The policy from `VITE_PETSTORE_VALIDATION`, defaulting to "drop".
+ */
+export function getPetstoreValidationPolicy(): ValidationPolicy {
+	const configured = import.meta.env.VITE_PETSTORE_VALIDATION;
+	return VALIDATION_POLICIES.find((policy) => policy === configured) ?? "drop";
+}
+
+function warn(operation: PetstoreOperation, message: string, issues: unknown) {
+	console.warn(`[petstore] ${operation}: ${message}`, issues);
+}
+
+// Overrides the SDK's rejecting `responseValidator`. Transformers run after
+// validation and their result becomes the response data.
+type ValidationOptions = {
+	responseValidator: undefined;
+	responseTransformer: (data: unknown) => Promise<unknown>;
+};
+
+/**
+ * SDK options that validate a list of pets item by item under `policy`.
+ */
+export function validatePetList(
+	operation: PetstoreOperation,
+	policy = getPetstoreValidationPolicy(),
+): ValidationOptions {
+	return {
+		responseValidator: undefined,
+		responseTransformer: async (data) => {
+			if (!Array.isArray(data)) {
+				const issues: Array<z.core.$ZodIssue> = [
+					{
+						code: "invalid_type",
+						expected: "array",
+						path: [],
+						message: "Expected a list of pets",
+						input: data,
+					},
+				];
+				if (policy === "reject") {
+					throw new PetstoreValidationError(operation, issues);
+				}
+				warn(operation, "expected a list of pets", data);
+				return policy === "drop" ? [] : data;
+			}
+
+			const pets: Array<Pet> = [];
+			const invalid: Array<{ index: number; issues: unknown }> = [];
+
+			for (const [index, item] of data.entries()) {
+				const result = zPet.safeParse(item);
+				if (result.success) {
+					// Keep the item as received; the schema coerces ids to bigint
+					pets.push(item);
+					continue;
+				}
+				if (policy === "reject") {
+					throw new PetstoreValidationError(
+						operation,
+						result.error.issues.map((issue) => ({
+							...issue,
+							path: [index, ...issue.path],
+						})),
+					);
+				}
+				invalid.push({ index, issues: result.error.issues });
+			}
+
+			if (invalid.length === 0) return data;
+
+			warn(
+				operation,
+				policy === "drop"
+					? `dropped ${invalid.length} invalid pet(s)`
+					: `${invalid.length} pet(s) do not match the schema`,
+				invalid,
+			);
+			return policy === "drop" ? pets : data;
+		},
+	};
+}
+
+/**
+ * SDK options that validate a single pet under `policy`.
+ */
+export function validatePet(
+	operation: PetstoreOperation,
+	policy = getPetstoreValidationPolicy(),
+): ValidationOptions {
+	return {
+		responseValidator: undefined,
+		responseTransformer: async (data) => {
+			const result = zPet.safeParse(data);
+			if (result.success) return data;
+
+			if (policy === "reject") {
+				throw new PetstoreValidationError(operation, result.error.issues);
+			}
+			warn(
+				operation,
+				policy === "drop"
+					? "dropped an invalid pet"
+					: "pet does not match the schema",
+				result.error.issues,
+			);
+			if (policy === "drop") {
+				// Queries can't resolve to nothing, so a dropped pet is not found
+				throw new PetstoreApiError(operation, 404, {
+					type: "validation",
+					message: "The Petstore returned an invalid pet",
+				});
+			}
+			return data;
+		},
+	};
+}
@@ -57,6 +57,37 @@ import type {
 	UploadFileData,
 	UploadFileResponses,
 } from "./types.gen";
+import {
+	zAddPetData,
+	zCreateUserData,
+	zCreateUsersWithArrayInputData,
+	zCreateUsersWithListInputData,
+	zDeleteOrderData,
+	zDeletePetData,
+	zDeleteUserData,
+	zFindPetsByStatusData,
+	zFindPetsByStatusResponse,
+	zFindPetsByTagsData,
+	zFindPetsByTagsResponse,
+	zGetInventoryData,
+	zGetInventoryResponse,
+	zGetOrderByIdData,
+	zGetOrderByIdResponse,
+	zGetPetByIdData,
+	zGetPetByIdResponse,
+	zGetUserByNameData,
+	zGetUserByNameResponse,
+	zLoginUserData,
+	zLoginUserResponse,
+	zLogoutUserData,
+	zPlaceOrderData,
+	zPlaceOrderResponse,
+	zUpdatePetData,
+	zUpdatePetWithFormData,
+	zUpdateUserData,
+	zUploadFileData,
+	zUploadFileResponse,
+} from "./zod.gen";
 
 export type Options<
 	TData extends TDataShape = TDataShape,
@@ -88,6 +119,9 @@ export class Pet {
 			ThrowOnError
 		>({
 			...formDataBodySerializer,
+			requestValidator: async (data) => await zUploadFileData.parseAsync(data),
+			responseValidator: async (data) =>
+				await zUploadFileResponse.parseAsync(data),
 			security: [{ scheme: "bearer", type: "http" }],
 			url: "/pet/{petId}/uploadImage",
 			...options,
@@ -106,6 +140,7 @@ export class Pet {
 	) {
 		return (options.client ?? client).post<unknown, AddPetErrors, ThrowOnError>(
 			{
+				requestValidator: async (data) => await zAddPetData.parseAsync(data),
 				security: [{ scheme: "bearer", type: "http" }],
 				url: "/pet",
 				...options,
@@ -128,6 +163,7 @@ export class Pet {
 			UpdatePetErrors,
 			ThrowOnError
 		>({
+			requestValidator: async (data) => await zUpdatePetData.parseAsync(data),
 			security: [{ scheme: "bearer", type: "http" }],
 			url: "/pet",
 			...options,
@@ -151,6 +187,10 @@ export class Pet {
 			FindPetsByStatusErrors,
 			ThrowOnError
 		>({
+			requestValidator: async (data) =>
+				await zFindPetsByStatusData.parseAsync(data),
+			responseValidator: async (data) =>
+				await zFindPetsByStatusResponse.parseAsync(data),
 			security: [{ scheme: "bearer", type: "http" }],
 			url: "/pet/findByStatus",
 			...options,
@@ -172,6 +212,10 @@ export class Pet {
 			FindPetsByTagsErrors,
 			ThrowOnError
 		>({
+			requestValidator: async (data) =>
+				await zFindPetsByTagsData.parseAsync(data),
+			responseValidator: async (data) =>
+				await zFindPetsByTagsResponse.parseAsync(data),
 			security: [{ scheme: "bearer", type: "http" }],
 			url: "/pet/findByTags",
 			...options,
@@ -189,6 +233,7 @@ export class Pet {
 			DeletePetErrors,
 			ThrowOnError
 		>({
+			requestValidator: async (data) => await zDeletePetData.parseAsync(data),
 			security: [{ scheme: "bearer", type: "http" }],
 			url: "/pet/{petId}",
 			...options,
@@ -208,6 +253,9 @@ export class Pet {
 			GetPetByIdErrors,
 			ThrowOnError
 		>({
+			requestValidator: async (data) => await zGetPetByIdData.parseAsync(data),
+			responseValidator: async (data) =>
+				await zGetPetByIdResponse.parseAsync(data),
 			security: [{ name: "api_key", type: "apiKey" }],
 			url: "/pet/{petId}",
 			...options,
@@ -226,6 +274,8 @@ export class Pet {
 			ThrowOnError
 		>({
 			...urlSearchParamsBodySerializer,
+			requestValidator: async (data) =>
+				await zUpdatePetWithFormData.parseAsync(data),
 			security: [{ scheme: "bearer", type: "http" }],
 			url: "/pet/{petId}",
 			...options,
@@ -251,6 +301,10 @@ export class Store {
 			unknown,
 			ThrowOnError
 		>({
+			requestValidator: async (data) =>
+				await zGetInventoryData.parseAsync(data),
+			responseValidator: async (data) =>
+				await zGetInventoryResponse.parseAsync(data),
 			security: [{ name: "api_key", type: "apiKey" }],
 			url: "/store/inventory",
 			...options,
@@ -268,6 +322,9 @@ export class Store {
 			PlaceOrderErrors,
 			ThrowOnError
 		>({
+			requestValidator: async (data) => await zPlaceOrderData.parseAsync(data),
+			responseValidator: async (data) =>
+				await zPlaceOrderResponse.parseAsync(data),
 			url: "/store/order",
 			...options,
 			headers: {
@@ -289,7 +346,11 @@ export class Store {
 			unknown,
 			DeleteOrderErrors,
 			ThrowOnError
-		>({ url: "/store/order/{orderId}", ...options });
+		>({
+			requestValidator: async (data) => await zDeleteOrderData.parseAsync(data),
+			url: "/store/order/{orderId}",
+			...options,
+		});
 	}
 
 	/**
@@ -304,7 +365,14 @@ export class Store {
 			GetOrderByIdResponses,
 			GetOrderByIdErrors,
 			ThrowOnError
-		>({ url: "/store/order/{orderId}", ...options });
+		>({
+			requestValidator: async (data) =>
+				await zGetOrderByIdData.parseAsync(data),
+			responseValidator: async (data) =>
+				await zGetOrderByIdResponse.parseAsync(data),
+			url: "/store/order/{orderId}",
+			...options,
+		});
 	}
 }
 
@@ -320,6 +388,8 @@ export class User {
 			unknown,
 			ThrowOnError
 		>({
+			requestValidator: async (data) =>
+				await zCreateUsersWithListInputData.parseAsync(data),
 			url: "/user/createWithList",
 			...options,
 			headers: {
@@ -341,7 +411,11 @@ export class User {
 			unknown,
 			DeleteUserErrors,
 			ThrowOnError
-		>({ url: "/user/{username}", ...options });
+		>({
+			requestValidator: async (data) => await zDeleteUserData.parseAsync(data),
+			url: "/user/{username}",
+			...options,
+		});
 	}
 
 	/**
@@ -354,7 +428,14 @@ export class User {
 			GetUserByNameResponses,
 			GetUserByNameErrors,
 			ThrowOnError
-		>({ url: "/user/{username}", ...options });
+		>({
+			requestValidator: async (data) =>
+				await zGetUserByNameData.parseAsync(data),
+			responseValidator: async (data) =>
+				await zGetUserByNameResponse.parseAsync(data),
+			url: "/user/{username}",
+			...options,
+		});
 	}
 
 	/**
@@ -370,6 +451,7 @@ export class User {
 			UpdateUserErrors,
 			ThrowOnError
 		>({
+			requestValidator: async (data) => await zUpdateUserData.parseAsync(data),
 			url: "/user/{username}",
 			...options,
 			headers: {
@@ -389,7 +471,13 @@ export class User {
 			LoginUserResponses,
 			LoginUserErrors,
 			ThrowOnError
-		>({ url: "/user/login", ...options });
+		>({
+			requestValidator: async (data) => await zLoginUserData.parseAsync(data),
+			responseValidator: async (data) =>
+				await zLoginUserResponse.parseAsync(data),
+			url: "/user/login",
+			...options,
+		});
 	}
 
 	/**
@@ -402,7 +490,11 @@ export class User {
 			LogoutUserResponses,
 			unknown,
 			ThrowOnError
-		>({ url: "/user/logout", ...options });
+		>({
+			requestValidator: async (data) => await zLogoutUserData.parseAsync(data),
+			url: "/user/logout",
+			...options,
+		});
 	}
 
 	/**
@@ -416,6 +508,8 @@ export class User {
 			unknown,
 			ThrowOnError
 		>({
+			requestValidator: async (data) =>
+				await zCreateUsersWithArrayInputData.parseAsync(data),
 			url: "/user/createWithArray",
 			...options,
 			headers: {
@@ -438,6 +532,7 @@ export class User {
 			unknown,
 			ThrowOnError
 		>({
+			requestValidator: async (data) => await zCreateUserData.parseAsync(data),
 			url: "/user",
 			...options,
 			headers: {
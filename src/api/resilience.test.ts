@@ -0,0 +1,377 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createClient } from "./petstore/client";
+import {
+	backoffDelay,
+	CircuitOpenError,
+	createCircuitBreakerRegistry,
+	DEFAULT_RETRY,
+	DEFAULT_TIMEOUT_MS,
+	installResilience,
+	parseRetryAfter,
+	type ResilienceOptions,
+} from "./resilience";
+
+const BASE_URL = "https://petstore.test/v2";
+
+type FetchMock = (request: Request) => Promise<Response>;
+
+// Never answers; rejects like `fetch` once the request is aborted
+const hang: FetchMock = (request) =>
+	new Promise((_, reject) => {
+		request.signal.addEventListener("abort", () =>
+			reject(request.signal.reason),
+		);
+	});
+
+function setup(
+	fetchMock: FetchMock,
+	options: ResilienceOptions = {},
+	baseUrl = BASE_URL,
+) {
+	const fetch = vi.fn(fetchMock);
+	const breakers = options.breakers ?? createCircuitBreakerRegistry();
+	const client = createClient({
+		baseUrl,
+		fetch: fetch as typeof globalThis.fetch,
+	});
+	installResilience(client, { ...options, breakers });
+	return { client, fetch, breakers };
+}
+
+beforeEach(() => {
+	vi.useFakeTimers();
+	// Backoff always waits its full ceiling
+	vi.spyOn(Math, "random").mockReturnValue(1);
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+	vi.restoreAllMocks();
+});
+
+describe("parseRetryAfter", () => {
+	it("reads seconds", () => {
+		expect(parseRetryAfter("3")).toBe(3000);
+		expect(parseRetryAfter("0")).toBe(0);
+		expect(parseRetryAfter("-5")).toBe(0);
+	});
+
+	it("reads an HTTP date relative to now", () => {
+		const now = Date.parse("Mon, 19 Oct 2026 12:00:00 GMT");
+
+		expect(parseRetryAfter("Mon, 19 Oct 2026 12:00:04 GMT", now)).toBe(4000);
+		expect(parseRetryAfter("Mon, 19 Oct 2026 11:00:00 GMT", now)).toBe(0);
+	});
+
+	it("ignores missing and unreadable values", () => {
+		expect(parseRetryAfter(null)).toBeUndefined();
+		expect(parseRetryAfter("")).toBeUndefined();
+		expect(parseRetryAfter("soon")).toBeUndefined();
+	});
+});
+
+describe("backoffDelay", () => {
+	it("doubles the ceiling each attempt up to maxDelayMs", () => {
+		const retry = { ...DEFAULT_RETRY, baseDelayMs: 100, maxDelayMs: 500 };
+
+		expect(backoffDelay(0, retry)).toBe(100);
+		expect(backoffDelay(1, retry)).toBe(200);
+		expect(backoffDelay(2, retry)).toBe(400);
+		expect(backoffDelay(3, retry)).toBe(500);
+	});
+
+	it("picks a random delay below the ceiling", () => {
+		vi.mocked(Math.random).mockReturnValue(0.25);
+
+		expect(backoffDelay(2, { ...DEFAULT_RETRY, baseDelayMs: 100 })).toBe(100);
+	});
+});
+
+describe("retries", () => {
+	it("retries idempotent requests with exponential backoff", async () => {
+		const statuses = [503, 502, 200];
+		const { client, fetch } = setup(async () =>
+			Response.json({}, { status: statuses.shift() }),
+		);
+
+		const result = client.get({ url: "/pet/1" });
+
+		await vi.advanceTimersByTimeAsync(0);
+		expect(fetch).toHaveBeenCalledTimes(1);
+		await vi.advanceTimersByTimeAsync(299);
+		expect(fetch).toHaveBeenCalledTimes(1);
+		await vi.advanceTimersByTimeAsync(1);
+		expect(fetch).toHaveBeenCalledTimes(2);
+		await vi.advanceTimersByTimeAsync(600);
+		expect(fetch).toHaveBeenCalledTimes(3);
+		expect((await result).response.status).toBe(200);
+	});
+
+	it("gives up after the configured retries", async () => {
+		const { client, fetch } = setup(
+			async () => new Response(null, { status: 500 }),
+			{ retry: { retries: 1 } },
+		);
+
+		const result = client.get({ url: "/pet/1" });
+		await vi.runAllTimersAsync();
+
+		expect(fetch).toHaveBeenCalledTimes(2);
+		expect((await result).response.status).toBe(500);
+	});
+
+	it("waits as long as Retry-After asks, up to maxDelayMs", async () => {
+		const responses = [
+			new Response(null, { status: 429, headers: { "Retry-After": "2" } }),
+			new Response(null, { status: 429, headers: { "Retry-After": "60" } }),
+			new Response(null, { status: 200 }),
+		];
+		const { client, fetch } = setup(async () => responses.shift() as Response);
+
+		const result = client.get({ url: "/store/inventory" });
+
+		await vi.advanceTimersByTimeAsync(1999);
+		expect(fetch).toHaveBeenCalledTimes(1);
+		await vi.advanceTimersByTimeAsync(1);
+		expect(fetch).toHaveBeenCalledTimes(2);
+		await vi.advanceTimersByTimeAsync(DEFAULT_RETRY.maxDelayMs);
+		expect(fetch).toHaveBeenCalledTimes(3);
+		expect((await result).response.status).toBe(200);
+	});
+
+	it("retries requests that failed at the network level", async () => {
+		let calls = 0;
+		const { client, fetch } = setup(async () => {
+			calls += 1;
+			if (calls === 1) throw new TypeError("fetch failed");
+			return Response.json({ id: 1 });
+		});
+
+		const result = client.get({ url: "/pet/1" });
+		await vi.runAllTimersAsync();
+
+		expect(fetch).toHaveBeenCalledTimes(2);
+		expect((await result).data).toEqual({ id: 1 });
+	});
+
+	it("never sends a POST twice", async () => {
+		const { client, fetch } = setup(
+			async () => new Response(null, { status: 503 }),
+		);
+
+		const result = client.post({ url: "/store/order", body: {} });
+		await vi.runAllTimersAsync();
+
+		expect(fetch).toHaveBeenCalledTimes(1);
+		expect((await result).response.status).toBe(503);
+	});
+
+	it("leaves 4xx responses alone", async () => {
+		const { client, fetch } = setup(
+			async () => new Response(null, { status: 404 }),
+		);
+
+		await client.get({ url: "/pet/1" });
+
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+
+	it("stops waiting to retry when the caller aborts", async () => {
+		const { client, fetch } = setup(
+			async () => new Response(null, { status: 503 }),
+		);
+		const controller = new AbortController();
+
+		const result = client.get({ url: "/pet/1", signal: controller.signal });
+		await vi.advanceTimersByTimeAsync(100);
+		controller.abort();
+
+		expect((await result).error).toMatchObject({ name: "AbortError" });
+		await vi.runAllTimersAsync();
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe("timeouts", () => {
+	it("aborts an attempt that takes longer than timeoutMs", async () => {
+		const { client, breakers } = setup(hang, {
+			retry: false,
+			timeoutMs: 1000,
+		});
+
+		const result = client.get({ url: "/pet/1" });
+		await vi.advanceTimersByTimeAsync(1000);
+
+		expect((await result).error).toMatchObject({ name: "TimeoutError" });
+		expect(breakers.getSnapshot()).toEqual([
+			expect.objectContaining({ state: "closed", failures: 1 }),
+		]);
+	});
+
+	it("times out each attempt separately", async () => {
+		const { client, fetch } = setup(hang, {
+			retry: { retries: 1 },
+			timeoutMs: 1000,
+		});
+
+		const result = client.get({ url: "/pet/1" });
+		await vi.advanceTimersByTimeAsync(1000 + DEFAULT_RETRY.baseDelayMs);
+		expect(fetch).toHaveBeenCalledTimes(2);
+		await vi.advanceTimersByTimeAsync(1000);
+
+		expect((await result).error).toMatchObject({ name: "TimeoutError" });
+	});
+});
+
+describe("circuit breaker", () => {
+	const options: ResilienceOptions = {
+		retry: false,
+		breaker: { failureThreshold: 2, openMs: 1000 },
+	};
+
+	it("opens after consecutive failures and rejects without calling the host", async () => {
+		const { client, fetch, breakers } = setup(
+			async () => new Response(null, { status: 500 }),
+			options,
+		);
+
+		await client.get({ url: "/pet/1" });
+		await client.get({ url: "/pet/1" });
+
+		await expect(client.get({ url: "/pet/1" })).rejects.toBeInstanceOf(
+			CircuitOpenError,
+		);
+		expect(fetch).toHaveBeenCalledTimes(2);
+		expect(breakers.getSnapshot()).toEqual([
+			expect.objectContaining({
+				host: "petstore.test",
+				state: "open",
+				failures: 2,
+				lastError: "HTTP 500",
+			}),
+		]);
+	});
+
+	it("lets one probe through after openMs and closes when it succeeds", async () => {
+		const statuses = [500, 500, 200];
+		const { client, breakers } = setup(
+			async () => new Response(null, { status: statuses.shift() }),
+			options,
+		);
+		await client.get({ url: "/pet/1" });
+		await client.get({ url: "/pet/1" });
+
+		vi.advanceTimersByTime(1000);
+		const probe = await client.get({ url: "/pet/1" });
+
+		expect(probe.response.status).toBe(200);
+		expect(breakers.getSnapshot()[0]).toMatchObject({
+			state: "closed",
+			failures: 0,
+		});
+	});
+
+	it("reopens straight away when the probe fails", async () => {
+		const { client, breakers } = setup(
+			async () => new Response(null, { status: 503 }),
+			options,
+		);
+		await client.get({ url: "/pet/1" });
+		await client.get({ url: "/pet/1" });
+
+		vi.advanceTimersByTime(1000);
+		await client.get({ url: "/pet/1" });
+
+		expect(breakers.getSnapshot()[0]).toMatchObject({
+			state: "open",
+			retryAt: Date.now() + 1000,
+		});
+	});
+
+	it("resets the failure count on a success", async () => {
+		const statuses = [500, 200, 500];
+		const { client, breakers } = setup(
+			async () => new Response(null, { status: statuses.shift() }),
+			options,
+		);
+
+		for (let i = 0; i < 3; i++) await client.get({ url: "/pet/1" });
+
+		expect(breakers.getSnapshot()[0]).toMatchObject({
+			state: "closed",
+			failures: 1,
+		});
+	});
+
+	it("keeps a breaker per host", async () => {
+		const breakers = createCircuitBreakerRegistry();
+		const failing = setup(async () => new Response(null, { status: 500 }), {
+			...options,
+			breakers,
+		});
+		const healthy = setup(
+			async () => new Response(null, { status: 200 }),
+			{ ...options, breakers },
+			"https://other.test/v2",
+		);
+		await failing.client.get({ url: "/pet/1" });
+		await failing.client.get({ url: "/pet/1" });
+
+		const result = await healthy.client.get({ url: "/pet/1" });
+
+		expect(result.response.status).toBe(200);
+		expect(breakers.getSnapshot()).toEqual([
+			expect.objectContaining({ host: "petstore.test", state: "open" }),
+		]);
+	});
+
+	it("doesn't count requests the caller aborted as failures", async () => {
+		const { client, breakers } = setup(hang, options);
+
+		for (let i = 0; i < 3; i++) {
+			const controller = new AbortController();
+			const result = client.get({ url: "/pet/1", signal: controller.signal });
+			await vi.advanceTimersByTimeAsync(100);
+			controller.abort();
+			expect((await result).error).toMatchObject({ name: "AbortError" });
+		}
+
+		// Nothing was recorded against the host
+		expect(breakers.getSnapshot()).toEqual([]);
+	});
+
+	it("lets the next request probe when the probe is aborted", async () => {
+		let fail = true;
+		const { client, breakers } = setup(async (request) => {
+			if (fail) return new Response(null, { status: 500 });
+			return hang(request);
+		}, options);
+		await client.get({ url: "/pet/1" });
+		await client.get({ url: "/pet/1" });
+
+		vi.advanceTimersByTime(1000);
+		fail = false;
+		const controller = new AbortController();
+		const probe = client.get({ url: "/pet/1", signal: controller.signal });
+		await vi.advanceTimersByTimeAsync(0);
+		expect(breakers.getSnapshot()[0]).toMatchObject({ state: "half-open" });
+		await expect(client.get({ url: "/pet/1" })).rejects.toBeInstanceOf(
+			CircuitOpenError,
+		);
+
+		controller.abort();
+		await probe;
+
+		expect(breakers.getSnapshot()[0]).toMatchObject({
+			state: "open",
+			failures: 2,
+		});
+		// Still past retryAt, so another probe goes out
+		const next = client.get({ url: "/pet/1" });
+		await vi.advanceTimersByTimeAsync(0);
+		expect(breakers.getSnapshot()[0]).toMatchObject({ state: "half-open" });
+		// Let it time out so nothing is left pending
+		await vi.advanceTimersByTimeAsync(DEFAULT_TIMEOUT_MS);
+		expect((await next).error).toMatchObject({ name: "TimeoutError" });
+	});
+});
@@ -0,0 +1,394 @@
+// Retries, timeouts and a per-host circuit breaker for hey-api clients.
+//
+// `installResilience(client)` wires three pieces into a client:
+// - a request interceptor that rejects calls while a host's breaker is open
+// - a `fetch` wrapper that enforces the timeout and retries idempotent
+//   requests with exponential backoff. Interceptors can't re-send a request
+//   that failed at the network level, so retrying lives here.
+// - response and error interceptors that feed each outcome to the breaker
+import type { Client } from "./petstore/client";
+
+export type RetryOptions = {
+	// Attempts after the first one
+	retries: number;
+	baseDelayMs: number;
+	maxDelayMs: number;
+	// Only idempotent methods are safe to send twice
+	methods: Array<string>;
+	statuses: Array<number>;
+};
+
+export type CircuitBreakerOptions = {
+	// Consecutive failures that open the breaker
+	failureThreshold: number;
+	// How long to reject calls before letting a probe through
+	openMs: number;
+};
+
+export type ResilienceOptions = {
+	retry?: Partial<RetryOptions> | false;
+	breaker?: Partial<CircuitBreakerOptions> | false;
+	// Per attempt, so a retried call can take longer overall
+	timeoutMs?: number;
+	// Defaults to the process-wide `circuitBreakers`
+	breakers?: CircuitBreakerRegistry;
+};
+
+export const DEFAULT_RETRY: RetryOptions = {
+	retries: 2,
+	baseDelayMs: 300,
+	maxDelayMs: 5_000,
+	methods: ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"],
+	statuses: [408, 429, 500, 502, 503, 504],
+};
+
+export const DEFAULT_BREAKER: CircuitBreakerOptions = {
+	failureThreshold: 5,
+	openMs: 30_000,
+};
+
+export const DEFAULT_TIMEOUT_MS = 10_000;
+
+// ============================================================================
+// Circuit breaker
+// ============================================================================
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type CircuitSnapshot = {
+	host: string;
+	state: CircuitState;
+	failures: number;
+	// When an open breaker lets its next probe through
+	retryAt?: number;
+	lastError?: string;
+};
+
+export class CircuitOpenError extends Error {
+	readonly host: string;
+	readonly retryAt: number;
+
+	constructor(host: string, retryAt: number) {
+		const seconds = Math.max(0, Math.ceil((retryAt - Date.now()) / 1000));
+		super(
+			`${host} is failing; requests are paused for another ${seconds}s (circuit open)`,
+		);
+		this.name = "CircuitOpenError";
+		this.host = host;
+		this.retryAt = retryAt;
+	}
+}
+
+/**
+ * Breaker state for every host a client has called. Listeners are notified
+ * on each change, which is how the devtools panel stays current.
+ */
+export function createCircuitBreakerRegistry() {
+	const circuits = new Map<string, CircuitSnapshot>();
+	const listeners = new Set<() => void>();
+	let snapshot: Array<CircuitSnapshot> = [];
+
+	const notify = () => {
+		snapshot = [...circuits.values()].map((circuit) => ({ ...circuit }));
+		for (const listener of listeners) listener();
+	};
+
+	const circuitFor = (host: string) => {
+		let circuit = circuits.get(host);
+		if (!circuit) {
+			circuit = { host, state: "closed", failures: 0 };
+			circuits.set(host, circuit);
+		}
+		return circuit;
+	};
+
+	return {
+		/**
+		 * Throws `CircuitOpenError` if `host` is not accepting requests. Once
+		 * `openMs` has passed, a single probe is let through (half-open) and
+		 * everything else waits for its outcome.
+		 */
+		acquire(host: string) {
+			const circuit = circuitFor(host);
+			if (circuit.state === "closed") return;
+
+			const retryAt = circuit.retryAt ?? 0;
+			if (circuit.state === "open" && Date.now() >= retryAt) {
+				circuit.state = "half-open";
+				notify();
+				return;
+			}
+			throw new CircuitOpenError(host, retryAt);
+		},
+
+		recordSuccess(host: string) {
+			const circuit = circuitFor(host);
+			if (circuit.state === "closed" && circuit.failures === 0) return;
+
+			circuit.state = "closed";
+			circuit.failures = 0;
+			circuit.retryAt = undefined;
+			notify();
+		},
+
+		recordFailure(
+			host: string,
+			reason: string,
+			options: CircuitBreakerOptions,
+		) {
+			const circuit = circuitFor(host);
+			circuit.failures += 1;
+			circuit.lastError = reason;
+
+			// A failed probe reopens straight away
+			if (
+				circuit.state === "half-open" ||
+				circuit.failures >= options.failureThreshold
+			) {
+				circuit.state = "open";
+				circuit.retryAt = Date.now() + options.openMs;
+			}
+			notify();
+		},
+
+		/**
+		 * A request its caller aborted says nothing about the host. If it was
+		 * the probe, the next request probes instead.
+		 */
+		recordAbort(host: string) {
+			const circuit = circuitFor(host);
+			if (circuit.state !== "half-open") return;
+
+			circuit.state = "open";
+			notify();
+		},
+
+		reset(host?: string) {
+			if (host) circuits.delete(host);
+			else circuits.clear();
+			notify();
+		},
+
+		getSnapshot: () => snapshot,
+
+		subscribe(listener: () => void) {
+			listeners.add(listener);
+			return () => {
+				listeners.delete(listener);
+			};
+		},
+	};
+}
+
+export type CircuitBreakerRegistry = ReturnType<
+	typeof createCircuitBreakerRegistry
+>;
+
+// Shared by every client in this process; a failing host is failing for all
+export const circuitBreakers = createCircuitBreakerRegistry();
+
+// ============================================================================
+// Retry
+// ============================================================================
+
+/**
+ * Milliseconds to wait from a `Retry-After` header (seconds or HTTP date).
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()) {
+	if (!value) return undefined;
+
+	const seconds = Number(value);
+	if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * "Full jitter" backoff: a random delay up to `baseDelayMs * 2^attempt`.
+ */
+export function backoffDelay(attempt: number, retry: RetryOptions) {
+	const ceiling = Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** attempt);
+	return Math.random() * ceiling;
+}
+
+function sleep(ms: number, signal: AbortSignal) {
+	return new Promise<void>((resolve, reject) => {
+		if (signal.aborted) {
+			reject(signal.reason);
+			return;
+		}
+		const timer = setTimeout(() => {
+			signal.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal.reason);
+		};
+		signal.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+/**
+ * One attempt, aborted if no response arrives within `timeoutMs` or when
+ * the caller aborts.
+ */
+async function fetchWithTimeout(
+	fetchFn: typeof fetch,
+	request: Request,
+	timeoutMs: number,
+) {
+	// The signal below wouldn't see an abort that already happened
+	request.signal.throwIfAborted();
+
+	const controller = new AbortController();
+	const onAbort = () => controller.abort(request.signal.reason);
+	request.signal.addEventListener("abort", onAbort, { once: true });
+
+	const timer = setTimeout(
+		() =>
+			controller.abort(
+				new DOMException(
+					`${request.method} ${request.url} timed out after ${timeoutMs}ms`,
+					"TimeoutError",
+				),
+			),
+		timeoutMs,
+	);
+
+	try {
+		return await fetchFn(new Request(request, { signal: controller.signal }));
+	} finally {
+		clearTimeout(timer);
+		request.signal.removeEventListener("abort", onAbort);
+	}
+}
+
+function createResilientFetch(
+	fetchFn: typeof fetch,
+	retry: RetryOptions | undefined,
+	timeoutMs: number,
+): typeof fetch {
+	return async (input, init) => {
+		const request = new Request(input, init);
+		const policy = retry?.methods.includes(request.method) ? retry : undefined;
+
+		for (let attempt = 0; ; attempt++) {
+			const isLast = !policy || attempt >= policy.retries;
+			// Bodies can only be read once, so every retry sends a copy
+			const copy = isLast ? request : request.clone();
+
+			let response: Response;
+			try {
+				response = await fetchWithTimeout(fetchFn, copy, timeoutMs);
+			} catch (error) {
+				// Also stop if the caller gave up
+				if (isLast || request.signal.aborted) throw error;
+				await sleep(backoffDelay(attempt, policy), request.signal);
+				continue;
+			}
+
+			if (isLast || !policy.statuses.includes(response.status)) {
+				return response;
+			}
+
+			const delay =
+				parseRetryAfter(response.headers.get("Retry-After")) ??
+				backoffDelay(attempt, policy);
+			// Free the connection before waiting
+			await response.body?.cancel();
+			await sleep(Math.min(delay, policy.maxDelayMs), request.signal);
+		}
+	};
+}
+
+// ============================================================================
+// Installation
+// ============================================================================
+
+const hostOf = (request: Request) => new URL(request.url).host;
+
+/**
+ * Add timeouts, retries and the circuit breaker to `client`. Returns a
+ * function that removes them again.
+ */
+export function installResilience(
+	client: Client,
+	options: ResilienceOptions = {},
+) {
+	const retry =
+		options.retry === false
+			? undefined
+			: { ...DEFAULT_RETRY, ...options.retry };
+	const breaker =
+		options.breaker === false
+			? undefined
+			: { ...DEFAULT_BREAKER, ...options.breaker };
+	const breakers = options.breakers ?? circuitBreakers;
+
+	const originalFetch = client.getConfig().fetch;
+	client.setConfig({
+		fetch: createResilientFetch(
+			originalFetch ?? ((input, init) => globalThis.fetch(input, init)),
+			retry,
+			options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+		),
+	});
+
+	if (!breaker) {
+		return () => client.setConfig({ fetch: originalFetch });
+	}
+
+	const onRequest = (request: Request) => {
+		breakers.acquire(hostOf(request));
+		return request;
+	};
+
+	// 4xx means the host is up and answering, so only 429 and 5xx count
+	const onResponse = (response: Response, request: Request) => {
+		if (response.status === 429 || response.status >= 500) {
+			breakers.recordFailure(
+				hostOf(request),
+				`HTTP ${response.status}`,
+				breaker,
+			);
+		} else {
+			breakers.recordSuccess(hostOf(request));
+		}
+		return response;
+	};
+
+	// Called without a response when the request itself failed. Timeouts
+	// abort an internal signal, so `request.signal` only reports the caller
+	// giving up, e.g. TanStack Query cancelling a query.
+	const onError = (
+		error: unknown,
+		response: Response | undefined,
+		request: Request,
+	) => {
+		if (!response) {
+			if (request.signal.aborted) {
+				breakers.recordAbort(hostOf(request));
+			} else {
+				breakers.recordFailure(
+					hostOf(request),
+					error instanceof Error ? error.message : "Network error",
+					breaker,
+				);
+			}
+		}
+		return error;
+	};
+
+	client.interceptors.request.use(onRequest);
+	client.interceptors.response.use(onResponse);
+	client.interceptors.error.use(onError);
+
+	return () => {
+		client.setConfig({ fetch: originalFetch });
+		client.interceptors.request.eject(onRequest);
+		client.interceptors.response.eject(onResponse);
+		client.interceptors.error.eject(onError);
+	};
+}
@@ -0,0 +1,160 @@
+// TanStack Query hooks for the `/demo/api/tq-todos` REST resource
+import {
+	queryOptions,
+	useMutation,
+	useQuery,
+	useQueryClient,
+} from "@tanstack/react-query";
+import {
+	type CreateTqTodo,
+	type PatchTqTodo,
+	type ReplaceTqTodo,
+	type TqTodo,
+	tqTodoEtag,
+} from "@/lib/tq-todos";
+import type { ProblemDetails } from "@/server/problem";
+
+const BASE_PATH = "/demo/api/tq-todos";
+
+export const tqTodoKeys = {
+	all: ["tq-todos"] as const,
+	list: () => [...tqTodoKeys.all, "list"] as const,
+	detail: (id: number) => [...tqTodoKeys.all, "detail", id] as const,
+};
+
+/**
+ * A non-2xx response, carrying the server's problem+json body.
+ */
+export class TqTodosApiError extends Error {
+	constructor(readonly problem: ProblemDetails) {
+		super(problem.detail ?? problem.title);
+		this.name = "TqTodosApiError";
+	}
+
+	get status() {
+		return this.problem.status;
+	}
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+	const response = await fetch(`${BASE_PATH}${path}`, {
+		...init,
+		headers: { "Content-Type": "application/json", ...init?.headers },
+	});
+
+	if (!response.ok) {
+		const problem = await response
+			.json()
+			.catch(() => ({ title: response.statusText }));
+		throw new TqTodosApiError({ status: response.status, ...problem });
+	}
+
+	return (response.status === 204 ? undefined : await response.json()) as T;
+}
+
+export const tqTodosQueryOptions = queryOptions({
+	queryKey: tqTodoKeys.list(),
+	queryFn: () => request<Array<TqTodo>>(""),
+});
+
+export const tqTodoQueryOptions = (id: number) =>
+	queryOptions({
+		queryKey: tqTodoKeys.detail(id),
+		queryFn: () => request<TqTodo>(`/${id}`),
+	});
+
+export function useTqTodos() {
+	return useQuery(tqTodosQueryOptions);
+}
+
+export function useTqTodo(id: number, options?: { enabled?: boolean }) {
+	return useQuery({ ...tqTodoQueryOptions(id), ...options });
+}
+
+/**
+ * Shared cache handling for writes: `onSuccess` stores the server's copy,
+ * conflicts refetch, and the list is refetched either way.
+ */
+function useTqTodoMutation<TVariables, TResult>(
+	mutationFn: (variables: TVariables) => Promise<TResult>,
+	onSuccess?: (result: TResult, variables: TVariables) => void,
+) {
+	const queryClient = useQueryClient();
+
+	return useMutation<TResult, TqTodosApiError, TVariables>({
+		mutationFn,
+		onSuccess,
+		onError: (error) => {
+			// Our copy is stale or gone; refresh every cached todo
+			if (error.status === 412 || error.status === 404) {
+				queryClient.invalidateQueries({ queryKey: tqTodoKeys.all });
+			}
+		},
+		onSettled: () =>
+			queryClient.invalidateQueries({ queryKey: tqTodoKeys.list() }),
+	});
+}
+
+export function useCreateTqTodo() {
+	const queryClient = useQueryClient();
+
+	return useTqTodoMutation(
+		(input: CreateTqTodo) =>
+			request<TqTodo>("", { method: "POST", body: JSON.stringify(input) }),
+		(todo) => queryClient.setQueryData(tqTodoKeys.detail(todo.id), todo),
+	);
+}
+
+type TodoChange<T> = {
+	// The revision being changed; its ETag is sent as `If-Match`
+	todo: TqTodo;
+	changes: T;
+};
+
+/**
+ * PUT: replace every writable field.
+ */
+export function useReplaceTqTodo() {
+	const queryClient = useQueryClient();
+
+	return useTqTodoMutation(
+		({ todo, changes }: TodoChange<ReplaceTqTodo>) =>
+			request<TqTodo>(`/${todo.id}`, {
+				method: "PUT",
+				headers: { "If-Match": tqTodoEtag(todo) },
+				body: JSON.stringify(changes),
+			}),
+		(todo) => queryClient.setQueryData(tqTodoKeys.detail(todo.id), todo),
+	);
+}
+
+/**
+ * PATCH: change only the fields given.
+ */
+export function usePatchTqTodo() {
+	const queryClient = useQueryClient();
+
+	return useTqTodoMutation(
+		({ todo, changes }: TodoChange<PatchTqTodo>) =>
+			request<TqTodo>(`/${todo.id}`, {
+				method: "PATCH",
+				headers: { "If-Match": tqTodoEtag(todo) },
+				body: JSON.stringify(changes),
+			}),
+		(todo) => queryClient.setQueryData(tqTodoKeys.detail(todo.id), todo),
+	);
+}
+
+export function useDeleteTqTodo() {
+	const queryClient = useQueryClient();
+
+	return useTqTodoMutation(
+		({ todo }: { todo: TqTodo }) =>
+			request<void>(`/${todo.id}`, {
+				method: "DELETE",
+				headers: { "If-Match": tqTodoEtag(todo) },
+			}),
+		(_result, { todo }) =>
+			queryClient.removeQueries({ queryKey: tqTodoKeys.detail(todo.id) }),
+	);
+}
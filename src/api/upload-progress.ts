@@ -0,0 +1,91 @@
+// Upload progress for hey-api clients.
+//
+// `fetch` can't report how much of a request body has been sent, so
+// `createProgressFetch` sends the request with XMLHttpRequest instead. Pass it
+// as the `fetch` option of a single SDK call; interceptors still run, but the
+// client's own `fetch` (timeouts and retries, see `installResilience`) does
+// not. Browser only.
+
+export type UploadProgress = {
+	loaded: number;
+	// Undefined when the browser can't compute the body size
+	total: number | undefined;
+};
+
+// Statuses whose responses must not have a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+function parseHeaders(raw: string) {
+	const headers = new Headers();
+	for (const line of raw.trim().split(/[\r\n]+/)) {
+		const separator = line.indexOf(":");
+		if (separator > 0) {
+			headers.append(
+				line.slice(0, separator).trim(),
+				line.slice(separator + 1).trim(),
+			);
+		}
+	}
+	return headers;
+}
+
+/**
+ * A `fetch` that calls `onProgress` as the request body is uploaded.
+ */
+export function createProgressFetch(
+	onProgress: (progress: UploadProgress) => void,
+): typeof fetch {
+	return async (input, init) => {
+		const request = new Request(input, init);
+		// Keeps the multipart boundary, which is also in the Content-Type header
+		const body =
+			request.method === "GET" || request.method === "HEAD"
+				? null
+				: await request.blob();
+
+		return new Promise<Response>((resolve, reject) => {
+			if (request.signal.aborted) {
+				reject(request.signal.reason);
+				return;
+			}
+
+			const xhr = new XMLHttpRequest();
+			xhr.open(request.method, request.url);
+			xhr.responseType = "blob";
+			xhr.withCredentials = request.credentials === "include";
+			request.headers.forEach((value, key) => {
+				xhr.setRequestHeader(key, value);
+			});
+
+			xhr.upload.onprogress = (event) =>
+				onProgress({
+					loaded: event.loaded,
+					total: event.lengthComputable ? event.total : undefined,
+				});
+			xhr.onload = () =>
+				resolve(
+					new Response(
+						NULL_BODY_STATUSES.includes(xhr.status) ? null : xhr.response,
+						{
+							status: xhr.status,
+							statusText: xhr.statusText,
+							headers: parseHeaders(xhr.getAllResponseHeaders()),
+						},
+					),
+				);
+			xhr.onerror = () =>
+				reject(
+					new TypeError(`${request.method} ${request.url} failed to upload`),
+				);
+			xhr.onabort = () =>
+				reject(
+					request.signal.reason ?? new DOMException("Aborted", "AbortError"),
+				);
+
+			request.signal.addEventListener("abort", () => xhr.abort(), {
+				once: true,
+			});
+			xhr.send(body);
+		});
+	};
+}
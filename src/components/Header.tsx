@@ -1,10 +1,13 @@
 import { Link } from "@tanstack/react-router";
+import { useServerFn } from "@tanstack/react-start";
 import {
+	Braces,
 	ChevronDown,
 	ChevronRight,
 	ClipboardType,
 	Database,
 	Home,
+	LogOut,
 	Menu,
 	Network,
 	SquareFunction,
@@ -13,6 +16,8 @@ import {
 	X,
 } from "lucide-react";
 import { useState } from "react";
+import { useAuth } from "@/contexts/auth";
+import { logoutFn } from "@/server/auth";
 
 export default function Header() {
 	const [isOpen, setIsOpen] = useState(false);
@@ -40,6 +45,7 @@ export default function Header() {
 						/>
 					</Link>
 				</h1>
+				<SignOutButton />
 			</header>
 
 			<aside
@@ -251,9 +257,55 @@ export default function Header() {
 						<Store size={20} />
 						<span className="font-medium">Petstore SSR</span>
 					</Link>
+					<Link
+						to="/demo/api-explorer"
+						onClick={() => setIsOpen(false)}
+						className="flex items-center gap-3 p-3 rounded-lg hover:bg-gray-800 transition-colors mb-2"
+						activeProps={{
+							className:
+								"flex items-center gap-3 p-3 rounded-lg bg-cyan-600 hover:bg-cyan-700 transition-colors mb-2",
+						}}
+					>
+						<Braces size={20} />
+						<span className="font-medium">API Explorer</span>
+					</Link>
 					{/* Demo Links End */}
 				</nav>
 			</aside>
 		</>
 	);
 }
+
+function SignOutButton() {
+	const { user, refetch } = useAuth();
+	const logout = useServerFn(logoutFn);
+	const [isPending, setIsPending] = useState(false);
+
+	if (!user) return null;
+
+	const signOut = async () => {
+		setIsPending(true);
+		try {
+			// logoutFn redirects home
+			await logout();
+		} finally {
+			setIsPending(false);
+			// The signed-out user clears the account's cache (see AuthProvider)
+			refetch();
+		}
+	};
+
+	return (
+		<button
+			onClick={signOut}
+			disabled={isPending}
+			className="ml-auto flex items-center gap-2 p-2 hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50"
+			type="button"
+		>
+			<LogOut size={20} />
+			<span className="font-medium">
+				{isPending ? "Signing out..." : "Sign out"}
+			</span>
+		</button>
+	);
+}
@@ -0,0 +1,64 @@
+import { onlineManager, useMutationState } from "@tanstack/react-query";
+import { CloudOff, RefreshCw, X } from "lucide-react";
+import { useSyncExternalStore } from "react";
+import { dismissConflict, usePetstoreConflicts } from "../api/petstore-offline";
+
+function useOnline() {
+	return useSyncExternalStore(
+		(listener) => onlineManager.subscribe(listener),
+		() => onlineManager.isOnline(),
+		() => true,
+	);
+}
+
+/**
+ * Shows changes waiting for the network, and queued Petstore changes that
+ * were dropped because the server had moved on.
+ */
+export function OfflineQueueIndicator() {
+	const online = useOnline();
+	const queued = useMutationState({
+		filters: { predicate: (mutation) => mutation.state.isPaused },
+	}).length;
+	const conflicts = usePetstoreConflicts();
+
+	const changes = `${queued} change${queued === 1 ? "" : "s"}`;
+
+	return (
+		<div className="fixed bottom-4 left-4 z-50 max-w-sm space-y-2">
+			{(!online || queued > 0) && (
+				<output className="flex items-center gap-2 rounded-lg bg-gray-900 text-white px-4 py-2 text-sm shadow-lg">
+					{online ? (
+						<RefreshCw size={16} className="animate-spin" />
+					) : (
+						<CloudOff size={16} />
+					)}
+					{online
+						? `Sending ${changes} made while offline...`
+						: queued > 0
+							? `Offline: ${changes} will be sent when you're back online`
+							: "Offline: changes will be sent when you're back online"}
+				</output>
+			)}
+			{conflicts.map((conflict) => (
+				<div
+					key={conflict.id}
+					role="alert"
+					className="flex items-start gap-2 rounded-lg border border-red-200 bg-red-50 text-red-800 px-4 py-2 text-sm shadow-lg"
+				>
+					<span className="flex-1">
+						{conflict.message} Your change was not sent.
+					</span>
+					<button
+						type="button"
+						aria-label="Dismiss"
+						onClick={() => dismissConflict(conflict.id)}
+						className="text-red-500 hover:text-red-700"
+					>
+						<X size={16} />
+					</button>
+				</div>
+			))}
+		</div>
+	);
+}
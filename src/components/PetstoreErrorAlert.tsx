@@ -0,0 +1,81 @@
+import { useQueryErrorResetBoundary } from "@tanstack/react-query";
+import type { ErrorComponentProps } from "@tanstack/react-router";
+import {
+	isPetstoreApiError,
+	type PetstoreErrorKind,
+} from "../api/petstore-errors";
+import { Button } from "./ui/button";
+
+// Headings for failures without a usable HTTP status
+const KIND_TITLES: Record<PetstoreErrorKind, string | undefined> = {
+	http: undefined,
+	network: "Network error",
+	validation: "Invalid response",
+};
+
+// Hints for statuses every Petstore operation can return
+const STATUS_HINTS: Record<number, string> = {
+	0: "The Petstore could not be reached. Check your connection.",
+	401: "The Petstore rejected the request. Check the API token.",
+	403: "Your API token is not allowed to do this.",
+	404: "The Petstore has no such record.",
+	405: "The Petstore rejected the submitted data.",
+};
+
+/**
+ * Shows a failed Petstore call: the HTTP status, the operation and the
+ * `ApiResponse` message. Other errors fall back to their message.
+ */
+export function PetstoreErrorAlert({
+	error,
+	onRetry,
+}: {
+	error: unknown;
+	onRetry?: () => void;
+}) {
+	const petstoreError = isPetstoreApiError(error) ? error : undefined;
+	const message =
+		petstoreError?.body?.message ??
+		(petstoreError && STATUS_HINTS[petstoreError.status]) ??
+		(error instanceof Error ? error.message : "Something went wrong.");
+
+	return (
+		<div
+			role="alert"
+			className="border border-red-200 rounded-lg p-4 bg-red-50 text-red-800 space-y-1"
+		>
+			<p className="font-semibold">
+				{petstoreError
+					? `${KIND_TITLES[petstoreError.kind] ?? petstoreError.status} from ${petstoreError.operation}`
+					: "Request failed"}
+			</p>
+			<p className="text-sm">{message}</p>
+			{petstoreError?.body?.type && (
+				<p className="text-xs text-red-600">Type: {petstoreError.body.type}</p>
+			)}
+			{onRetry && (
+				<Button size="sm" variant="outline" onClick={onRetry}>
+					Try again
+				</Button>
+			)}
+		</div>
+	);
+}
+
+/**
+ * `errorComponent` for routes and `CatchBoundary`s around Petstore suspense
+ * queries. Retrying also resets the failed queries so they refetch.
+ */
+export function PetstoreErrorComponent({ error, reset }: ErrorComponentProps) {
+	const queryErrors = useQueryErrorResetBoundary();
+
+	return (
+		<PetstoreErrorAlert
+			error={error}
+			onRetry={() => {
+				queryErrors.reset();
+				reset();
+			}}
+		/>
+	);
+}
@@ -0,0 +1,146 @@
+import { X } from "lucide-react";
+import { useId, useState } from "react";
+
+/**
+ * Multi-select combobox for tag names. Suggestions filter as you type; Enter
+ * picks the highlighted suggestion or adds the typed text as a new tag, and
+ * Backspace in an empty input removes the last tag.
+ */
+export function TagCombobox({
+	label,
+	value,
+	onChange,
+	suggestions,
+	placeholder = "Add a tag...",
+}: {
+	label: string;
+	value: Array<string>;
+	onChange: (tags: Array<string>) => void;
+	suggestions: Array<string>;
+	placeholder?: string;
+}) {
+	const id = useId();
+	const listboxId = `${id}-listbox`;
+	const [query, setQuery] = useState("");
+	const [open, setOpen] = useState(false);
+	const [active, setActive] = useState(0);
+
+	const needle = query.trim().toLowerCase();
+	const options = suggestions.filter(
+		(tag) => !value.includes(tag) && tag.toLowerCase().includes(needle),
+	);
+	const expanded = open && options.length > 0;
+	const activeIndex = Math.min(active, options.length - 1);
+
+	const add = (tag: string) => {
+		const name = tag.trim();
+		if (name && !value.includes(name)) onChange([...value, name]);
+		setQuery("");
+		setActive(0);
+	};
+
+	const remove = (tag: string) => onChange(value.filter((t) => t !== tag));
+
+	const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+		switch (e.key) {
+			case "ArrowDown":
+				e.preventDefault();
+				setOpen(true);
+				setActive((activeIndex + 1) % Math.max(options.length, 1));
+				break;
+			case "ArrowUp":
+				e.preventDefault();
+				setOpen(true);
+				setActive(
+					(activeIndex - 1 + options.length) % Math.max(options.length, 1),
+				);
+				break;
+			case "Enter":
+				e.preventDefault();
+				add(expanded ? options[activeIndex] : query);
+				break;
+			case "Escape":
+				setOpen(false);
+				break;
+			case "Backspace":
+				if (query === "" && value.length > 0) {
+					remove(value[value.length - 1]);
+				}
+				break;
+		}
+	};
+
+	return (
+		<div className="relative">
+			<label htmlFor={id} className="text-sm font-medium">
+				{label}
+			</label>
+			<div className="flex flex-wrap items-center gap-1 min-h-9 w-full rounded-md border px-2 py-1 focus-within:ring-2 focus-within:ring-blue-500">
+				{value.map((tag) => (
+					<span
+						key={tag}
+						className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded bg-blue-100 text-blue-800"
+					>
+						{tag}
+						<button
+							type="button"
+							aria-label={`Remove ${tag}`}
+							onClick={() => remove(tag)}
+							className="hover:text-blue-950"
+						>
+							<X size={12} />
+						</button>
+					</span>
+				))}
+				<input
+					id={id}
+					role="combobox"
+					aria-expanded={expanded}
+					aria-controls={listboxId}
+					aria-autocomplete="list"
+					aria-activedescendant={
+						expanded ? `${listboxId}-${activeIndex}` : undefined
+					}
+					value={query}
+					placeholder={value.length === 0 ? placeholder : undefined}
+					onChange={(e) => {
+						setQuery(e.target.value);
+						setActive(0);
+						setOpen(true);
+					}}
+					onFocus={() => setOpen(true)}
+					onBlur={() => setOpen(false)}
+					onKeyDown={onKeyDown}
+					className="flex-1 min-w-24 bg-transparent py-1 text-sm outline-none"
+				/>
+			</div>
+			{expanded && (
+				<div
+					id={listboxId}
+					role="listbox"
+					aria-label={label}
+					className="absolute z-10 mt-1 max-h-60 w-full overflow-auto rounded-md border bg-white py-1 shadow-md"
+				>
+					{options.map((tag, index) => (
+						<button
+							key={tag}
+							id={`${listboxId}-${index}`}
+							type="button"
+							role="option"
+							aria-selected={index === activeIndex}
+							// Focus stays in the input, which handles the keyboard
+							tabIndex={-1}
+							onMouseDown={(e) => e.preventDefault()}
+							onClick={() => add(tag)}
+							className={`block w-full text-left px-3 py-1.5 text-sm ${
+								index === activeIndex ? "bg-blue-50 text-blue-900" : ""
+							}`}
+						>
+							{tag}
+						</button>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,70 @@
+import { X } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "./ui/button";
+
+const UNDO_TIMEOUT_MS = 5000;
+
+export type UndoAction = {
+	message: string;
+	undo: () => void;
+};
+
+/**
+ * The undo action to offer, if any. Each action is offered for `timeout` ms
+ * and replaces the previous one.
+ */
+export function useUndoToast(timeout = UNDO_TIMEOUT_MS) {
+	const [action, setAction] = useState<UndoAction | null>(null);
+
+	useEffect(() => {
+		if (!action) return;
+		const timer = setTimeout(() => setAction(null), timeout);
+		return () => clearTimeout(timer);
+	}, [action, timeout]);
+
+	const dismiss = useCallback(() => setAction(null), []);
+
+	return { action, show: setAction, dismiss };
+}
+
+/**
+ * A toast offering to undo the last change, fixed to the bottom of the page.
+ */
+export function UndoToast({
+	action,
+	onDismiss,
+}: {
+	action: UndoAction | null;
+	onDismiss: () => void;
+}) {
+	return (
+		<output
+			aria-live="polite"
+			className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50"
+		>
+			{action && (
+				<div className="flex items-center gap-4 rounded-lg bg-gray-900 text-white px-4 py-3 shadow-lg">
+					<span className="text-sm">{action.message}</span>
+					<Button
+						size="sm"
+						variant="secondary"
+						onClick={() => {
+							action.undo();
+							onDismiss();
+						}}
+					>
+						Undo
+					</Button>
+					<button
+						type="button"
+						aria-label="Dismiss"
+						onClick={onDismiss}
+						className="text-gray-400 hover:text-white"
+					>
+						<X size={16} />
+					</button>
+				</div>
+			)}
+		</output>
+	);
+}
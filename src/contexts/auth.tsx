@@ -1,11 +1,17 @@
-import { useQuery } from "@tanstack/react-query";
-import { createContext, type ReactNode, useContext } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { createContext, type ReactNode, useContext, useEffect } from "react";
+import {
+	clearPersistedQueryClient,
+	persistQueryClient,
+} from "@/integrations/tanstack-query/persist";
+import { hasPermission, type Permission, type Role } from "@/lib/permissions";
 import { getCurrentUserFn } from "@/server/auth";
 
 type User = {
 	id: string;
-	email?: string;
+	email: string;
 	name: string;
+	role: Role;
 };
 
 type AuthContextType = {
@@ -22,11 +28,28 @@ function useCurrentUser() {
 		queryFn: getCurrentUserFn,
 		staleTime: 1000 * 60 * 5, // 5 minutes
 		retry: false,
+		// The signed-in user must come from the server, not a stored cache
+		meta: { persist: false },
 	});
 }
 
 export function AuthProvider({ children }: { children: ReactNode }) {
-	const { data: user, isLoading, refetch } = useCurrentUser();
+	const queryClient = useQueryClient();
+	const { data: user, isLoading, isSuccess, refetch } = useCurrentUser();
+
+	// Persist the cache for the signed-in account only. Signing out or
+	// switching accounts drops the previous account's cached queries, stored
+	// cache and queued changes. Runs after hydration, so restored data can't
+	// cause an SSR mismatch.
+	const userId = isSuccess ? (user?.id ?? null) : undefined;
+	useEffect(() => {
+		if (userId === undefined) return;
+		if (userId === null) {
+			clearPersistedQueryClient(queryClient);
+			return;
+		}
+		return persistQueryClient(queryClient, userId);
+	}, [queryClient, userId]);
 
 	return (
 		<AuthContext.Provider
@@ -50,3 +73,12 @@ export function useAuth() {
 	}
 	return context;
 }
+
+/**
+ * Whether the signed-in user's role grants `permission`. Use it to hide
+ * controls; the server functions enforce the same rules.
+ */
+export function useCan(permission: Permission) {
+	const { user } = useAuth();
+	return hasPermission(user?.role, permission);
+}
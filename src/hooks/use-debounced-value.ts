@@ -0,0 +1,15 @@
+import { useEffect, useState } from "react";
+
+/**
+ * `value`, but only after it has stopped changing for `delay` ms.
+ */
+export function useDebouncedValue<T>(value: T, delay = 300) {
+	const [debounced, setDebounced] = useState(value);
+
+	useEffect(() => {
+		const timeout = setTimeout(() => setDebounced(value), delay);
+		return () => clearTimeout(timeout);
+	}, [value, delay]);
+
+	return debounced;
+}
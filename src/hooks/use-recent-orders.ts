@@ -0,0 +1,63 @@
+import { useSyncExternalStore } from "react";
+
+// The Petstore can't list orders, so the ids of orders placed from this
+// browser are kept in localStorage for the orders page.
+
+const STORAGE_KEY = "petstore:recent-orders";
+const MAX_ORDERS = 20;
+
+const listeners = new Set<() => void>();
+const noOrders: Array<number> = [];
+
+// `getSnapshot` must return the same array until the stored value changes
+let snapshot = { raw: null as string | null, ids: noOrders };
+
+function read() {
+	const raw = localStorage.getItem(STORAGE_KEY);
+	if (raw === snapshot.raw) return snapshot.ids;
+
+	let ids = noOrders;
+	try {
+		const parsed: unknown = JSON.parse(raw ?? "[]");
+		if (Array.isArray(parsed)) {
+			ids = parsed.filter((id): id is number => Number.isInteger(id));
+		}
+	} catch {
+		// Ignore a corrupt value; the next write replaces it
+	}
+	snapshot = { raw, ids };
+	return ids;
+}
+
+function write(ids: Array<number>) {
+	localStorage.setItem(STORAGE_KEY, JSON.stringify(ids.slice(0, MAX_ORDERS)));
+	for (const listener of listeners) listener();
+}
+
+function subscribe(listener: () => void) {
+	listeners.add(listener);
+	// Other tabs
+	window.addEventListener("storage", listener);
+	return () => {
+		listeners.delete(listener);
+		window.removeEventListener("storage", listener);
+	};
+}
+
+/**
+ * Remember an order, most recent first.
+ */
+export function rememberOrder(orderId: number) {
+	write([orderId, ...read().filter((id) => id !== orderId)]);
+}
+
+export function forgetOrder(orderId: number) {
+	write(read().filter((id) => id !== orderId));
+}
+
+/**
+ * Ids of orders placed from this browser. Empty during SSR.
+ */
+export function useRecentOrders() {
+	return useSyncExternalStore(subscribe, read, () => noOrders);
+}
@@ -0,0 +1,79 @@
+import { useSyncExternalStore } from "react";
+import {
+	type CircuitSnapshot,
+	type CircuitState,
+	circuitBreakers,
+} from "../../api/resilience";
+
+const STATE_COLORS: Record<CircuitState, string> = {
+	closed: "bg-green-600",
+	"half-open": "bg-amber-500",
+	open: "bg-red-600",
+};
+
+const noCircuits: Array<CircuitSnapshot> = [];
+
+// Breaker state of the browser's Petstore client, per host
+function CircuitBreakerPanel() {
+	const circuits = useSyncExternalStore(
+		circuitBreakers.subscribe,
+		circuitBreakers.getSnapshot,
+		() => noCircuits,
+	);
+
+	return (
+		<div className="p-4 space-y-3 text-sm">
+			<div className="flex items-center justify-between">
+				<h2 className="font-semibold">Circuit breakers</h2>
+				<button
+					type="button"
+					onClick={() => circuitBreakers.reset()}
+					className="px-2 py-1 rounded border border-gray-500 hover:bg-gray-700"
+				>
+					Reset all
+				</button>
+			</div>
+			{circuits.length === 0 ? (
+				<p className="text-gray-400">No Petstore requests yet.</p>
+			) : (
+				<table className="w-full text-left">
+					<thead className="text-gray-400">
+						<tr>
+							<th className="py-1">Host</th>
+							<th>State</th>
+							<th>Failures</th>
+							<th>Probe at</th>
+							<th>Last error</th>
+						</tr>
+					</thead>
+					<tbody>
+						{circuits.map((circuit) => (
+							<tr key={circuit.host} className="border-t border-gray-700">
+								<td className="py-1 font-mono">{circuit.host}</td>
+								<td>
+									<span
+										className={`px-2 py-0.5 rounded text-white text-xs ${STATE_COLORS[circuit.state]}`}
+									>
+										{circuit.state}
+									</span>
+								</td>
+								<td>{circuit.failures}</td>
+								<td>
+									{circuit.retryAt
+										? new Date(circuit.retryAt).toLocaleTimeString()
+										: "-"}
+								</td>
+								<td className="text-gray-400">{circuit.lastError ?? "-"}</td>
+							</tr>
+						))}
+					</tbody>
+				</table>
+			)}
+		</div>
+	);
+}
+
+export default {
+	name: "Petstore Client",
+	render: <CircuitBreakerPanel />,
+};
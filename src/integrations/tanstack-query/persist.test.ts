@@ -0,0 +1,202 @@
+import { dehydrate, QueryClient } from "@tanstack/react-query";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { clearPersistedQueryClient, persistQueryClient } from "./persist";
+
+// Just enough of IndexedDB for one object store, answering asynchronously
+let stored: Map<IDBValidKey, unknown>;
+
+function request<T>(run: () => T) {
+	const pending: { result?: T; onsuccess?: () => void } = {};
+	queueMicrotask(() => {
+		pending.result = run();
+		pending.onsuccess?.();
+	});
+	return pending;
+}
+
+const store = {
+	get: (key: IDBValidKey) => request(() => stored.get(key)),
+	put: (value: unknown, key: IDBValidKey) =>
+		request(() => stored.set(key, value) && key),
+	delete: (key: IDBValidKey) => request(() => stored.delete(key) && undefined),
+	getAllKeys: () => request(() => [...stored.keys()]),
+};
+
+const fakeIndexedDB = {
+	open: () =>
+		request(() => ({
+			createObjectStore: () => store,
+			transaction: () => ({ objectStore: () => store }),
+			close: () => {},
+		})),
+};
+
+const todosKey = (userId: string) => ["todos", "prisma", userId];
+const authKey = ["auth", "currentUser"];
+
+function persisted(data: Record<string, unknown>, savedAt = Date.now()) {
+	const source = new QueryClient();
+	for (const [userId, todos] of Object.entries(data)) {
+		source.setQueryData(todosKey(userId), todos);
+	}
+	return { version: 1, savedAt, state: JSON.stringify(dehydrate(source)) };
+}
+
+let queryClient: QueryClient;
+const stops: Array<() => void> = [];
+
+function persist(userId: string) {
+	const stop = persistQueryClient(queryClient, userId);
+	stops.push(stop);
+	return stop;
+}
+
+// What was stored for `userId` once the save delay has passed
+async function saved(userId: string) {
+	await vi.advanceTimersByTimeAsync(1000);
+	return stored.get(`query-client:${userId}`) as { state: string };
+}
+
+const queueMutation = () =>
+	queryClient
+		.getMutationCache()
+		.build(queryClient, { mutationKey: ["petstore", "updatePet"] });
+
+beforeEach(() => {
+	vi.useFakeTimers();
+	stored = new Map();
+	vi.stubGlobal("indexedDB", fakeIndexedDB);
+	queryClient = new QueryClient();
+});
+
+afterEach(() => {
+	for (const stop of stops.splice(0)) stop();
+	queryClient.clear();
+	vi.unstubAllGlobals();
+	vi.useRealTimers();
+});
+
+describe("persistQueryClient", () => {
+	it("restores the signed-in account's cache", async () => {
+		stored.set("query-client:user-1", persisted({ "user-1": ["Walk Rex"] }));
+
+		persist("user-1");
+
+		await vi.waitFor(() =>
+			expect(queryClient.getQueryData(todosKey("user-1"))).toEqual([
+				"Walk Rex",
+			]),
+		);
+	});
+
+	it("ignores a cache saved too long ago", async () => {
+		stored.set(
+			"query-client:user-1",
+			persisted({ "user-1": ["Walk Rex"] }, Date.now() - 1000 * 60 * 60 * 25),
+		);
+
+		persist("user-1");
+		await vi.advanceTimersByTimeAsync(1000);
+
+		expect(queryClient.getQueryData(todosKey("user-1"))).toBeUndefined();
+	});
+
+	it("saves the cache under the account when it changes", async () => {
+		persist("user-1");
+		queryClient.setQueryData(todosKey("user-1"), ["Walk Rex"]);
+
+		const { state } = await saved("user-1");
+		expect(state).toContain("Walk Rex");
+	});
+
+	it("doesn't save queries that opt out", async () => {
+		persist("user-1");
+		queryClient.setQueryData(authKey, { id: "user-1" });
+		queryClient
+			.getQueryCache()
+			.find({ queryKey: authKey })
+			?.setOptions({
+				queryKey: authKey,
+				meta: { persist: false },
+			});
+		queryClient.setQueryData(todosKey("user-1"), ["Walk Rex"]);
+
+		const { state } = await saved("user-1");
+		expect(state).not.toContain("currentUser");
+	});
+
+	it("deletes other accounts' stored caches", async () => {
+		stored.set("query-client:user-2", persisted({ "user-2": ["Feed Tom"] }));
+
+		persist("user-1");
+
+		await vi.waitFor(() => expect([...stored.keys()]).toEqual([]));
+		expect(queryClient.getQueryData(todosKey("user-2"))).toBeUndefined();
+	});
+
+	it("drops the previous account's queries and queued changes", async () => {
+		persist("user-1")();
+		queryClient.setQueryData(authKey, { id: "user-2" });
+		queryClient.setQueryData(todosKey("user-1"), ["Walk Rex"]);
+		queueMutation();
+
+		persist("user-2");
+
+		expect(queryClient.getQueryData(todosKey("user-1"))).toBeUndefined();
+		expect(queryClient.getMutationCache().getAll()).toEqual([]);
+		// Still needed to tell who is signed in
+		expect(queryClient.getQueryData(authKey)).toEqual({ id: "user-2" });
+	});
+
+	it("keeps the cache when the same account is persisted again", () => {
+		persist("user-1")();
+		queryClient.setQueryData(todosKey("user-1"), ["Walk Rex"]);
+		queueMutation();
+
+		persist("user-1");
+
+		expect(queryClient.getQueryData(todosKey("user-1"))).toEqual(["Walk Rex"]);
+		expect(queryClient.getMutationCache().getAll()).toHaveLength(1);
+	});
+});
+
+describe("clearPersistedQueryClient", () => {
+	it("drops the signed-out account's queries, queued changes and stored cache", async () => {
+		stored.set("query-client:user-1", persisted({ "user-1": ["Walk Rex"] }));
+		persist("user-1")();
+		queryClient.setQueryData(authKey, null);
+		queryClient.setQueryData(todosKey("user-1"), ["Walk Rex"]);
+		queueMutation();
+
+		await clearPersistedQueryClient(queryClient);
+
+		expect(queryClient.getQueryData(todosKey("user-1"))).toBeUndefined();
+		expect(queryClient.getMutationCache().getAll()).toEqual([]);
+		expect(queryClient.getQueryData(authKey)).toBeNull();
+		expect([...stored.keys()]).toEqual([]);
+	});
+
+	it("keeps the queries of a visit that was never signed in", async () => {
+		queryClient.setQueryData(todosKey("ssr"), ["Walk Rex"]);
+		queueMutation();
+
+		await clearPersistedQueryClient(queryClient);
+
+		expect(queryClient.getQueryData(todosKey("ssr"))).toEqual(["Walk Rex"]);
+		expect(queryClient.getMutationCache().getAll()).toEqual([]);
+	});
+
+	it("restores the account again when it signs back in", async () => {
+		persist("user-1")();
+		await clearPersistedQueryClient(queryClient);
+		stored.set("query-client:user-1", persisted({ "user-1": ["Walk Rex"] }));
+
+		persist("user-1");
+
+		await vi.waitFor(() =>
+			expect(queryClient.getQueryData(todosKey("user-1"))).toEqual([
+				"Walk Rex",
+			]),
+		);
+	});
+});
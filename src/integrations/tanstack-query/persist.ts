@@ -0,0 +1,211 @@
+import {
+	type DehydratedState,
+	defaultShouldDehydrateQuery,
+	dehydrate,
+	hydrate,
+	onlineManager,
+	type QueryClient,
+} from "@tanstack/react-query";
+
+// Keeps the query cache and paused (offline) mutations in IndexedDB, so a
+// reload shows the last data straight away and queued changes aren't lost.
+// Queries opt out with `meta: { persist: false }`. This is a small take on
+// `@tanstack/query-persist-client`, covering what the app needs without
+// another dependency.
+//
+// Each account gets its own entry, and only the signed-in account's is kept,
+// so one user's data and queued changes never reach the next user of the
+// same browser. The same goes for the in-memory cache: it is emptied when the
+// account changes or signs out.
+
+const DB_NAME = "tanstack-query";
+const STORE_NAME = "cache";
+
+const cacheKey = (userId: string) => `query-client:${userId}`;
+
+// Change this when cached data is no longer compatible with the app
+const CACHE_VERSION = 1;
+const MAX_AGE_MS = 1000 * 60 * 60 * 24;
+const SAVE_DELAY_MS = 1000;
+
+type PersistedClient = {
+	version: number;
+	savedAt: number;
+	// JSON drops what can't be stored, such as optimistic rollback functions
+	state: string;
+};
+
+function openDatabase() {
+	return new Promise<IDBDatabase>((resolve, reject) => {
+		const request = indexedDB.open(DB_NAME, 1);
+		request.onupgradeneeded = () =>
+			request.result.createObjectStore(STORE_NAME);
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+async function withStore<T>(
+	mode: IDBTransactionMode,
+	run: (store: IDBObjectStore) => IDBRequest<T>,
+) {
+	const db = await openDatabase();
+	try {
+		return await new Promise<T>((resolve, reject) => {
+			const request = run(
+				db.transaction(STORE_NAME, mode).objectStore(STORE_NAME),
+			);
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		});
+	} finally {
+		db.close();
+	}
+}
+
+// Deletes every stored cache except `keep`'s
+async function deleteCaches(keep?: string) {
+	const keys = await withStore("readonly", (store) => store.getAllKeys());
+	await Promise.all(
+		keys
+			.filter((key) => key !== keep)
+			.map((key) => withStore("readwrite", (store) => store.delete(key))),
+	);
+}
+
+// The account each client was restored for. Hydrating twice would queue
+// every paused mutation twice.
+const restoredClients = new WeakMap<QueryClient, string>();
+
+// The account whose data each client holds, from the moment it's persisted
+const clientAccounts = new WeakMap<QueryClient, string>();
+
+async function restore(queryClient: QueryClient, key: string) {
+	if (restoredClients.get(queryClient) === key) return;
+	restoredClients.set(queryClient, key);
+
+	const persisted = await withStore<PersistedClient | undefined>(
+		"readonly",
+		(store) => store.get(key),
+	);
+	if (
+		!persisted ||
+		persisted.version !== CACHE_VERSION ||
+		Date.now() - persisted.savedAt > MAX_AGE_MS
+	) {
+		return;
+	}
+
+	// Queries already in the cache (e.g. from SSR) are kept when they're newer
+	hydrate(queryClient, JSON.parse(persisted.state) as DehydratedState);
+
+	if (onlineManager.isOnline()) {
+		await queryClient.resumePausedMutations();
+	}
+}
+
+function save(queryClient: QueryClient, key: string) {
+	const state = dehydrate(queryClient, {
+		shouldDehydrateQuery: (query) =>
+			defaultShouldDehydrateQuery(query) && query.meta?.persist !== false,
+		// After a reload only mutations with a default `mutationFn` (see
+		// `setMutationDefaults`) can be replayed
+		shouldDehydrateMutation: ({ options: { mutationKey }, state }) =>
+			state.isPaused &&
+			mutationKey !== undefined &&
+			queryClient.getMutationDefaults(mutationKey).mutationFn !== undefined,
+	});
+	const persisted: PersistedClient = {
+		version: CACHE_VERSION,
+		savedAt: Date.now(),
+		state: JSON.stringify(state),
+	};
+	return withStore("readwrite", (store) => store.put(persisted, key));
+}
+
+// Changes queued by another account must not be replayed for this one
+function dropQueuedMutations(queryClient: QueryClient) {
+	queryClient.getMutationCache().clear();
+}
+
+// Everything the account fetched or queued. The signed-in user is kept, as
+// it's how the next account is found.
+function dropAccountData(queryClient: QueryClient) {
+	dropQueuedMutations(queryClient);
+	queryClient.removeQueries({
+		predicate: (query) => query.queryKey[0] !== "auth",
+	});
+}
+
+/**
+ * Restore `queryClient` from `userId`'s entry in IndexedDB, resume mutations
+ * that were queued while offline, and save the cache again whenever it
+ * changes. Other accounts' entries are deleted, and so is the data a
+ * previous account left in `queryClient`. Browser only. Returns a function
+ * that stops saving.
+ */
+export function persistQueryClient(queryClient: QueryClient, userId: string) {
+	const key = cacheKey(userId);
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	let restored = false;
+
+	const previous = clientAccounts.get(queryClient);
+	if (previous !== undefined && previous !== key) {
+		dropAccountData(queryClient);
+	}
+	clientAccounts.set(queryClient, key);
+
+	const scheduleSave = () => {
+		// Saving before the restore finishes would overwrite it with less
+		if (!restored || timer) return;
+		timer = setTimeout(() => {
+			timer = undefined;
+			save(queryClient, key).catch(() => {
+				// Storage can be unavailable (e.g. private browsing); the app
+				// works without it
+			});
+		}, SAVE_DELAY_MS);
+	};
+
+	const unsubscribeQueries = queryClient
+		.getQueryCache()
+		.subscribe(scheduleSave);
+	const unsubscribeMutations = queryClient
+		.getMutationCache()
+		.subscribe(scheduleSave);
+
+	deleteCaches(key)
+		.then(() => restore(queryClient, key))
+		.catch(() => {
+			// A missing or unreadable cache just means starting empty
+		})
+		.finally(() => {
+			restored = true;
+			scheduleSave();
+		});
+
+	return () => {
+		clearTimeout(timer);
+		unsubscribeQueries();
+		unsubscribeMutations();
+	};
+}
+
+/**
+ * Forget everything persisted, including mutations still queued in
+ * `queryClient`, e.g. once the user has signed out. The signed-out user's
+ * queries are dropped too, unless `queryClient` never held an account's
+ * data (a signed-out first visit keeps its SSR data). Browser only.
+ */
+export function clearPersistedQueryClient(queryClient: QueryClient) {
+	if (clientAccounts.has(queryClient)) {
+		dropAccountData(queryClient);
+	} else {
+		dropQueuedMutations(queryClient);
+	}
+	clientAccounts.delete(queryClient);
+	restoredClients.delete(queryClient);
+	return deleteCaches().catch(() => {
+		// Nothing to delete when storage is unavailable
+	});
+}
@@ -19,42 +19,6 @@ export function getContext() {
 		},
 	});
 
-	// If a token is supplied (e.g. in SSR), attach it to the generated client
-	try {
-		// lazy import to avoid circular deps during generation
-		// eslint-disable-next-line @typescript-eslint/no-var-requires
-		const auth = require("../../lib/auth");
-
-		// On the client, ensure the generated client will call our authCallback
-		if (typeof window !== "undefined") {
-			if (typeof auth?.authCallback === "function") {
-				// register default auth callback used by setAuthParams
-				// lazy require the generated client to avoid circular imports
-				try {
-					const { client } = require("../../api/petstore/client.gen");
-					client.setConfig({ auth: auth.authCallback });
-				} catch {
-					// noop
-				}
-			}
-
-			// Attach any stored token to the client headers right away
-			if (typeof auth?.getStoredToken === "function") {
-				const token = auth.getStoredToken();
-				if (token) {
-					try {
-						const { attachAuthToClient } = require("../../lib/auth");
-						attachAuthToClient(token);
-					} catch {
-						// noop
-					}
-				}
-			}
-		}
-	} catch {
-		// noop
-	}
-
 	return {
 		queryClient,
 	};
@@ -67,6 +31,7 @@ export function Provider({
 	children: React.ReactNode;
 	queryClient: QueryClient;
 }) {
+	// The cache is persisted per account by `AuthProvider`
 	return (
 		<QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
 	);
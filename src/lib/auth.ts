@@ -1,74 +1,43 @@
 import { createServerFn, createServerOnlyFn } from "@tanstack/react-start";
-import { client } from "@/api/petstore/client.gen";
-
-const STORAGE_KEY = "petstore_token";
-
-export const getStoredToken = (): string | undefined => {
-	try {
-		if (typeof window === "undefined") return undefined;
-		return localStorage.getItem(STORAGE_KEY) ?? undefined;
-	} catch {
-		return undefined;
-	}
-};
-
-export const setStoredToken = (token: string) => {
-	try {
-		if (typeof window === "undefined") return;
-		localStorage.setItem(STORAGE_KEY, token);
-		// update global client header as well
-		attachAuthToClient(token);
-	} catch {
-		// noop
-	}
-};
-
-export const clearStoredToken = () => {
-	try {
-		if (typeof window === "undefined") return;
-		localStorage.removeItem(STORAGE_KEY);
-		attachAuthToClient(undefined);
-	} catch {
-		// noop
-	}
-};
-
-export const authCallback = async () => {
-	return getStoredToken();
-};
-
-// Attach token to generated client for client-side and server-side usage.
-export const attachAuthToClient = (token?: string | undefined) => {
-	if (!token) {
-		// remove Authorization header
-		client.setConfig({ headers: { Authorization: null } });
-		return;
-	}
-
-	// If token already contains 'Bearer ' prefix, keep it, otherwise add it.
-	const header = token.startsWith("Bearer ") ? token : `Bearer ${token}`;
-
-	client.setConfig({ headers: { Authorization: header } });
-};
-
-// For SSR usage you can call this with the token from cookies/headers
-export const initAuthForServer = (token?: string) => {
-	attachAuthToClient(token);
-};
-
-export const getTokenFromCookie = createServerFn({ method: "GET" }).handler(
-	() => {
-		return {
-			token: "123",
-		};
+import { z } from "zod";
+
+// The Petstore token is kept in the encrypted session cookie and never sent to
+// the browser. Browser requests go through the `/api/petstore` proxy, which
+// attaches it server-side; SSR reads it directly.
+
+const stripBearer = (token: string) =>
+	token.startsWith("Bearer ") ? token.slice("Bearer ".length) : token;
+
+/**
+ * Read the Petstore token for the current request. Server only.
+ */
+export const getPetstoreToken = createServerOnlyFn(async () => {
+	const { useAppSession } = await import("@/lib/session");
+	const session = await useAppSession();
+	return session.data.petstoreToken;
+});
+
+export const setPetstoreTokenFn = createServerFn({ method: "POST" })
+	.inputValidator(z.object({ token: z.string().trim().min(1) }))
+	.handler(async ({ data }) => {
+		const { useAppSession } = await import("@/lib/session");
+		const session = await useAppSession();
+		await session.update({ petstoreToken: stripBearer(data.token) });
+		return { hasToken: true };
+	});
+
+export const clearPetstoreTokenFn = createServerFn({ method: "POST" }).handler(
+	async () => {
+		const { useAppSession } = await import("@/lib/session");
+		const session = await useAppSession();
+		await session.update({ petstoreToken: undefined });
+		return { hasToken: false };
 	},
 );
 
-export default {
-	getStoredToken,
-	setStoredToken,
-	clearStoredToken,
-	authCallback,
-	attachAuthToClient,
-	initAuthForServer,
-};
+// Lets the UI know whether a token is set without revealing it
+export const getPetstoreTokenStatusFn = createServerFn({
+	method: "GET",
+}).handler(async () => {
+	return { hasToken: Boolean(await getPetstoreToken()) };
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import {
+	HIGHLIGHT_END,
+	HIGHLIGHT_START,
+	splitHighlights,
+	stripControlCharacters,
+} from "./highlight";
+
+const mark = (text: string) => `${HIGHLIGHT_START}${text}${HIGHLIGHT_END}`;
+
+describe("stripControlCharacters", () => {
+	it("removes control characters, including the highlight markers", () => {
+		expect(stripControlCharacters(`a\u0000b\u0007c${mark("d")}\u007f`)).toBe(
+			"abcd",
+		);
+	});
+
+	it("keeps tabs and line breaks", () => {
+		expect(stripControlCharacters("one\ttwo\r\nthree\n")).toBe(
+			"one\ttwo\r\nthree\n",
+		);
+	});
+
+	it("leaves other text alone", () => {
+		expect(stripControlCharacters("")).toBe("");
+		expect(stripControlCharacters("café ☕ <b>bold</b>")).toBe(
+			"café ☕ <b>bold</b>",
+		);
+	});
+});
+
+describe("splitHighlights", () => {
+	it("splits marked matches from plain text", () => {
+		expect(splitHighlights(`buy ${mark("milk")} and ${mark("eggs")}`)).toEqual([
+			{ text: "buy ", match: false, offset: 0 },
+			{ text: "milk", match: true, offset: 4 },
+			{ text: " and ", match: false, offset: 8 },
+			{ text: "eggs", match: true, offset: 13 },
+		]);
+	});
+
+	it("treats an unterminated marker as plain text", () => {
+		expect(splitHighlights(`a${HIGHLIGHT_START}b`)).toEqual([
+			{ text: `a${HIGHLIGHT_START}b`, match: false, offset: 0 },
+		]);
+	});
+
+	it("returns nothing for empty text", () => {
+		expect(splitHighlights("")).toEqual([]);
+	});
+});
@@ -0,0 +1,48 @@
+// Markers the server wraps around full-text matches. Todo text is stored
+// through `stripControlCharacters`, so the markers never need escaping and
+// the client can render matches without trusting any HTML.
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_END = "\u0003";
+
+/**
+ * Remove control characters, including the highlight markers, keeping tabs
+ * and line breaks.
+ */
+export function stripControlCharacters(text: string) {
+	return text.replace(/(?![\t\n\r])\p{Cc}/gu, "");
+}
+
+export type HighlightPart = {
+	text: string;
+	match: boolean;
+	// Where the part starts in the text without markers; unique per part
+	offset: number;
+};
+
+/**
+ * Split marked-up text into plain and matched runs for rendering.
+ */
+export function splitHighlights(text: string): Array<HighlightPart> {
+	const parts: Array<HighlightPart> = [];
+	const push = (text: string, match: boolean) => {
+		const last = parts[parts.length - 1];
+		const offset = last ? last.offset + last.text.length : 0;
+		parts.push({ text, match, offset });
+	};
+	let rest = text;
+
+	while (rest) {
+		const start = rest.indexOf(HIGHLIGHT_START);
+		if (start === -1) break;
+
+		const end = rest.indexOf(HIGHLIGHT_END, start);
+		if (end === -1) break;
+
+		if (start > 0) push(rest.slice(0, start), false);
+		push(rest.slice(start + 1, end), true);
+		rest = rest.slice(end + 1);
+	}
+
+	if (rest) push(rest, false);
+	return parts;
+}
@@ -0,0 +1,60 @@
+// Roles and the permissions they grant. Shared by the server-function
+// middleware and the `useCan` hook so the UI and the API agree.
+
+export const ROLES = ["admin", "editor", "viewer"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const DEFAULT_ROLE: Role = "viewer";
+
+export type Permission =
+	| "todos:read"
+	| "todos:write"
+	| "pets:create"
+	| "pets:update"
+	| "pets:delete"
+	| "orders:manage"
+	| "users:manage";
+
+// Every user owns a todo list, so every role may write todos. What someone
+// may do with another user's list comes from its share (see
+// `src/server/todo-access.ts`); roles otherwise gate the shared Petstore.
+const ROLE_PERMISSIONS: Record<Role, ReadonlyArray<Permission>> = {
+	admin: [
+		"todos:read",
+		"todos:write",
+		"pets:create",
+		"pets:update",
+		"pets:delete",
+		"orders:manage",
+		"users:manage",
+	],
+	editor: [
+		"todos:read",
+		"todos:write",
+		"pets:create",
+		"pets:update",
+		"orders:manage",
+	],
+	viewer: ["todos:read", "todos:write"],
+};
+
+export function isRole(value: unknown): value is Role {
+	return ROLES.includes(value as Role);
+}
+
+/**
+ * Check whether a role grants a permission. Unknown roles grant nothing.
+ */
+export function hasPermission(
+	role: string | undefined | null,
+	permission: Permission,
+) {
+	if (!isRole(role)) return false;
+	return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Access a todo list owner can grant to another user
+export const SHARE_ACCESS = ["viewer", "editor"] as const;
+
+export type ShareAccess = (typeof SHARE_ACCESS)[number];
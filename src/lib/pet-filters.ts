@@ -0,0 +1,64 @@
+import { z } from "zod";
+
+// Listing options for `/demo/petstore`, kept in the route's search params so a
+// filtered view can be bookmarked or shared.
+
+export const PET_STATUSES = ["available", "pending", "sold"] as const;
+
+export type PetStatus = (typeof PET_STATUSES)[number];
+
+export const PETS_PAGE_SIZE = 12;
+
+const tagName = z.string().trim().min(1).max(100);
+
+// `.default` keeps every param optional for links; `.catch` makes
+// hand-edited or stale links fall back to it instead of failing the route
+export const petFiltersSchema = z.object({
+	status: z.enum(PET_STATUSES).default("available").catch("available"),
+	// Pets with any of these tags; empty lists every pet with `status`. A
+	// hand-written `?tags=cat` arrives as a single string.
+	tags: z
+		.union([z.array(tagName).max(20), tagName.transform((tag) => [tag])])
+		.default([])
+		.catch([]),
+	page: z.number().int().min(1).default(1).catch(1),
+});
+
+export type PetFilters = z.infer<typeof petFiltersSchema>;
+
+/**
+ * One page of `items`. `page` is clamped, so a stale link past the end shows
+ * the last page.
+ */
+export function paginate<T>(
+	items: Array<T>,
+	page: number,
+	pageSize = PETS_PAGE_SIZE,
+) {
+	const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+	const current = Math.min(Math.max(1, page), pageCount);
+	const start = (current - 1) * pageSize;
+
+	return {
+		items: items.slice(start, start + pageSize),
+		page: current,
+		pageCount,
+		start,
+	};
+}
+
+/**
+ * Distinct tag names across `pets`, sorted for display.
+ */
+export function collectTagNames(
+	pets: Array<{ tags?: Array<{ name?: string }> }>,
+) {
+	const names = new Set<string>();
+	for (const pet of pets) {
+		for (const tag of pet.tags ?? []) {
+			const name = tag.name?.trim();
+			if (name) names.add(name);
+		}
+	}
+	return [...names].sort((a, b) => a.localeCompare(b));
+}
@@ -0,0 +1,198 @@
+import { z } from "zod";
+import type { User } from "@/api/petstore/types.gen";
+
+// Petstore users as edited on `/demo/petstore/users`: one schema for the
+// create and profile forms and every row of a CSV import.
+
+// Form inputs are strings; empty optional fields are left out of the user
+const optional = z
+	.string()
+	.trim()
+	.transform((value) => value || undefined);
+
+export const petstoreUserSchema = z.object({
+	username: z
+		.string()
+		.trim()
+		.min(1, "Username is required")
+		.regex(/^[^/?#\s]+$/, "Username can't contain spaces, / ? or #"),
+	firstName: optional,
+	lastName: optional,
+	email: z
+		.string()
+		.trim()
+		.refine((value) => value === "" || z.email().safeParse(value).success, {
+			message: "Enter a valid email address",
+		})
+		.transform((value) => value || undefined),
+	phone: optional,
+	password: optional,
+	userStatus: z
+		.string()
+		.trim()
+		.regex(/^\d*$/, "User status must be a whole number")
+		.transform((value) => (value === "" ? undefined : Number(value))),
+});
+
+export type PetstoreUserValues = z.input<typeof petstoreUserSchema>;
+
+export const USER_FIELDS = [
+	"username",
+	"firstName",
+	"lastName",
+	"email",
+	"phone",
+	"password",
+	"userStatus",
+] as const satisfies ReadonlyArray<keyof PetstoreUserValues>;
+
+export const USER_FIELD_LABELS: Record<(typeof USER_FIELDS)[number], string> = {
+	username: "Username",
+	firstName: "First name",
+	lastName: "Last name",
+	email: "Email",
+	phone: "Phone",
+	password: "Password",
+	userStatus: "User status",
+};
+
+/**
+ * Form values for `user`; the password is never shown.
+ */
+export function toUserValues(user: User = {}): PetstoreUserValues {
+	return {
+		username: user.username ?? "",
+		firstName: user.firstName ?? "",
+		lastName: user.lastName ?? "",
+		email: user.email ?? "",
+		phone: user.phone ?? "",
+		password: "",
+		userStatus: user.userStatus === undefined ? "" : String(user.userStatus),
+	};
+}
+
+// ============================================================================
+// CSV import
+// ============================================================================
+
+export type CsvRowError = { line: number; message: string };
+
+/**
+ * Split CSV text into rows of fields. Handles quoted fields with commas,
+ * doubled quotes and line breaks, and both LF and CRLF line endings. Each row
+ * keeps the line it started on for error messages.
+ */
+export function parseCsv(text: string) {
+	const rows: Array<{ line: number; fields: Array<string> }> = [];
+	let fields: Array<string> = [];
+	let field = "";
+	let quoted = false;
+	let line = 1;
+	let rowLine = 1;
+
+	const endRow = () => {
+		fields.push(field);
+		if (fields.some((value) => value.trim() !== "")) {
+			rows.push({ line: rowLine, fields });
+		}
+		fields = [];
+		field = "";
+		rowLine = line;
+	};
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+
+		if (quoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				if (char === "\n") line++;
+				field += char;
+			}
+			continue;
+		}
+
+		if (char === '"' && field === "") {
+			quoted = true;
+		} else if (char === ",") {
+			fields.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && text[i + 1] === "\n") i++;
+			line++;
+			endRow();
+		} else {
+			field += char;
+		}
+	}
+	endRow();
+
+	return rows;
+}
+
+/**
+ * Users from CSV text whose first row names the columns (any of
+ * `USER_FIELDS`, in any order; `username` is required). Invalid rows are
+ * reported by line and left out.
+ */
+export function parseUsersCsv(text: string) {
+	const [header, ...rows] = parseCsv(text);
+	const users: Array<User> = [];
+	const errors: Array<CsvRowError> = [];
+
+	if (!header) {
+		return { users, errors: [{ line: 1, message: "The file is empty" }] };
+	}
+
+	const columns = header.fields.map((name) => name.trim());
+	const unknown = columns.filter(
+		(name) => !USER_FIELDS.includes(name as (typeof USER_FIELDS)[number]),
+	);
+	if (unknown.length > 0 || !columns.includes("username")) {
+		const problems = [
+			...(columns.includes("username") ? [] : ["a username column"]),
+			...(unknown.length > 0 ? [`no columns named ${unknown.join(", ")}`] : []),
+		];
+		return {
+			users,
+			errors: [
+				{
+					line: header.line,
+					message: `The header row needs ${problems.join(" and ")}. Allowed columns: ${USER_FIELDS.join(", ")}`,
+				},
+			],
+		};
+	}
+
+	const seen = new Set<string>();
+	for (const row of rows) {
+		const values = Object.fromEntries(
+			USER_FIELDS.map((name) => {
+				const index = columns.indexOf(name);
+				return [name, index === -1 ? "" : (row.fields[index] ?? "")];
+			}),
+		);
+		const result = petstoreUserSchema.safeParse(values);
+
+		if (!result.success) {
+			errors.push({
+				line: row.line,
+				message: result.error.issues.map((issue) => issue.message).join("; "),
+			});
+		} else if (seen.has(result.data.username)) {
+			errors.push({
+				line: row.line,
+				message: `Duplicate username "${result.data.username}"`,
+			});
+		} else {
+			seen.add(result.data.username);
+			users.push(result.data);
+		}
+	}
+
+	return { users, errors };
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { safeRedirectPath } from "./redirect";
+
+describe("safeRedirectPath", () => {
+	it("keeps same-origin paths with their query and hash", () => {
+		expect(safeRedirectPath("/demo/petstore?status=sold#top")).toBe(
+			"/demo/petstore?status=sold#top",
+		);
+	});
+
+	it("falls back to / without a path", () => {
+		expect(safeRedirectPath()).toBe("/");
+		expect(safeRedirectPath("")).toBe("/");
+		expect(safeRedirectPath("demo/petstore")).toBe("/");
+	});
+
+	it.each([
+		"https://evil.com",
+		"http://localhost.evil.com/",
+		"javascript:alert(1)",
+		"//evil.com",
+		"//evil.com/demo",
+		"/\\evil.com",
+		"/..//evil.com",
+		"/%2e%2e//evil.com",
+	])("rejects %s", (path) => {
+		expect(safeRedirectPath(path)).toBe("/");
+	});
+});
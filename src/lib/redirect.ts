@@ -0,0 +1,24 @@
+// Only follow same-origin paths so `?redirect=` can't send users elsewhere.
+// Resolving the path the way a browser would also catches `/\evil.com`,
+// which browsers read as `//evil.com`.
+const REDIRECT_BASE = "http://localhost";
+
+/**
+ * `path` if it stays on this site, otherwise `/`.
+ */
+export function safeRedirectPath(path?: string) {
+	if (!path?.startsWith("/")) return "/";
+
+	let url: URL;
+	try {
+		url = new URL(path, REDIRECT_BASE);
+	} catch {
+		return "/";
+	}
+	// `/..//evil.com` normalizes to the protocol-relative `//evil.com`
+	if (url.origin !== REDIRECT_BASE || url.pathname.startsWith("//")) {
+		return "/";
+	}
+
+	return `${url.pathname}${url.search}${url.hash}`;
+}
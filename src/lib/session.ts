@@ -1,9 +1,19 @@
 import { useSession } from "@tanstack/react-start/server";
+import type { Role } from "@/lib/permissions";
 
-type SessionData = {
+// Identity providers `loginFn` can sign users in with (see `src/server/auth.ts`)
+export type AuthProviderId = "local" | "petstore";
+
+export type SessionData = {
 	userId?: string;
 	email?: string;
-	role?: string;
+	role?: Role;
+	authProvider?: AuthProviderId;
+	// Session from Petstore `loginUser` and when it expires (epoch ms)
+	petstoreSession?: string;
+	petstoreSessionExpiresAt?: number;
+	// Petstore API token. Lives only in this encrypted, httpOnly cookie
+	petstoreToken?: string;
 };
 
 export function useAppSession() {
@@ -0,0 +1,282 @@
+import type { Auth } from "@/api/petstore/client";
+
+// Reads a Swagger 2.0 document (like `petstore-openapi.json`) into the
+// operation list the `/demo/api-explorer` route renders forms for.
+
+type SwaggerSchema = {
+	$ref?: string;
+	type?: string;
+	format?: string;
+	enum?: Array<string>;
+	example?: unknown;
+	items?: SwaggerSchema;
+	properties?: Record<string, SwaggerSchema>;
+};
+
+export type SwaggerParameter = {
+	name: string;
+	in: "path" | "query" | "header" | "body" | "formData";
+	description?: string;
+	required?: boolean;
+	type?: string;
+	format?: string;
+	enum?: Array<string>;
+	items?: SwaggerSchema;
+	schema?: SwaggerSchema;
+};
+
+type SwaggerOperation = {
+	operationId: string;
+	summary?: string;
+	description?: string;
+	tags?: Array<string>;
+	consumes?: Array<string>;
+	parameters?: Array<SwaggerParameter>;
+	security?: Array<Record<string, Array<string>>>;
+	deprecated?: boolean;
+};
+
+type SwaggerDocument = {
+	info: { title: string; version: string };
+	tags?: Array<{ name: string; description?: string }>;
+	paths: Record<string, Record<string, SwaggerOperation>>;
+	definitions?: Record<string, SwaggerSchema>;
+};
+
+export type ExplorerOperation = {
+	id: string;
+	method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+	path: string;
+	tag: string;
+	summary: string;
+	description?: string;
+	deprecated: boolean;
+	parameters: Array<SwaggerParameter>;
+	consumes: Array<string>;
+	// Same mechanisms the generated SDK passes for this operation
+	security: Array<Auth>;
+	// Pretty-printed skeleton for the JSON body, if the operation takes one
+	bodyExample?: string;
+};
+
+export type ExplorerSpec = {
+	title: string;
+	version: string;
+	tags: Array<{
+		name: string;
+		description?: string;
+		operations: Array<ExplorerOperation>;
+	}>;
+};
+
+// How `openapi-ts` mapped each Swagger security definition for the SDK
+const SECURITY: Record<string, Auth> = {
+	api_key: { name: "api_key", type: "apiKey" },
+	petstore_auth: { scheme: "bearer", type: "http" },
+};
+
+/**
+ * A representative value for `schema`, following `$ref`s into
+ * `definitions`. Recursion stops a few levels deep.
+ */
+function exampleFor(
+	schema: SwaggerSchema,
+	definitions: Record<string, SwaggerSchema>,
+	depth = 0,
+): unknown {
+	if (schema.$ref) {
+		const name = schema.$ref.replace("#/definitions/", "");
+		const definition = definitions[name];
+		return definition && depth < 4
+			? exampleFor(definition, definitions, depth + 1)
+			: {};
+	}
+
+	if (schema.example !== undefined) return schema.example;
+	if (schema.enum) return schema.enum[0];
+
+	switch (schema.type) {
+		case "integer":
+		case "number":
+			return 0;
+		case "boolean":
+			return false;
+		case "array":
+			return schema.items
+				? [exampleFor(schema.items, definitions, depth + 1)]
+				: [];
+		case "string":
+			return schema.format === "date-time" ? new Date(0).toISOString() : "";
+		default:
+			return Object.fromEntries(
+				Object.entries(schema.properties ?? {}).map(([key, property]) => [
+					key,
+					exampleFor(property, definitions, depth + 1),
+				]),
+			);
+	}
+}
+
+export function parseSwagger(text: string): ExplorerSpec {
+	const document = JSON.parse(text) as SwaggerDocument;
+	const definitions = document.definitions ?? {};
+	const byTag = new Map<string, Array<ExplorerOperation>>();
+
+	for (const [path, methods] of Object.entries(document.paths)) {
+		for (const [method, operation] of Object.entries(methods)) {
+			const parameters = operation.parameters ?? [];
+			const body = parameters.find((parameter) => parameter.in === "body");
+			const tag = operation.tags?.[0] ?? "default";
+
+			const explorerOperation: ExplorerOperation = {
+				id: operation.operationId,
+				method: method.toUpperCase() as ExplorerOperation["method"],
+				path,
+				tag,
+				summary: operation.summary ?? operation.operationId,
+				description: operation.description,
+				deprecated: operation.deprecated ?? false,
+				parameters,
+				consumes: operation.consumes ?? [],
+				security: (operation.security ?? []).flatMap((requirement) =>
+					Object.keys(requirement).flatMap((name) =>
+						SECURITY[name] ? [SECURITY[name]] : [],
+					),
+				),
+				bodyExample:
+					body?.schema &&
+					JSON.stringify(exampleFor(body.schema, definitions), null, 2),
+			};
+
+			byTag.set(tag, [...(byTag.get(tag) ?? []), explorerOperation]);
+		}
+	}
+
+	// Document order for declared tags, then any undeclared ones
+	const declared = document.tags ?? [];
+	const names = [
+		...declared.map((tag) => tag.name),
+		...[...byTag.keys()].filter(
+			(name) => !declared.some((tag) => tag.name === name),
+		),
+	];
+
+	return {
+		title: document.info.title,
+		version: document.info.version,
+		tags: names
+			.filter((name) => byTag.has(name))
+			.map((name) => ({
+				name,
+				description: declared.find((tag) => tag.name === name)?.description,
+				operations: byTag.get(name) ?? [],
+			})),
+	};
+}
+
+// Form values grouped by parameter location, then name. A parameter name
+// can appear in more than one location, so a flat record would collide.
+export type ExplorerValues = Partial<
+	Record<SwaggerParameter["in"], Record<string, string>>
+>;
+
+/**
+ * Form field path for a parameter within `ExplorerValues`.
+ */
+export function fieldName(
+	parameter: SwaggerParameter,
+): `${SwaggerParameter["in"]}.${string}` {
+	return `${parameter.in}.${parameter.name}`;
+}
+
+/**
+ * Initial form values: empty strings, and a skeleton JSON body.
+ */
+export function defaultExplorerValues(operation: ExplorerOperation) {
+	const values: ExplorerValues = {};
+	for (const parameter of operation.parameters) {
+		const location = values[parameter.in] ?? {};
+		values[parameter.in] = location;
+		location[parameter.name] =
+			parameter.in === "body" ? (operation.bodyExample ?? "") : "";
+	}
+	return values;
+}
+
+export type ExplorerRequest = {
+	path: Record<string, unknown>;
+	query: Record<string, unknown>;
+	headers: Record<string, string>;
+	body?: unknown;
+	// Set for `formData` operations; JSON bodies use the client's default
+	bodyEncoding?: "multipart" | "urlencoded";
+};
+
+function coerce(parameter: SwaggerParameter, value: string): unknown {
+	const type = parameter.type ?? parameter.schema?.type;
+
+	if (type === "array") {
+		return value
+			.split(",")
+			.map((item) => item.trim())
+			.filter(Boolean);
+	}
+	if (type === "integer" || type === "number") {
+		const number = Number(value);
+		if (Number.isNaN(number)) {
+			throw new Error(`${parameter.name} must be a number`);
+		}
+		return number;
+	}
+	if (type === "boolean") return value === "true";
+	return value;
+}
+
+/**
+ * Turn the explorer's string form values into client request options.
+ * Empty optional fields are left out.
+ */
+export function buildExplorerRequest(
+	operation: ExplorerOperation,
+	values: ExplorerValues,
+): ExplorerRequest {
+	const request: ExplorerRequest = { path: {}, query: {}, headers: {} };
+	const formData: Record<string, unknown> = {};
+
+	for (const parameter of operation.parameters) {
+		const value = values[parameter.in]?.[parameter.name]?.trim() ?? "";
+		if (!value) continue;
+
+		switch (parameter.in) {
+			case "path":
+				request.path[parameter.name] = coerce(parameter, value);
+				break;
+			case "query":
+				request.query[parameter.name] = coerce(parameter, value);
+				break;
+			case "header":
+				request.headers[parameter.name] = value;
+				break;
+			case "formData":
+				formData[parameter.name] = value;
+				break;
+			case "body":
+				try {
+					request.body = JSON.parse(value);
+				} catch {
+					throw new Error("The request body is not valid JSON");
+				}
+				request.headers["Content-Type"] = "application/json";
+				break;
+		}
+	}
+
+	if (Object.keys(formData).length > 0) {
+		request.body = formData;
+		request.bodyEncoding = operation.consumes.includes("multipart/form-data")
+			? "multipart"
+			: "urlencoded";
+	}
+
+	return request;
+}
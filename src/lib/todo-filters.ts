@@ -0,0 +1,36 @@
+import { z } from "zod";
+
+// Listing options for `/demo/prisma`. The same schema validates the route's
+// search params and the `getTodos` input, so links and the API stay in step.
+
+export const TODO_STATUSES = ["all", "active", "completed"] as const;
+
+export const TODO_SORTS = ["position", "newest", "oldest", "title"] as const;
+
+export type TodoSort = (typeof TODO_SORTS)[number];
+
+export const todoFiltersSchema = z.object({
+	// Owner of the list to show; omitted means the signed-in user's own list
+	list: z.string().min(1).optional(),
+	q: z.string().trim().max(200).optional(),
+	status: z.enum(TODO_STATUSES).default("all"),
+	// Inclusive creation date range, as `YYYY-MM-DD`
+	from: z.iso.date().optional(),
+	to: z.iso.date().optional(),
+	sort: z.enum(TODO_SORTS).default("position"),
+});
+
+export type TodoFilters = z.infer<typeof todoFiltersSchema>;
+
+/**
+ * Manual ordering only makes sense when every todo is visible in list order.
+ */
+export function canReorder(filters: TodoFilters) {
+	return (
+		filters.sort === "position" &&
+		!filters.q &&
+		filters.status === "all" &&
+		!filters.from &&
+		!filters.to
+	);
+}
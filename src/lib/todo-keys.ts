@@ -0,0 +1,20 @@
+import type { TodoFilters } from "@/lib/todo-filters";
+
+// Query keys for the todo lists on `/demo/prisma`, shared with the pages
+// that change which lists a user can open.
+
+export type TodoSearchFilters = TodoFilters & { q: string };
+
+export const todoKeys = {
+	// Every key starts with the signed-in user's ID, so one account's todos
+	// are never served from the cache to the next user of the same browser
+	all: (userId: string) => ["todos", "prisma", userId] as const,
+	lists: (userId: string) => [...todoKeys.all(userId), "list"] as const,
+	list: (userId: string, filters: TodoFilters) =>
+		[...todoKeys.lists(userId), filters] as const,
+	search: (userId: string, filters: TodoSearchFilters) =>
+		[...todoKeys.lists(userId), "search", filters] as const,
+	sharedLists: (userId: string) =>
+		[...todoKeys.all(userId), "shared-lists"] as const,
+	shares: (userId: string) => [...todoKeys.all(userId), "shares"] as const,
+};
@@ -0,0 +1,51 @@
+import { z } from "zod";
+
+// Wire format of the `/demo/api/tq-todos` REST resource, shared by the
+// server routes and the TanStack Query hooks that call them.
+
+export const tqTodoSchema = z
+	.object({
+		id: z.number().int().positive(),
+		name: z.string(),
+		completed: z.boolean(),
+		// Bumped on every change; the ETag is derived from it
+		version: z.number().int().positive(),
+		createdAt: z.iso.datetime(),
+		updatedAt: z.iso.datetime(),
+	})
+	.meta({ id: "TqTodo" });
+
+export type TqTodo = z.infer<typeof tqTodoSchema>;
+
+const name = z.string().trim().min(1, "Name is required").max(200);
+
+// POST /demo/api/tq-todos
+export const createTqTodoSchema = z.object({
+	name,
+	completed: z.boolean().default(false),
+});
+
+// PUT /demo/api/tq-todos/$id replaces every writable field
+export const replaceTqTodoSchema = z.object({
+	name,
+	completed: z.boolean(),
+});
+
+// PATCH /demo/api/tq-todos/$id changes only the fields sent
+export const patchTqTodoSchema = replaceTqTodoSchema
+	.partial()
+	.refine((patch) => Object.keys(patch).length > 0, {
+		message: "Send at least one field to change",
+	});
+
+export type CreateTqTodo = z.input<typeof createTqTodoSchema>;
+export type ReplaceTqTodo = z.infer<typeof replaceTqTodoSchema>;
+export type PatchTqTodo = z.infer<typeof patchTqTodoSchema>;
+
+/**
+ * Strong ETag for one revision of a todo. Send it back as `If-Match` when
+ * changing or deleting the todo.
+ */
+export function tqTodoEtag(todo: Pick<TqTodo, "id" | "version">) {
+	return `"${todo.id}-${todo.version}"`;
+}
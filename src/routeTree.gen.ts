@@ -8,238 +8,416 @@
 // You should NOT make any changes in this file as it will be overwritten.
 // Additionally, you should also exclude this file from your linter and/or formatter to prevent it from being checked or modified.
 
+import { createFileRoute } from '@tanstack/react-router'
+
 import { Route as rootRouteImport } from './routes/__root'
 import { Route as IndexRouteImport } from './routes/index'
 import { Route as DemoTanstackQueryRouteImport } from './routes/demo/tanstack-query'
-import { Route as DemoPrismaRouteImport } from './routes/demo/prisma'
+import { Route as DemoRegisterRouteImport } from './routes/demo/register'
 import { Route as DemoPetstoreSsrRouteImport } from './routes/demo/petstore-ssr'
-import { Route as DemoPetstoreRouteImport } from './routes/demo/petstore'
 import { Route as DemoLoginRouteImport } from './routes/demo/login'
+import { Route as DemoAuthedRouteImport } from './routes/demo/_authed'
+import { Route as ApiOpenapiDotjsonRouteImport } from './routes/api/openapi[.]json'
 import { Route as DemoStartServerFuncsRouteImport } from './routes/demo/start.server-funcs'
 import { Route as DemoStartApiRequestRouteImport } from './routes/demo/start.api-request'
 import { Route as DemoFormSimpleRouteImport } from './routes/demo/form.simple'
 import { Route as DemoFormAddressRouteImport } from './routes/demo/form.address'
 import { Route as DemoApiTqTodosRouteImport } from './routes/demo/api.tq-todos'
 import { Route as DemoApiNamesRouteImport } from './routes/demo/api.names'
+import { Route as DemoAuthedPrismaRouteImport } from './routes/demo/_authed.prisma'
+import { Route as DemoAuthedPetstoreRouteImport } from './routes/demo/_authed.petstore'
+import { Route as DemoAuthedApiExplorerRouteImport } from './routes/demo/_authed.api-explorer'
+import { Route as ApiPetstoreSplatRouteImport } from './routes/api/petstore.$'
 import { Route as DemoStartSsrIndexRouteImport } from './routes/demo/start.ssr.index'
+import { Route as MockPetstoreV2SplatRouteImport } from './routes/mock/petstore.v2.$'
 import { Route as DemoStartSsrSpaModeRouteImport } from './routes/demo/start.ssr.spa-mode'
 import { Route as DemoStartSsrFullSsrRouteImport } from './routes/demo/start.ssr.full-ssr'
 import { Route as DemoStartSsrDataOnlyRouteImport } from './routes/demo/start.ssr.data-only'
+import { Route as DemoApiTqTodosIdRouteImport } from './routes/demo/api.tq-todos.$id'
+import { Route as DemoAuthedTodoInviteTokenRouteImport } from './routes/demo/_authed.todo-invite.$token'
+import { Route as DemoAuthedPetstoreUsersRouteImport } from './routes/demo/_authed.petstore_.users'
+import { Route as DemoAuthedPetstoreUsersIndexRouteImport } from './routes/demo/_authed.petstore_.users.index'
+import { Route as DemoAuthedPetstoreOrdersIndexRouteImport } from './routes/demo/_authed.petstore_.orders.index'
+import { Route as DemoAuthedPetstoreUsersUsernameRouteImport } from './routes/demo/_authed.petstore_.users.$username'
+import { Route as DemoAuthedPetstorePetsPetIdRouteImport } from './routes/demo/_authed.petstore_.pets.$petId'
+import { Route as DemoAuthedPetstoreOrdersOrderIdRouteImport } from './routes/demo/_authed.petstore_.orders.$orderId'
+
+const DemoRouteImport = createFileRoute('/demo')()
 
+const DemoRoute = DemoRouteImport.update({
+  id: '/demo',
+  path: '/demo',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const IndexRoute = IndexRouteImport.update({
   id: '/',
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
 const DemoTanstackQueryRoute = DemoTanstackQueryRouteImport.update({
-  id: '/demo/tanstack-query',
-  path: '/demo/tanstack-query',
-  getParentRoute: () => rootRouteImport,
+  id: '/tanstack-query',
+  path: '/tanstack-query',
+  getParentRoute: () => DemoRoute,
 } as any)
-const DemoPrismaRoute = DemoPrismaRouteImport.update({
-  id: '/demo/prisma',
-  path: '/demo/prisma',
-  getParentRoute: () => rootRouteImport,
+const DemoRegisterRoute = DemoRegisterRouteImport.update({
+  id: '/register',
+  path: '/register',
+  getParentRoute: () => DemoRoute,
 } as any)
 const DemoPetstoreSsrRoute = DemoPetstoreSsrRouteImport.update({
-  id: '/demo/petstore-ssr',
-  path: '/demo/petstore-ssr',
-  getParentRoute: () => rootRouteImport,
-} as any)
-const DemoPetstoreRoute = DemoPetstoreRouteImport.update({
-  id: '/demo/petstore',
-  path: '/demo/petstore',
-  getParentRoute: () => rootRouteImport,
+  id: '/petstore-ssr',
+  path: '/petstore-ssr',
+  getParentRoute: () => DemoRoute,
 } as any)
 const DemoLoginRoute = DemoLoginRouteImport.update({
-  id: '/demo/login',
-  path: '/demo/login',
+  id: '/login',
+  path: '/login',
+  getParentRoute: () => DemoRoute,
+} as any)
+const DemoAuthedRoute = DemoAuthedRouteImport.update({
+  id: '/_authed',
+  getParentRoute: () => DemoRoute,
+} as any)
+const ApiOpenapiDotjsonRoute = ApiOpenapiDotjsonRouteImport.update({
+  id: '/api/openapi.json',
+  path: '/api/openapi.json',
   getParentRoute: () => rootRouteImport,
 } as any)
 const DemoStartServerFuncsRoute = DemoStartServerFuncsRouteImport.update({
-  id: '/demo/start/server-funcs',
-  path: '/demo/start/server-funcs',
-  getParentRoute: () => rootRouteImport,
+  id: '/start/server-funcs',
+  path: '/start/server-funcs',
+  getParentRoute: () => DemoRoute,
 } as any)
 const DemoStartApiRequestRoute = DemoStartApiRequestRouteImport.update({
-  id: '/demo/start/api-request',
-  path: '/demo/start/api-request',
-  getParentRoute: () => rootRouteImport,
+  id: '/start/api-request',
+  path: '/start/api-request',
+  getParentRoute: () => DemoRoute,
 } as any)
 const DemoFormSimpleRoute = DemoFormSimpleRouteImport.update({
-  id: '/demo/form/simple',
-  path: '/demo/form/simple',
-  getParentRoute: () => rootRouteImport,
+  id: '/form/simple',
+  path: '/form/simple',
+  getParentRoute: () => DemoRoute,
 } as any)
 const DemoFormAddressRoute = DemoFormAddressRouteImport.update({
-  id: '/demo/form/address',
-  path: '/demo/form/address',
-  getParentRoute: () => rootRouteImport,
+  id: '/form/address',
+  path: '/form/address',
+  getParentRoute: () => DemoRoute,
 } as any)
 const DemoApiTqTodosRoute = DemoApiTqTodosRouteImport.update({
-  id: '/demo/api/tq-todos',
-  path: '/demo/api/tq-todos',
-  getParentRoute: () => rootRouteImport,
+  id: '/api/tq-todos',
+  path: '/api/tq-todos',
+  getParentRoute: () => DemoRoute,
 } as any)
 const DemoApiNamesRoute = DemoApiNamesRouteImport.update({
-  id: '/demo/api/names',
-  path: '/demo/api/names',
+  id: '/api/names',
+  path: '/api/names',
+  getParentRoute: () => DemoRoute,
+} as any)
+const DemoAuthedPrismaRoute = DemoAuthedPrismaRouteImport.update({
+  id: '/prisma',
+  path: '/prisma',
+  getParentRoute: () => DemoAuthedRoute,
+} as any)
+const DemoAuthedPetstoreRoute = DemoAuthedPetstoreRouteImport.update({
+  id: '/petstore',
+  path: '/petstore',
+  getParentRoute: () => DemoAuthedRoute,
+} as any)
+const DemoAuthedApiExplorerRoute = DemoAuthedApiExplorerRouteImport.update({
+  id: '/api-explorer',
+  path: '/api-explorer',
+  getParentRoute: () => DemoAuthedRoute,
+} as any)
+const ApiPetstoreSplatRoute = ApiPetstoreSplatRouteImport.update({
+  id: '/api/petstore/$',
+  path: '/api/petstore/$',
   getParentRoute: () => rootRouteImport,
 } as any)
 const DemoStartSsrIndexRoute = DemoStartSsrIndexRouteImport.update({
-  id: '/demo/start/ssr/',
-  path: '/demo/start/ssr/',
+  id: '/start/ssr/',
+  path: '/start/ssr/',
+  getParentRoute: () => DemoRoute,
+} as any)
+const MockPetstoreV2SplatRoute = MockPetstoreV2SplatRouteImport.update({
+  id: '/mock/petstore/v2/$',
+  path: '/mock/petstore/v2/$',
   getParentRoute: () => rootRouteImport,
 } as any)
 const DemoStartSsrSpaModeRoute = DemoStartSsrSpaModeRouteImport.update({
-  id: '/demo/start/ssr/spa-mode',
-  path: '/demo/start/ssr/spa-mode',
-  getParentRoute: () => rootRouteImport,
+  id: '/start/ssr/spa-mode',
+  path: '/start/ssr/spa-mode',
+  getParentRoute: () => DemoRoute,
 } as any)
 const DemoStartSsrFullSsrRoute = DemoStartSsrFullSsrRouteImport.update({
-  id: '/demo/start/ssr/full-ssr',
-  path: '/demo/start/ssr/full-ssr',
-  getParentRoute: () => rootRouteImport,
+  id: '/start/ssr/full-ssr',
+  path: '/start/ssr/full-ssr',
+  getParentRoute: () => DemoRoute,
 } as any)
 const DemoStartSsrDataOnlyRoute = DemoStartSsrDataOnlyRouteImport.update({
-  id: '/demo/start/ssr/data-only',
-  path: '/demo/start/ssr/data-only',
-  getParentRoute: () => rootRouteImport,
+  id: '/start/ssr/data-only',
+  path: '/start/ssr/data-only',
+  getParentRoute: () => DemoRoute,
+} as any)
+const DemoApiTqTodosIdRoute = DemoApiTqTodosIdRouteImport.update({
+  id: '/$id',
+  path: '/$id',
+  getParentRoute: () => DemoApiTqTodosRoute,
 } as any)
+const DemoAuthedTodoInviteTokenRoute =
+  DemoAuthedTodoInviteTokenRouteImport.update({
+    id: '/todo-invite/$token',
+    path: '/todo-invite/$token',
+    getParentRoute: () => DemoAuthedRoute,
+  } as any)
+const DemoAuthedPetstoreUsersRoute = DemoAuthedPetstoreUsersRouteImport.update({
+  id: '/petstore_/users',
+  path: '/petstore/users',
+  getParentRoute: () => DemoAuthedRoute,
+} as any)
+const DemoAuthedPetstoreUsersIndexRoute =
+  DemoAuthedPetstoreUsersIndexRouteImport.update({
+    id: '/',
+    path: '/',
+    getParentRoute: () => DemoAuthedPetstoreUsersRoute,
+  } as any)
+const DemoAuthedPetstoreOrdersIndexRoute =
+  DemoAuthedPetstoreOrdersIndexRouteImport.update({
+    id: '/petstore_/orders/',
+    path: '/petstore/orders/',
+    getParentRoute: () => DemoAuthedRoute,
+  } as any)
+const DemoAuthedPetstoreUsersUsernameRoute =
+  DemoAuthedPetstoreUsersUsernameRouteImport.update({
+    id: '/$username',
+    path: '/$username',
+    getParentRoute: () => DemoAuthedPetstoreUsersRoute,
+  } as any)
+const DemoAuthedPetstorePetsPetIdRoute =
+  DemoAuthedPetstorePetsPetIdRouteImport.update({
+    id: '/petstore_/pets/$petId',
+    path: '/petstore/pets/$petId',
+    getParentRoute: () => DemoAuthedRoute,
+  } as any)
+const DemoAuthedPetstoreOrdersOrderIdRoute =
+  DemoAuthedPetstoreOrdersOrderIdRouteImport.update({
+    id: '/petstore_/orders/$orderId',
+    path: '/petstore/orders/$orderId',
+    getParentRoute: () => DemoAuthedRoute,
+  } as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
+  '/api/openapi.json': typeof ApiOpenapiDotjsonRoute
+  '/demo': typeof DemoAuthedRouteWithChildren
   '/demo/login': typeof DemoLoginRoute
-  '/demo/petstore': typeof DemoPetstoreRoute
   '/demo/petstore-ssr': typeof DemoPetstoreSsrRoute
-  '/demo/prisma': typeof DemoPrismaRoute
+  '/demo/register': typeof DemoRegisterRoute
   '/demo/tanstack-query': typeof DemoTanstackQueryRoute
+  '/api/petstore/$': typeof ApiPetstoreSplatRoute
+  '/demo/api-explorer': typeof DemoAuthedApiExplorerRoute
+  '/demo/petstore': typeof DemoAuthedPetstoreRoute
+  '/demo/prisma': typeof DemoAuthedPrismaRoute
   '/demo/api/names': typeof DemoApiNamesRoute
-  '/demo/api/tq-todos': typeof DemoApiTqTodosRoute
+  '/demo/api/tq-todos': typeof DemoApiTqTodosRouteWithChildren
   '/demo/form/address': typeof DemoFormAddressRoute
   '/demo/form/simple': typeof DemoFormSimpleRoute
   '/demo/start/api-request': typeof DemoStartApiRequestRoute
   '/demo/start/server-funcs': typeof DemoStartServerFuncsRoute
+  '/demo/petstore/users': typeof DemoAuthedPetstoreUsersRouteWithChildren
+  '/demo/todo-invite/$token': typeof DemoAuthedTodoInviteTokenRoute
+  '/demo/api/tq-todos/$id': typeof DemoApiTqTodosIdRoute
   '/demo/start/ssr/data-only': typeof DemoStartSsrDataOnlyRoute
   '/demo/start/ssr/full-ssr': typeof DemoStartSsrFullSsrRoute
   '/demo/start/ssr/spa-mode': typeof DemoStartSsrSpaModeRoute
+  '/mock/petstore/v2/$': typeof MockPetstoreV2SplatRoute
   '/demo/start/ssr': typeof DemoStartSsrIndexRoute
+  '/demo/petstore/orders/$orderId': typeof DemoAuthedPetstoreOrdersOrderIdRoute
+  '/demo/petstore/pets/$petId': typeof DemoAuthedPetstorePetsPetIdRoute
+  '/demo/petstore/users/$username': typeof DemoAuthedPetstoreUsersUsernameRoute
+  '/demo/petstore/orders': typeof DemoAuthedPetstoreOrdersIndexRoute
+  '/demo/petstore/users/': typeof DemoAuthedPetstoreUsersIndexRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
+  '/api/openapi.json': typeof ApiOpenapiDotjsonRoute
+  '/demo': typeof DemoAuthedRouteWithChildren
   '/demo/login': typeof DemoLoginRoute
-  '/demo/petstore': typeof DemoPetstoreRoute
   '/demo/petstore-ssr': typeof DemoPetstoreSsrRoute
-  '/demo/prisma': typeof DemoPrismaRoute
+  '/demo/register': typeof DemoRegisterRoute
   '/demo/tanstack-query': typeof DemoTanstackQueryRoute
+  '/api/petstore/$': typeof ApiPetstoreSplatRoute
+  '/demo/api-explorer': typeof DemoAuthedApiExplorerRoute
+  '/demo/petstore': typeof DemoAuthedPetstoreRoute
+  '/demo/prisma': typeof DemoAuthedPrismaRoute
   '/demo/api/names': typeof DemoApiNamesRoute
-  '/demo/api/tq-todos': typeof DemoApiTqTodosRoute
+  '/demo/api/tq-todos': typeof DemoApiTqTodosRouteWithChildren
   '/demo/form/address': typeof DemoFormAddressRoute
   '/demo/form/simple': typeof DemoFormSimpleRoute
   '/demo/start/api-request': typeof DemoStartApiRequestRoute
   '/demo/start/server-funcs': typeof DemoStartServerFuncsRoute
+  '/demo/todo-invite/$token': typeof DemoAuthedTodoInviteTokenRoute
+  '/demo/api/tq-todos/$id': typeof DemoApiTqTodosIdRoute
   '/demo/start/ssr/data-only': typeof DemoStartSsrDataOnlyRoute
   '/demo/start/ssr/full-ssr': typeof DemoStartSsrFullSsrRoute
   '/demo/start/ssr/spa-mode': typeof DemoStartSsrSpaModeRoute
+  '/mock/petstore/v2/$': typeof MockPetstoreV2SplatRoute
   '/demo/start/ssr': typeof DemoStartSsrIndexRoute
+  '/demo/petstore/orders/$orderId': typeof DemoAuthedPetstoreOrdersOrderIdRoute
+  '/demo/petstore/pets/$petId': typeof DemoAuthedPetstorePetsPetIdRoute
+  '/demo/petstore/users/$username': typeof DemoAuthedPetstoreUsersUsernameRoute
+  '/demo/petstore/orders': typeof DemoAuthedPetstoreOrdersIndexRoute
+  '/demo/petstore/users': typeof DemoAuthedPetstoreUsersIndexRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
+  '/api/openapi.json': typeof ApiOpenapiDotjsonRoute
+  '/demo': typeof DemoRouteWithChildren
+  '/demo/_authed': typeof DemoAuthedRouteWithChildren
   '/demo/login': typeof DemoLoginRoute
-  '/demo/petstore': typeof DemoPetstoreRoute
   '/demo/petstore-ssr': typeof DemoPetstoreSsrRoute
-  '/demo/prisma': typeof DemoPrismaRoute
+  '/demo/register': typeof DemoRegisterRoute
   '/demo/tanstack-query': typeof DemoTanstackQueryRoute
+  '/api/petstore/$': typeof ApiPetstoreSplatRoute
+  '/demo/_authed/api-explorer': typeof DemoAuthedApiExplorerRoute
+  '/demo/_authed/petstore': typeof DemoAuthedPetstoreRoute
+  '/demo/_authed/prisma': typeof DemoAuthedPrismaRoute
   '/demo/api/names': typeof DemoApiNamesRoute
-  '/demo/api/tq-todos': typeof DemoApiTqTodosRoute
+  '/demo/api/tq-todos': typeof DemoApiTqTodosRouteWithChildren
   '/demo/form/address': typeof DemoFormAddressRoute
   '/demo/form/simple': typeof DemoFormSimpleRoute
   '/demo/start/api-request': typeof DemoStartApiRequestRoute
   '/demo/start/server-funcs': typeof DemoStartServerFuncsRoute
+  '/demo/_authed/petstore_/users': typeof DemoAuthedPetstoreUsersRouteWithChildren
+  '/demo/_authed/todo-invite/$token': typeof DemoAuthedTodoInviteTokenRoute
+  '/demo/api/tq-todos/$id': typeof DemoApiTqTodosIdRoute
   '/demo/start/ssr/data-only': typeof DemoStartSsrDataOnlyRoute
   '/demo/start/ssr/full-ssr': typeof DemoStartSsrFullSsrRoute
   '/demo/start/ssr/spa-mode': typeof DemoStartSsrSpaModeRoute
+  '/mock/petstore/v2/$': typeof MockPetstoreV2SplatRoute
   '/demo/start/ssr/': typeof DemoStartSsrIndexRoute
+  '/demo/_authed/petstore_/orders/$orderId': typeof DemoAuthedPetstoreOrdersOrderIdRoute
+  '/demo/_authed/petstore_/pets/$petId': typeof DemoAuthedPetstorePetsPetIdRoute
+  '/demo/_authed/petstore_/users/$username': typeof DemoAuthedPetstoreUsersUsernameRoute
+  '/demo/_authed/petstore_/orders/': typeof DemoAuthedPetstoreOrdersIndexRoute
+  '/demo/_authed/petstore_/users/': typeof DemoAuthedPetstoreUsersIndexRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
   fullPaths:
     | '/'
+    | '/api/openapi.json'
+    | '/demo'
     | '/demo/login'
-    | '/demo/petstore'
     | '/demo/petstore-ssr'
-    | '/demo/prisma'
+    | '/demo/register'
     | '/demo/tanstack-query'
+    | '/api/petstore/$'
+    | '/demo/api-explorer'
+    | '/demo/petstore'
+    | '/demo/prisma'
     | '/demo/api/names'
     | '/demo/api/tq-todos'
     | '/demo/form/address'
     | '/demo/form/simple'
     | '/demo/start/api-request'
     | '/demo/start/server-funcs'
+    | '/demo/petstore/users'
+    | '/demo/todo-invite/$token'
+    | '/demo/api/tq-todos/$id'
     | '/demo/start/ssr/data-only'
     | '/demo/start/ssr/full-ssr'
     | '/demo/start/ssr/spa-mode'
+    | '/mock/petstore/v2/$'
     | '/demo/start/ssr'
+    | '/demo/petstore/orders/$orderId'
+    | '/demo/petstore/pets/$petId'
+    | '/demo/petstore/users/$username'
+    | '/demo/petstore/orders'
+    | '/demo/petstore/users/'
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/'
+    | '/api/openapi.json'
+    | '/demo'
     | '/demo/login'
-    | '/demo/petstore'
     | '/demo/petstore-ssr'
-    | '/demo/prisma'
+    | '/demo/register'
     | '/demo/tanstack-query'
+    | '/api/petstore/$'
+    | '/demo/api-explorer'
+    | '/demo/petstore'
+    | '/demo/prisma'
     | '/demo/api/names'
     | '/demo/api/tq-todos'
     | '/demo/form/address'
     | '/demo/form/simple'
     | '/demo/start/api-request'
     | '/demo/start/server-funcs'
+    | '/demo/todo-invite/$token'
+    | '/demo/api/tq-todos/$id'
     | '/demo/start/ssr/data-only'
     | '/demo/start/ssr/full-ssr'
     | '/demo/start/ssr/spa-mode'
+    | '/mock/petstore/v2/$'
     | '/demo/start/ssr'
+    | '/demo/petstore/orders/$orderId'
+    | '/demo/petstore/pets/$petId'
+    | '/demo/petstore/users/$username'
+    | '/demo/petstore/orders'
+    | '/demo/petstore/users'
   id:
     | '__root__'
     | '/'
+    | '/api/openapi.json'
+    | '/demo'
+    | '/demo/_authed'
     | '/demo/login'
-    | '/demo/petstore'
     | '/demo/petstore-ssr'
-    | '/demo/prisma'
+    | '/demo/register'
     | '/demo/tanstack-query'
+    | '/api/petstore/$'
+    | '/demo/_authed/api-explorer'
+    | '/demo/_authed/petstore'
+    | '/demo/_authed/prisma'
     | '/demo/api/names'
     | '/demo/api/tq-todos'
     | '/demo/form/address'
     | '/demo/form/simple'
     | '/demo/start/api-request'
     | '/demo/start/server-funcs'
+    | '/demo/_authed/petstore_/users'
+    | '/demo/_authed/todo-invite/$token'
+    | '/demo/api/tq-todos/$id'
     | '/demo/start/ssr/data-only'
     | '/demo/start/ssr/full-ssr'
     | '/demo/start/ssr/spa-mode'
+    | '/mock/petstore/v2/$'
     | '/demo/start/ssr/'
+    | '/demo/_authed/petstore_/orders/$orderId'
+    | '/demo/_authed/petstore_/pets/$petId'
+    | '/demo/_authed/petstore_/users/$username'
+    | '/demo/_authed/petstore_/orders/'
+    | '/demo/_authed/petstore_/users/'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
-  DemoLoginRoute: typeof DemoLoginRoute
-  DemoPetstoreRoute: typeof DemoPetstoreRoute
-  DemoPetstoreSsrRoute: typeof DemoPetstoreSsrRoute
-  DemoPrismaRoute: typeof DemoPrismaRoute
-  DemoTanstackQueryRoute: typeof DemoTanstackQueryRoute
-  DemoApiNamesRoute: typeof DemoApiNamesRoute
-  DemoApiTqTodosRoute: typeof DemoApiTqTodosRoute
-  DemoFormAddressRoute: typeof DemoFormAddressRoute
-  DemoFormSimpleRoute: typeof DemoFormSimpleRoute
-  DemoStartApiRequestRoute: typeof DemoStartApiRequestRoute
-  DemoStartServerFuncsRoute: typeof DemoStartServerFuncsRoute
-  DemoStartSsrDataOnlyRoute: typeof DemoStartSsrDataOnlyRoute
-  DemoStartSsrFullSsrRoute: typeof DemoStartSsrFullSsrRoute
-  DemoStartSsrSpaModeRoute: typeof DemoStartSsrSpaModeRoute
-  DemoStartSsrIndexRoute: typeof DemoStartSsrIndexRoute
+  ApiOpenapiDotjsonRoute: typeof ApiOpenapiDotjsonRoute
+  DemoRoute: typeof DemoRouteWithChildren
+  ApiPetstoreSplatRoute: typeof ApiPetstoreSplatRoute
+  MockPetstoreV2SplatRoute: typeof MockPetstoreV2SplatRoute
 }
 
 declare module '@tanstack/react-router' {
   interface FileRoutesByPath {
+    '/demo': {
+      id: '/demo'
+      path: '/demo'
+      fullPath: '/demo'
+      preLoaderRoute: typeof DemoRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/': {
       id: '/'
       path: '/'
@@ -249,121 +427,290 @@ declare module '@tanstack/react-router' {
     }
     '/demo/tanstack-query': {
       id: '/demo/tanstack-query'
-      path: '/demo/tanstack-query'
+      path: '/tanstack-query'
       fullPath: '/demo/tanstack-query'
       preLoaderRoute: typeof DemoTanstackQueryRouteImport
-      parentRoute: typeof rootRouteImport
+      parentRoute: typeof DemoRoute
     }
-    '/demo/prisma': {
-      id: '/demo/prisma'
-      path: '/demo/prisma'
-      fullPath: '/demo/prisma'
-      preLoaderRoute: typeof DemoPrismaRouteImport
-      parentRoute: typeof rootRouteImport
+    '/demo/register': {
+      id: '/demo/register'
+      path: '/register'
+      fullPath: '/demo/register'
+      preLoaderRoute: typeof DemoRegisterRouteImport
+      parentRoute: typeof DemoRoute
     }
     '/demo/petstore-ssr': {
       id: '/demo/petstore-ssr'
-      path: '/demo/petstore-ssr'
+      path: '/petstore-ssr'
       fullPath: '/demo/petstore-ssr'
       preLoaderRoute: typeof DemoPetstoreSsrRouteImport
-      parentRoute: typeof rootRouteImport
-    }
-    '/demo/petstore': {
-      id: '/demo/petstore'
-      path: '/demo/petstore'
-      fullPath: '/demo/petstore'
-      preLoaderRoute: typeof DemoPetstoreRouteImport
-      parentRoute: typeof rootRouteImport
+      parentRoute: typeof DemoRoute
     }
     '/demo/login': {
       id: '/demo/login'
-      path: '/demo/login'
+      path: '/login'
       fullPath: '/demo/login'
       preLoaderRoute: typeof DemoLoginRouteImport
+      parentRoute: typeof DemoRoute
+    }
+    '/demo/_authed': {
+      id: '/demo/_authed'
+      path: '/demo'
+      fullPath: '/demo'
+      preLoaderRoute: typeof DemoAuthedRouteImport
+      parentRoute: typeof DemoRoute
+    }
+    '/api/openapi.json': {
+      id: '/api/openapi.json'
+      path: '/api/openapi.json'
+      fullPath: '/api/openapi.json'
+      preLoaderRoute: typeof ApiOpenapiDotjsonRouteImport
       parentRoute: typeof rootRouteImport
     }
     '/demo/start/server-funcs': {
       id: '/demo/start/server-funcs'
-      path: '/demo/start/server-funcs'
+      path: '/start/server-funcs'
       fullPath: '/demo/start/server-funcs'
       preLoaderRoute: typeof DemoStartServerFuncsRouteImport
-      parentRoute: typeof rootRouteImport
+      parentRoute: typeof DemoRoute
     }
     '/demo/start/api-request': {
       id: '/demo/start/api-request'
-      path: '/demo/start/api-request'
+      path: '/start/api-request'
       fullPath: '/demo/start/api-request'
       preLoaderRoute: typeof DemoStartApiRequestRouteImport
-      parentRoute: typeof rootRouteImport
+      parentRoute: typeof DemoRoute
     }
     '/demo/form/simple': {
       id: '/demo/form/simple'
-      path: '/demo/form/simple'
+      path: '/form/simple'
       fullPath: '/demo/form/simple'
       preLoaderRoute: typeof DemoFormSimpleRouteImport
-      parentRoute: typeof rootRouteImport
+      parentRoute: typeof DemoRoute
     }
     '/demo/form/address': {
       id: '/demo/form/address'
-      path: '/demo/form/address'
+      path: '/form/address'
       fullPath: '/demo/form/address'
       preLoaderRoute: typeof DemoFormAddressRouteImport
-      parentRoute: typeof rootRouteImport
+      parentRoute: typeof DemoRoute
     }
     '/demo/api/tq-todos': {
       id: '/demo/api/tq-todos'
-      path: '/demo/api/tq-todos'
+      path: '/api/tq-todos'
       fullPath: '/demo/api/tq-todos'
       preLoaderRoute: typeof DemoApiTqTodosRouteImport
-      parentRoute: typeof rootRouteImport
+      parentRoute: typeof DemoRoute
     }
     '/demo/api/names': {
       id: '/demo/api/names'
-      path: '/demo/api/names'
+      path: '/api/names'
       fullPath: '/demo/api/names'
       preLoaderRoute: typeof DemoApiNamesRouteImport
+      parentRoute: typeof DemoRoute
+    }
+    '/demo/_authed/prisma': {
+      id: '/demo/_authed/prisma'
+      path: '/prisma'
+      fullPath: '/demo/prisma'
+      preLoaderRoute: typeof DemoAuthedPrismaRouteImport
+      parentRoute: typeof DemoAuthedRoute
+    }
+    '/demo/_authed/petstore': {
+      id: '/demo/_authed/petstore'
+      path: '/petstore'
+      fullPath: '/demo/petstore'
+      preLoaderRoute: typeof DemoAuthedPetstoreRouteImport
+      parentRoute: typeof DemoAuthedRoute
+    }
+    '/demo/_authed/api-explorer': {
+      id: '/demo/_authed/api-explorer'
+      path: '/api-explorer'
+      fullPath: '/demo/api-explorer'
+      preLoaderRoute: typeof DemoAuthedApiExplorerRouteImport
+      parentRoute: typeof DemoAuthedRoute
+    }
+    '/api/petstore/$': {
+      id: '/api/petstore/$'
+      path: '/api/petstore/$'
+      fullPath: '/api/petstore/$'
+      preLoaderRoute: typeof ApiPetstoreSplatRouteImport
       parentRoute: typeof rootRouteImport
     }
     '/demo/start/ssr/': {
       id: '/demo/start/ssr/'
-      path: '/demo/start/ssr'
+      path: '/start/ssr'
       fullPath: '/demo/start/ssr'
       preLoaderRoute: typeof DemoStartSsrIndexRouteImport
+      parentRoute: typeof DemoRoute
+    }
+    '/mock/petstore/v2/$': {
+      id: '/mock/petstore/v2/$'
+      path: '/mock/petstore/v2/$'
+      fullPath: '/mock/petstore/v2/$'
+      preLoaderRoute: typeof MockPetstoreV2SplatRouteImport
       parentRoute: typeof rootRouteImport
     }
     '/demo/start/ssr/spa-mode': {
       id: '/demo/start/ssr/spa-mode'
-      path: '/demo/start/ssr/spa-mode'
+      path: '/start/ssr/spa-mode'
       fullPath: '/demo/start/ssr/spa-mode'
       preLoaderRoute: typeof DemoStartSsrSpaModeRouteImport
-      parentRoute: typeof rootRouteImport
+      parentRoute: typeof DemoRoute
     }
     '/demo/start/ssr/full-ssr': {
       id: '/demo/start/ssr/full-ssr'
-      path: '/demo/start/ssr/full-ssr'
+      path: '/start/ssr/full-ssr'
       fullPath: '/demo/start/ssr/full-ssr'
       preLoaderRoute: typeof DemoStartSsrFullSsrRouteImport
-      parentRoute: typeof rootRouteImport
+      parentRoute: typeof DemoRoute
     }
     '/demo/start/ssr/data-only': {
       id: '/demo/start/ssr/data-only'
-      path: '/demo/start/ssr/data-only'
+      path: '/start/ssr/data-only'
       fullPath: '/demo/start/ssr/data-only'
       preLoaderRoute: typeof DemoStartSsrDataOnlyRouteImport
-      parentRoute: typeof rootRouteImport
+      parentRoute: typeof DemoRoute
+    }
+    '/demo/api/tq-todos/$id': {
+      id: '/demo/api/tq-todos/$id'
+      path: '/$id'
+      fullPath: '/demo/api/tq-todos/$id'
+      preLoaderRoute: typeof DemoApiTqTodosIdRouteImport
+      parentRoute: typeof DemoApiTqTodosRoute
+    }
+    '/demo/_authed/todo-invite/$token': {
+      id: '/demo/_authed/todo-invite/$token'
+      path: '/todo-invite/$token'
+      fullPath: '/demo/todo-invite/$token'
+      preLoaderRoute: typeof DemoAuthedTodoInviteTokenRouteImport
+      parentRoute: typeof DemoAuthedRoute
+    }
+    '/demo/_authed/petstore_/users': {
+      id: '/demo/_authed/petstore_/users'
+      path: '/petstore/users'
+      fullPath: '/demo/petstore/users'
+      preLoaderRoute: typeof DemoAuthedPetstoreUsersRouteImport
+      parentRoute: typeof DemoAuthedRoute
+    }
+    '/demo/_authed/petstore_/users/': {
+      id: '/demo/_authed/petstore_/users/'
+      path: '/'
+      fullPath: '/demo/petstore/users/'
+      preLoaderRoute: typeof DemoAuthedPetstoreUsersIndexRouteImport
+      parentRoute: typeof DemoAuthedPetstoreUsersRoute
+    }
+    '/demo/_authed/petstore_/orders/': {
+      id: '/demo/_authed/petstore_/orders/'
+      path: '/petstore/orders'
+      fullPath: '/demo/petstore/orders'
+      preLoaderRoute: typeof DemoAuthedPetstoreOrdersIndexRouteImport
+      parentRoute: typeof DemoAuthedRoute
+    }
+    '/demo/_authed/petstore_/users/$username': {
+      id: '/demo/_authed/petstore_/users/$username'
+      path: '/$username'
+      fullPath: '/demo/petstore/users/$username'
+      preLoaderRoute: typeof DemoAuthedPetstoreUsersUsernameRouteImport
+      parentRoute: typeof DemoAuthedPetstoreUsersRoute
+    }
+    '/demo/_authed/petstore_/pets/$petId': {
+      id: '/demo/_authed/petstore_/pets/$petId'
+      path: '/petstore/pets/$petId'
+      fullPath: '/demo/petstore/pets/$petId'
+      preLoaderRoute: typeof DemoAuthedPetstorePetsPetIdRouteImport
+      parentRoute: typeof DemoAuthedRoute
+    }
+    '/demo/_authed/petstore_/orders/$orderId': {
+      id: '/demo/_authed/petstore_/orders/$orderId'
+      path: '/petstore/orders/$orderId'
+      fullPath: '/demo/petstore/orders/$orderId'
+      preLoaderRoute: typeof DemoAuthedPetstoreOrdersOrderIdRouteImport
+      parentRoute: typeof DemoAuthedRoute
     }
   }
 }
 
-const rootRouteChildren: RootRouteChildren = {
-  IndexRoute: IndexRoute,
+interface DemoAuthedPetstoreUsersRouteChildren {
+  DemoAuthedPetstoreUsersUsernameRoute: typeof DemoAuthedPetstoreUsersUsernameRoute
+  DemoAuthedPetstoreUsersIndexRoute: typeof DemoAuthedPetstoreUsersIndexRoute
+}
+
+const DemoAuthedPetstoreUsersRouteChildren: DemoAuthedPetstoreUsersRouteChildren =
+  {
+    DemoAuthedPetstoreUsersUsernameRoute: DemoAuthedPetstoreUsersUsernameRoute,
+    DemoAuthedPetstoreUsersIndexRoute: DemoAuthedPetstoreUsersIndexRoute,
+  }
+
+const DemoAuthedPetstoreUsersRouteWithChildren =
+  DemoAuthedPetstoreUsersRoute._addFileChildren(
+    DemoAuthedPetstoreUsersRouteChildren,
+  )
+
+interface DemoAuthedRouteChildren {
+  DemoAuthedApiExplorerRoute: typeof DemoAuthedApiExplorerRoute
+  DemoAuthedPetstoreRoute: typeof DemoAuthedPetstoreRoute
+  DemoAuthedPrismaRoute: typeof DemoAuthedPrismaRoute
+  DemoAuthedPetstoreUsersRoute: typeof DemoAuthedPetstoreUsersRouteWithChildren
+  DemoAuthedTodoInviteTokenRoute: typeof DemoAuthedTodoInviteTokenRoute
+  DemoAuthedPetstoreOrdersOrderIdRoute: typeof DemoAuthedPetstoreOrdersOrderIdRoute
+  DemoAuthedPetstorePetsPetIdRoute: typeof DemoAuthedPetstorePetsPetIdRoute
+  DemoAuthedPetstoreOrdersIndexRoute: typeof DemoAuthedPetstoreOrdersIndexRoute
+}
+
+const DemoAuthedRouteChildren: DemoAuthedRouteChildren = {
+  DemoAuthedApiExplorerRoute: DemoAuthedApiExplorerRoute,
+  DemoAuthedPetstoreRoute: DemoAuthedPetstoreRoute,
+  DemoAuthedPrismaRoute: DemoAuthedPrismaRoute,
+  DemoAuthedPetstoreUsersRoute: DemoAuthedPetstoreUsersRouteWithChildren,
+  DemoAuthedTodoInviteTokenRoute: DemoAuthedTodoInviteTokenRoute,
+  DemoAuthedPetstoreOrdersOrderIdRoute: DemoAuthedPetstoreOrdersOrderIdRoute,
+  DemoAuthedPetstorePetsPetIdRoute: DemoAuthedPetstorePetsPetIdRoute,
+  DemoAuthedPetstoreOrdersIndexRoute: DemoAuthedPetstoreOrdersIndexRoute,
+}
+
+const DemoAuthedRouteWithChildren = DemoAuthedRoute._addFileChildren(
+  DemoAuthedRouteChildren,
+)
+
+interface DemoApiTqTodosRouteChildren {
+  DemoApiTqTodosIdRoute: typeof DemoApiTqTodosIdRoute
+}
+
+const DemoApiTqTodosRouteChildren: DemoApiTqTodosRouteChildren = {
+  DemoApiTqTodosIdRoute: DemoApiTqTodosIdRoute,
+}
+
+const DemoApiTqTodosRouteWithChildren = DemoApiTqTodosRoute._addFileChildren(
+  DemoApiTqTodosRouteChildren,
+)
+
+interface DemoRouteChildren {
+  DemoAuthedRoute: typeof DemoAuthedRouteWithChildren
+  DemoLoginRoute: typeof DemoLoginRoute
+  DemoPetstoreSsrRoute: typeof DemoPetstoreSsrRoute
+  DemoRegisterRoute: typeof DemoRegisterRoute
+  DemoTanstackQueryRoute: typeof DemoTanstackQueryRoute
+  DemoApiNamesRoute: typeof DemoApiNamesRoute
+  DemoApiTqTodosRoute: typeof DemoApiTqTodosRouteWithChildren
+  DemoFormAddressRoute: typeof DemoFormAddressRoute
+  DemoFormSimpleRoute: typeof DemoFormSimpleRoute
+  DemoStartApiRequestRoute: typeof DemoStartApiRequestRoute
+  DemoStartServerFuncsRoute: typeof DemoStartServerFuncsRoute
+  DemoStartSsrDataOnlyRoute: typeof DemoStartSsrDataOnlyRoute
+  DemoStartSsrFullSsrRoute: typeof DemoStartSsrFullSsrRoute
+  DemoStartSsrSpaModeRoute: typeof DemoStartSsrSpaModeRoute
+  DemoStartSsrIndexRoute: typeof DemoStartSsrIndexRoute
+}
+
+const DemoRouteChildren: DemoRouteChildren = {
+  DemoAuthedRoute: DemoAuthedRouteWithChildren,
   DemoLoginRoute: DemoLoginRoute,
-  DemoPetstoreRoute: DemoPetstoreRoute,
   DemoPetstoreSsrRoute: DemoPetstoreSsrRoute,
-  DemoPrismaRoute: DemoPrismaRoute,
+  DemoRegisterRoute: DemoRegisterRoute,
   DemoTanstackQueryRoute: DemoTanstackQueryRoute,
   DemoApiNamesRoute: DemoApiNamesRoute,
-  DemoApiTqTodosRoute: DemoApiTqTodosRoute,
+  DemoApiTqTodosRoute: DemoApiTqTodosRouteWithChildren,
   DemoFormAddressRoute: DemoFormAddressRoute,
   DemoFormSimpleRoute: DemoFormSimpleRoute,
   DemoStartApiRequestRoute: DemoStartApiRequestRoute,
@@ -373,6 +720,16 @@ const rootRouteChildren: RootRouteChildren = {
   DemoStartSsrSpaModeRoute: DemoStartSsrSpaModeRoute,
   DemoStartSsrIndexRoute: DemoStartSsrIndexRoute,
 }
+
+const DemoRouteWithChildren = DemoRoute._addFileChildren(DemoRouteChildren)
+
+const rootRouteChildren: RootRouteChildren = {
+  IndexRoute: IndexRoute,
+  ApiOpenapiDotjsonRoute: ApiOpenapiDotjsonRoute,
+  DemoRoute: DemoRouteWithChildren,
+  ApiPetstoreSplatRoute: ApiPetstoreSplatRoute,
+  MockPetstoreV2SplatRoute: MockPetstoreV2SplatRoute,
+}
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
   ._addFileTypes<FileRouteTypes>()
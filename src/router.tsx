@@ -1,7 +1,13 @@
 import { createRouter } from "@tanstack/react-router";
 import { setupRouterSsrQueryIntegration } from "@tanstack/react-router-ssr-query";
+import {
+	createPetstoreClient,
+	PETSTORE_PROXY_PATH,
+} from "./api/petstore-client";
+import { setupPetstoreOfflineQueue } from "./api/petstore-hooks";
 import { AuthProvider } from "./contexts/auth";
 import * as TanstackQuery from "./integrations/tanstack-query/root-provider";
+import { getPetstoreToken } from "./lib/auth";
 // Import the generated route tree
 import { routeTree } from "./routeTree.gen";
 
@@ -9,9 +15,23 @@ import { routeTree } from "./routeTree.gen";
 export const getRouter = () => {
 	const rqContext = TanstackQuery.getContext();
 
+	// getRouter runs once per request on the server, so this client is never
+	// shared between users and can read the token from the session. The
+	// browser never sees the token: its requests go through the proxy.
+	const petstoreClient = createPetstoreClient(
+		typeof window === "undefined"
+			? { auth: getPetstoreToken }
+			: { baseUrl: `${window.location.origin}${PETSTORE_PROXY_PATH}` },
+	);
+
+	// Mutations made while offline are queued and replayed once back online
+	if (typeof window !== "undefined") {
+		setupPetstoreOfflineQueue(rqContext.queryClient, petstoreClient);
+	}
+
 	const router = createRouter({
 		routeTree,
-		context: { ...rqContext },
+		context: { ...rqContext, petstoreClient },
 		defaultPreload: "intent",
 		Wrap: (props: { children: React.ReactNode }) => {
 			return (
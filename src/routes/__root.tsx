@@ -6,21 +6,24 @@ import {
 	Scripts,
 } from "@tanstack/react-router";
 import { TanStackRouterDevtoolsPanel } from "@tanstack/react-router-devtools";
+import type { Client } from "@/api/petstore/client";
 
+import type { CurrentUser } from "@/server/auth";
 import Header from "../components/Header";
+import { OfflineQueueIndicator } from "../components/OfflineQueueIndicator";
+import PetstoreDevtools from "../integrations/petstore/devtools";
 import TanStackQueryDevtools from "../integrations/tanstack-query/devtools";
 import appCss from "../styles.css?url";
 
 interface MyRouterContext {
 	queryClient: QueryClient;
+	// Request-scoped Petstore client, see `createPetstoreClient`
+	petstoreClient: Client;
+	// Set by the `_authed` layout for routes that require a signed-in user
+	user?: CurrentUser;
 }
 
 export const Route = createRootRouteWithContext<MyRouterContext>()({
-	beforeLoad: () => {
-		return {
-			abc: 123,
-		};
-	},
 	head: () => ({
 		meta: [
 			{
@@ -54,6 +57,7 @@ function RootDocument({ children }: { children: React.ReactNode }) {
 			<body>
 				<Header />
 				{children}
+				<OfflineQueueIndicator />
 				<TanStackDevtools
 					config={{
 						position: "bottom-right",
@@ -64,6 +68,7 @@ function RootDocument({ children }: { children: React.ReactNode }) {
 							render: <TanStackRouterDevtoolsPanel />,
 						},
 						TanStackQueryDevtools,
+						PetstoreDevtools,
 					]}
 				/>
 				<Scripts />
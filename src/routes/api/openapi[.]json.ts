@@ -0,0 +1,29 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { buildOpenApiDocument } from "@/server/openapi";
+import { Route as NamesRoute } from "../demo/api.names";
+import { Route as TqTodosRoute } from "../demo/api.tq-todos";
+import { Route as TqTodoRoute } from "../demo/api.tq-todos.$id";
+
+// OpenAPI 3.1 description of our own server routes. Point `openapi-ts` (or
+// any other generator) at /api/openapi.json to build a client for them.
+export const Route = createFileRoute("/api/openapi.json")({
+	server: {
+		handlers: {
+			GET: () =>
+				Response.json(
+					buildOpenApiDocument({
+						info: {
+							title: "hell0-tanstack API",
+							version: "1.0.0",
+							description: "Server routes published by this app",
+						},
+						paths: {
+							"/demo/api/names": NamesRoute,
+							"/demo/api/tq-todos": TqTodosRoute,
+							"/demo/api/tq-todos/{id}": TqTodoRoute,
+						},
+					}),
+				),
+		},
+	},
+});
@@ -0,0 +1,18 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { proxyPetstoreRequest } from "@/server/petstore-proxy";
+
+// Same-origin proxy used by the browser's Petstore client
+export const Route = createFileRoute("/api/petstore/$")({
+	server: {
+		handlers: {
+			GET: ({ request, params }) =>
+				proxyPetstoreRequest(request, params._splat),
+			POST: ({ request, params }) =>
+				proxyPetstoreRequest(request, params._splat),
+			PUT: ({ request, params }) =>
+				proxyPetstoreRequest(request, params._splat),
+			DELETE: ({ request, params }) =>
+				proxyPetstoreRequest(request, params._splat),
+		},
+	},
+});
@@ -0,0 +1,317 @@
+import { useMutation } from "@tanstack/react-query";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useMemo } from "react";
+import { z } from "zod";
+import {
+	formDataBodySerializer,
+	urlSearchParamsBodySerializer,
+} from "@/api/petstore/client";
+import { createPetstoreClient } from "@/api/petstore-client";
+import { usePetstoreClient } from "@/api/petstore-hooks";
+import { useAppForm } from "@/hooks/demo.form";
+import {
+	buildExplorerRequest,
+	defaultExplorerValues,
+	type ExplorerOperation,
+	type ExplorerValues,
+	fieldName,
+	parseSwagger,
+	type SwaggerParameter,
+} from "@/lib/swagger-explorer";
+import petstoreSwagger from "../../../petstore-openapi.json?raw";
+
+const spec = parseSwagger(petstoreSwagger);
+const operations = spec.tags.flatMap((tag) => tag.operations);
+
+export const Route = createFileRoute("/demo/_authed/api-explorer")({
+	component: ApiExplorer,
+	// `?op=<operationId>` selects the operation to try
+	validateSearch: z.object({ op: z.string().optional() }),
+});
+
+const METHOD_COLORS: Record<ExplorerOperation["method"], string> = {
+	GET: "bg-blue-600",
+	POST: "bg-green-600",
+	PUT: "bg-amber-600",
+	PATCH: "bg-teal-600",
+	DELETE: "bg-red-600",
+};
+
+function MethodBadge({ method }: { method: ExplorerOperation["method"] }) {
+	return (
+		<span
+			className={`inline-block w-16 text-center text-xs font-bold rounded px-1.5 py-0.5 text-white ${METHOD_COLORS[method]}`}
+		>
+			{method}
+		</span>
+	);
+}
+
+function ApiExplorer() {
+	const { op } = Route.useSearch();
+	const operation = operations.find((candidate) => candidate.id === op);
+
+	return (
+		<div className="container mx-auto p-6">
+			<h1 className="text-3xl font-bold mb-1">API Explorer</h1>
+			<p className="text-gray-600 mb-6">
+				{spec.title} {spec.version}. Calls go through the app's Petstore client,
+				so they use the token saved on the{" "}
+				<Link to="/demo/petstore" className="text-blue-600 hover:underline">
+					Petstore page
+				</Link>
+				.
+			</p>
+
+			<div className="grid gap-6 md:grid-cols-[20rem_1fr]">
+				<nav aria-label="Operations" className="space-y-6">
+					{spec.tags.map((tag) => (
+						<section key={tag.name}>
+							<h2 className="text-lg font-semibold capitalize">{tag.name}</h2>
+							{tag.description && (
+								<p className="text-sm text-gray-500 mb-2">{tag.description}</p>
+							)}
+							<ul className="space-y-1">
+								{tag.operations.map((candidate) => (
+									<li key={candidate.id}>
+										<Link
+											to="/demo/api-explorer"
+											search={{ op: candidate.id }}
+											className={`flex items-center gap-2 rounded px-2 py-1 text-sm hover:bg-gray-100 ${
+												candidate.id === op ? "bg-gray-100 font-medium" : ""
+											} ${candidate.deprecated ? "line-through opacity-60" : ""}`}
+										>
+											<MethodBadge method={candidate.method} />
+											<span className="font-mono truncate">
+												{candidate.path}
+											</span>
+										</Link>
+									</li>
+								))}
+							</ul>
+						</section>
+					))}
+				</nav>
+
+				<main>
+					{operation ? (
+						<OperationPanel key={operation.id} operation={operation} />
+					) : (
+						<p className="text-gray-500">Pick an operation to try it.</p>
+					)}
+				</main>
+			</div>
+		</div>
+	);
+}
+
+type ExplorerResult = {
+	status: number;
+	statusText: string;
+	durationMs: number;
+	headers: Array<[string, string]>;
+	body: string;
+};
+
+function formatBody(text: string) {
+	try {
+		return JSON.stringify(JSON.parse(text), null, 2);
+	} catch {
+		return text;
+	}
+}
+
+function OperationPanel({ operation }: { operation: ExplorerOperation }) {
+	const appClient = usePetstoreClient();
+	// Same endpoint and circuit breakers as the app's client, but without
+	// retries, so the timing below covers a single attempt
+	const client = useMemo(
+		() =>
+			createPetstoreClient({
+				baseUrl: appClient.getConfig().baseUrl,
+				resilience: { retry: false },
+			}),
+		[appClient],
+	);
+
+	const execute = useMutation({
+		mutationFn: async (values: ExplorerValues): Promise<ExplorerResult> => {
+			const { bodyEncoding, ...request } = buildExplorerRequest(
+				operation,
+				values,
+			);
+
+			const started = performance.now();
+			const { response, data, error } = await client.request({
+				method: operation.method,
+				url: operation.path,
+				...request,
+				security: operation.security,
+				bodySerializer:
+					bodyEncoding === "multipart"
+						? formDataBodySerializer.bodySerializer
+						: bodyEncoding === "urlencoded"
+							? urlSearchParamsBodySerializer.bodySerializer
+							: undefined,
+				// Keep the raw text so any response can be shown as-is
+				parseAs: "text",
+			});
+			const durationMs = performance.now() - started;
+
+			// No response: the request failed before reaching the API
+			if (!response) {
+				throw error instanceof Error
+					? error
+					: new Error("Network error: the request didn't reach the API");
+			}
+
+			const body = data ?? error;
+			return {
+				status: response.status,
+				statusText: response.statusText,
+				durationMs,
+				headers: [...response.headers.entries()],
+				body: formatBody(
+					typeof body === "string" ? body : JSON.stringify(body ?? ""),
+				),
+			};
+		},
+	});
+
+	const form = useAppForm({
+		defaultValues: defaultExplorerValues(operation),
+		onSubmit: ({ value }) => execute.mutateAsync(value).catch(() => {}),
+	});
+
+	return (
+		<div className="space-y-6">
+			<header>
+				<div className="flex items-center gap-3">
+					<MethodBadge method={operation.method} />
+					<code className="text-lg">{operation.path}</code>
+				</div>
+				<h2 className="text-2xl font-semibold mt-2">{operation.summary}</h2>
+				{operation.description && (
+					<p className="text-gray-600">{operation.description}</p>
+				)}
+				{operation.deprecated && (
+					<p className="text-amber-600 font-medium">Deprecated</p>
+				)}
+			</header>
+
+			<form
+				onSubmit={(e) => {
+					e.preventDefault();
+					e.stopPropagation();
+					form.handleSubmit();
+				}}
+				className="space-y-4"
+			>
+				{operation.parameters.length === 0 && (
+					<p className="text-gray-500">This operation takes no parameters.</p>
+				)}
+				{operation.parameters.map((parameter) =>
+					parameter.type === "file" ? (
+						<p key={fieldName(parameter)} className="text-sm text-gray-500">
+							{parameter.name}: file uploads aren't supported in the explorer.
+						</p>
+					) : (
+						<form.AppField
+							key={fieldName(parameter)}
+							name={fieldName(parameter)}
+							validators={{
+								onBlur: ({ value }) =>
+									parameter.required && !String(value ?? "").trim()
+										? `${parameter.name} is required`
+										: undefined,
+							}}
+						>
+							{(field) => {
+								const label = describe(parameter);
+								if (parameter.in === "body") {
+									return <field.TextArea label={label} rows={12} />;
+								}
+								if (parameter.enum) {
+									return (
+										<field.Select
+											label={label}
+											values={parameter.enum.map((value) => ({
+												label: value,
+												value,
+											}))}
+											placeholder={`Select ${parameter.name}`}
+										/>
+									);
+								}
+								return (
+									<field.TextField
+										label={label}
+										placeholder={parameter.description}
+									/>
+								);
+							}}
+						</form.AppField>
+					),
+				)}
+				<form.AppForm>
+					<form.SubscribeButton label="Send request" />
+				</form.AppForm>
+			</form>
+
+			{execute.error && (
+				<p className="text-red-600 font-medium">{execute.error.message}</p>
+			)}
+			{execute.data && <ResultPanel result={execute.data} />}
+		</div>
+	);
+}
+
+function describe(parameter: SwaggerParameter) {
+	const type =
+		parameter.type === "array"
+			? `${parameter.items?.type ?? "string"}[], comma-separated`
+			: (parameter.type ?? "JSON");
+	const choices = parameter.items?.enum ?? parameter.enum;
+
+	return [
+		`${parameter.name} (${parameter.in}, ${type})${parameter.required ? " *" : ""}`,
+		choices && `one of: ${choices.join(", ")}`,
+	]
+		.filter(Boolean)
+		.join(" — ");
+}
+
+function ResultPanel({ result }: { result: ExplorerResult }) {
+	const ok = result.status >= 200 && result.status < 300;
+
+	return (
+		<section className="space-y-3">
+			<div className="flex items-center gap-4">
+				<span
+					className={`font-bold text-lg ${ok ? "text-green-600" : "text-red-600"}`}
+				>
+					{result.status} {result.statusText}
+				</span>
+				<span className="text-gray-500">{result.durationMs.toFixed(0)} ms</span>
+			</div>
+
+			<details>
+				<summary className="cursor-pointer font-medium">
+					Headers ({result.headers.length})
+				</summary>
+				<dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 text-sm font-mono">
+					{result.headers.map(([name, value]) => (
+						<div key={name} className="contents">
+							<dt className="text-gray-500">{name}</dt>
+							<dd className="break-all">{value}</dd>
+						</div>
+					))}
+				</dl>
+			</details>
+
+			<pre className="bg-gray-900 text-gray-100 rounded-lg p-4 overflow-auto max-h-[32rem] text-sm">
+				{result.body || "(empty body)"}
+			</pre>
+		</section>
+	);
+}
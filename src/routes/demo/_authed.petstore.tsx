@@ -0,0 +1,767 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CatchBoundary, createFileRoute, Link } from "@tanstack/react-router";
+import { useServerFn } from "@tanstack/react-start";
+import { Suspense, useId, useState } from "react";
+import type { Pet } from "../../api/petstore/types.gen";
+import {
+	invalidateInventoryQueries,
+	invalidatePetQueries,
+	invalidateStoreQueries,
+	petsByStatusQuery,
+	useAddPet,
+	useDeletePet,
+	useFindPetsByStatus,
+	useFindPetsByTags,
+	useGetInventory,
+	useGetPetById,
+	usePetstoreAccount,
+	usePetstoreClient,
+	usePlaceOrder,
+	useUpdatePet,
+} from "../../api/petstore-hooks";
+import {
+	PetstoreErrorAlert,
+	PetstoreErrorComponent,
+} from "../../components/PetstoreErrorAlert";
+import { TagCombobox } from "../../components/TagCombobox";
+import { UndoToast, useUndoToast } from "../../components/UndoToast";
+import { Button } from "../../components/ui/button";
+import { Input } from "../../components/ui/input";
+import { Label } from "../../components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "../../components/ui/select";
+import { useCan } from "../../contexts/auth";
+import { rememberOrder } from "../../hooks/use-recent-orders";
+import {
+	clearPetstoreTokenFn,
+	getPetstoreTokenStatusFn,
+	setPetstoreTokenFn,
+} from "../../lib/auth";
+import {
+	collectTagNames,
+	PET_STATUSES,
+	type PetFilters,
+	type PetStatus,
+	paginate,
+	petFiltersSchema,
+} from "../../lib/pet-filters";
+
+export const Route = createFileRoute("/demo/_authed/petstore")({
+	component: PetstoreDemo,
+	// `?status=` and `?tags=` filter the pet list; `?page=` pages through it
+	validateSearch: petFiltersSchema,
+	errorComponent: (props) => (
+		<div className="container mx-auto p-6">
+			<PetstoreErrorComponent {...props} />
+		</div>
+	),
+});
+
+function PetstoreDemo() {
+	const filters = Route.useSearch();
+	const [petId, setPetId] = useState<string>("");
+	const [newPetName, setNewPetName] = useState<string>("");
+	const [newPetPhotoUrl, setNewPetPhotoUrl] = useState<string>("");
+	const [addPetMessage, setAddPetMessage] = useState<{
+		kind: "added" | "invalid";
+		text: string;
+	}>();
+	const lookupId = Number.parseInt(petId, 10);
+
+	const queryClient = useQueryClient();
+	const canCreate = useCan("pets:create");
+	const canManageUsers = useCan("users:manage");
+
+	const addPetMutation = useAddPet({
+		onSuccess: (_pet, variables) => {
+			invalidatePetQueries(queryClient);
+			setNewPetName("");
+			setNewPetPhotoUrl("");
+			setAddPetMessage({ kind: "added", text: `Added ${variables.name}.` });
+			invalidateInventoryQueries(queryClient);
+		},
+	});
+
+	const handleAddPet = () => {
+		if (!newPetName || !newPetPhotoUrl) {
+			setAddPetMessage({
+				kind: "invalid",
+				text: "Please provide both name and photo URL.",
+			});
+			return;
+		}
+
+		setAddPetMessage(undefined);
+		addPetMutation.mutate({
+			name: newPetName,
+			photoUrls: [newPetPhotoUrl],
+			status: "available",
+		});
+	};
+
+	return (
+		<div className="container mx-auto p-6 space-y-8">
+			<div>
+				<h1 className="text-3xl font-bold mb-2">Petstore API Demo</h1>
+				<p className="text-gray-600">
+					Integration with Swagger Petstore using OpenAPI Generator + TanStack
+					Query
+				</p>
+				<div className="flex gap-4">
+					<Link
+						to="/demo/petstore/orders"
+						className="text-sm text-blue-600 hover:underline"
+					>
+						Your orders &rarr;
+					</Link>
+					{canManageUsers && (
+						<Link
+							to="/demo/petstore/users"
+							className="text-sm text-blue-600 hover:underline"
+						>
+							Users &rarr;
+						</Link>
+					)}
+				</div>
+			</div>
+
+			<PetstoreTokenSection />
+
+			{/* Store Inventory Section */}
+			<section className="border rounded-lg p-6 bg-white shadow-sm">
+				<h2 className="text-2xl font-semibold mb-4">Store Inventory</h2>
+				<CatchBoundary
+					getResetKey={() => "inventory"}
+					errorComponent={PetstoreErrorComponent}
+				>
+					<Suspense
+						fallback={<p className="text-gray-500">Loading inventory...</p>}
+					>
+						<StoreInventory />
+					</Suspense>
+				</CatchBoundary>
+			</section>
+
+			{/* Add Pet Section */}
+			{canCreate && (
+				<section className="border rounded-lg p-6 bg-white shadow-sm">
+					<h2 className="text-2xl font-semibold mb-4">Add New Pet</h2>
+					<div className="space-y-4">
+						{addPetMutation.error && (
+							<PetstoreErrorAlert error={addPetMutation.error} />
+						)}
+						{addPetMessage && (
+							<p
+								role={addPetMessage.kind === "invalid" ? "alert" : "status"}
+								className={`text-sm ${addPetMessage.kind === "invalid" ? "text-red-600" : "text-green-700"}`}
+							>
+								{addPetMessage.text}
+							</p>
+						)}
+						<div className="grid grid-cols-2 gap-4">
+							<div>
+								<Label htmlFor="petName">Pet Name</Label>
+								<Input
+									id="petName"
+									placeholder="Enter pet name"
+									value={newPetName}
+									onChange={(e) => setNewPetName(e.target.value)}
+								/>
+							</div>
+							<div>
+								<Label htmlFor="photoUrl">Photo URL</Label>
+								<Input
+									id="photoUrl"
+									placeholder="Enter photo URL"
+									value={newPetPhotoUrl}
+									onChange={(e) => setNewPetPhotoUrl(e.target.value)}
+								/>
+							</div>
+						</div>
+						<Button
+							onClick={handleAddPet}
+							disabled={addPetMutation.isPending}
+							className="w-full"
+						>
+							{addPetMutation.isPending ? "Adding..." : "Add Pet"}
+						</Button>
+					</div>
+				</section>
+			)}
+
+			{/* Find Pets */}
+			<section className="border rounded-lg p-6 bg-white shadow-sm">
+				<h2 className="text-2xl font-semibold mb-4">Find Pets</h2>
+				<PetFilterBar filters={filters} />
+
+				<CatchBoundary
+					getResetKey={() => JSON.stringify([filters.status, filters.tags])}
+					errorComponent={PetstoreErrorComponent}
+				>
+					<Suspense fallback={<p className="text-gray-500">Loading pets...</p>}>
+						{filters.tags.length > 0 ? (
+							<PetsByTags filters={filters} onDeleted={() => setPetId("")} />
+						) : (
+							<PetsByStatus filters={filters} onDeleted={() => setPetId("")} />
+						)}
+					</Suspense>
+				</CatchBoundary>
+			</section>
+
+			{/* Get Pet by ID */}
+			<section className="border rounded-lg p-6 bg-white shadow-sm">
+				<h2 className="text-2xl font-semibold mb-4">Get Pet by ID</h2>
+				<div className="mb-4">
+					<Label htmlFor="petId">Pet ID</Label>
+					<Input
+						id="petId"
+						type="number"
+						placeholder="Enter pet ID"
+						value={petId}
+						onChange={(e) => setPetId(e.target.value)}
+					/>
+				</div>
+
+				<CatchBoundary
+					getResetKey={() => petId}
+					errorComponent={PetstoreErrorComponent}
+				>
+					{lookupId > 0 && (
+						<Suspense
+							fallback={<p className="text-gray-500">Loading pet...</p>}
+						>
+							<PetLookup petId={lookupId} />
+						</Suspense>
+					)}
+				</CatchBoundary>
+			</section>
+		</div>
+	);
+}
+
+function StoreInventory() {
+	const { data: inventory } = useGetInventory({ staleTime: 10000 });
+
+	return (
+		<div className="grid grid-cols-3 gap-4">
+			{Object.entries(inventory).map(([status, count]) => (
+				<div key={status} className="border rounded p-4 bg-gray-50 text-center">
+					<div className="text-2xl font-bold text-blue-600">{count}</div>
+					<div className="text-sm text-gray-600 capitalize">{status}</div>
+				</div>
+			))}
+		</div>
+	);
+}
+
+const STATUS_LABELS: Record<PetStatus, string> = {
+	available: "Available",
+	pending: "Pending",
+	sold: "Sold",
+};
+
+function PetFilterBar({ filters }: { filters: PetFilters }) {
+	const navigate = Route.useNavigate();
+	const client = usePetstoreClient();
+	const account = usePetstoreAccount();
+
+	// Suggest the tags of pets with the selected status; shares the list's
+	// cache entry when no tags are picked
+	const { data: statusPets = [] } = useQuery(
+		petsByStatusQuery(client, account, [filters.status]),
+	);
+	const suggestions = collectTagNames(statusPets);
+
+	// Any filter change starts again from the first page
+	const setFilters = (patch: Partial<PetFilters>) =>
+		navigate({
+			search: (prev) => ({ ...prev, ...patch, page: undefined }),
+			replace: true,
+		});
+
+	return (
+		<div className="grid grid-cols-1 md:grid-cols-[12rem_1fr] gap-4 mb-4">
+			<div>
+				<Label htmlFor="status">Status</Label>
+				<Select
+					value={filters.status}
+					onValueChange={(value) => setFilters({ status: value as PetStatus })}
+				>
+					<SelectTrigger id="status">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						{PET_STATUSES.map((status) => (
+							<SelectItem key={status} value={status}>
+								{STATUS_LABELS[status]}
+							</SelectItem>
+						))}
+					</SelectContent>
+				</Select>
+			</div>
+			<TagCombobox
+				label="Tags"
+				value={filters.tags}
+				onChange={(tags) => setFilters({ tags })}
+				suggestions={suggestions}
+				placeholder="Any tag"
+			/>
+		</div>
+	);
+}
+
+function PetsByStatus({
+	filters,
+	onDeleted,
+}: {
+	filters: PetFilters;
+	onDeleted: () => void;
+}) {
+	const { data: pets } = useFindPetsByStatus([filters.status]);
+
+	return (
+		<PetResults
+			pets={pets}
+			filters={filters}
+			summary={`with status "${filters.status}"`}
+			onDeleted={onDeleted}
+		/>
+	);
+}
+
+// The Petstore can't combine tags with a status, so the status is applied here
+function PetsByTags({
+	filters,
+	onDeleted,
+}: {
+	filters: PetFilters;
+	onDeleted: () => void;
+}) {
+	const { data } = useFindPetsByTags(filters.tags);
+	const pets = data.filter((pet) => pet.status === filters.status);
+
+	return (
+		<PetResults
+			pets={pets}
+			filters={filters}
+			summary={`with status "${filters.status}" tagged ${filters.tags.join(" or ")}`}
+			onDeleted={onDeleted}
+		/>
+	);
+}
+
+function PetResults({
+	pets: allPets,
+	filters,
+	summary,
+	onDeleted,
+}: {
+	pets: Array<Pet>;
+	filters: PetFilters;
+	summary: string;
+	onDeleted: () => void;
+}) {
+	const canUpdate = useCan("pets:update");
+	const canDelete = useCan("pets:delete");
+	const undoToast = useUndoToast();
+
+	const {
+		items: pets,
+		page,
+		pageCount,
+		start,
+	} = paginate(allPets, filters.page);
+
+	// Changes show up in every list and the inventory straight away, and
+	// are rolled back if the Petstore rejects them
+	const updatePetMutation = useUpdatePet({ optimistic: true });
+	const deletePetMutation = useDeletePet({
+		optimistic: true,
+		onSuccess: onDeleted,
+	});
+	// Undoing a delete adds the pet back with the same ID
+	const restorePetMutation = useAddPet({ optimistic: true });
+
+	const handleUpdatePet = (pet: Pet) => {
+		const newStatus =
+			pet.status === "available"
+				? "pending"
+				: pet.status === "pending"
+					? "sold"
+					: "available";
+
+		undoToast.dismiss();
+		updatePetMutation.mutate(
+			{
+				...pet,
+				status: newStatus,
+			},
+			{
+				onSuccess: () =>
+					undoToast.show({
+						message: `${pet.name} is now ${newStatus}.`,
+						undo: () => updatePetMutation.mutate(pet),
+					}),
+			},
+		);
+	};
+
+	const handleDeletePet = (pet: Pet & { id: number }) => {
+		undoToast.dismiss();
+		deletePetMutation.mutate(pet.id, {
+			onSuccess: () =>
+				undoToast.show({
+					message: `Deleted ${pet.name}.`,
+					undo: () => restorePetMutation.mutate(pet),
+				}),
+		});
+	};
+
+	const mutationError =
+		updatePetMutation.error ??
+		deletePetMutation.error ??
+		restorePetMutation.error;
+
+	return (
+		<div>
+			{mutationError && (
+				<div className="mb-4">
+					<PetstoreErrorAlert error={mutationError} />
+				</div>
+			)}
+			<p className="text-sm text-gray-600 mb-4">
+				Found {allPets.length} pet(s) {summary}
+				{pets.length > 0 &&
+					pageCount > 1 &&
+					`, showing ${start + 1}-${start + pets.length}`}
+			</p>
+			<div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+				{pets.map((pet) => (
+					<div
+						key={pet.id}
+						className="border rounded-lg p-4 bg-gray-50 space-y-2"
+					>
+						<div className="flex justify-between items-start">
+							<h3 className="font-semibold">
+								{pet.id ? (
+									<Link
+										to="/demo/petstore/pets/$petId"
+										params={{ petId: pet.id }}
+										className="hover:underline"
+									>
+										{pet.name}
+									</Link>
+								) : (
+									pet.name
+								)}
+							</h3>
+							<span
+								className={`text-xs px-2 py-1 rounded ${
+									pet.status === "available"
+										? "bg-green-100 text-green-800"
+										: pet.status === "pending"
+											? "bg-yellow-100 text-yellow-800"
+											: "bg-gray-100 text-gray-800"
+								}`}
+							>
+								{pet.status}
+							</span>
+						</div>
+						<p className="text-sm text-gray-600">ID: {pet.id}</p>
+						{pet.category && (
+							<p className="text-sm text-gray-600">
+								Category: {pet.category.name}
+							</p>
+						)}
+						<div className="flex gap-2 mt-2">
+							{canUpdate && (
+								<Button
+									size="sm"
+									variant="outline"
+									onClick={() => handleUpdatePet(pet)}
+									disabled={updatePetMutation.isPending}
+								>
+									Change Status
+								</Button>
+							)}
+							{canDelete && (
+								<Button
+									size="sm"
+									variant="outline"
+									onClick={() =>
+										pet.id !== undefined &&
+										handleDeletePet({ ...pet, id: pet.id })
+									}
+									disabled={deletePetMutation.isPending}
+									className="text-red-600 hover:text-red-700"
+								>
+									Delete
+								</Button>
+							)}
+						</div>
+						{pet.status === "available" && pet.id !== undefined && (
+							<BuyPet petId={pet.id} />
+						)}
+					</div>
+				))}
+			</div>
+			<Pagination page={page} pageCount={pageCount} />
+			<UndoToast action={undoToast.action} onDismiss={undoToast.dismiss} />
+		</div>
+	);
+}
+
+function todayIso() {
+	return new Date().toISOString().slice(0, 10);
+}
+
+// Orders an available pet, then opens the new order
+function BuyPet({ petId }: { petId: number }) {
+	const navigate = Route.useNavigate();
+	const queryClient = useQueryClient();
+	const quantityId = useId();
+	const shipDateId = useId();
+	const [open, setOpen] = useState(false);
+	const [quantity, setQuantity] = useState("1");
+	const [shipDate, setShipDate] = useState(todayIso);
+
+	const placeOrderMutation = usePlaceOrder({
+		onSuccess: (order) => {
+			invalidateStoreQueries(queryClient);
+			if (order.id === undefined) {
+				navigate({ to: "/demo/petstore/orders" });
+				return;
+			}
+			rememberOrder(order.id);
+			navigate({
+				to: "/demo/petstore/orders/$orderId",
+				params: { orderId: order.id },
+			});
+		},
+	});
+
+	if (!open) {
+		return (
+			<Button size="sm" onClick={() => setOpen(true)}>
+				Buy
+			</Button>
+		);
+	}
+
+	return (
+		<form
+			className="space-y-2 border-t pt-2"
+			onSubmit={(e) => {
+				e.preventDefault();
+				placeOrderMutation.mutate({
+					petId,
+					quantity: Math.max(1, Number.parseInt(quantity, 10) || 1),
+					shipDate: new Date(shipDate).toISOString(),
+					status: "placed",
+					complete: false,
+				});
+			}}
+		>
+			{placeOrderMutation.error && (
+				<PetstoreErrorAlert error={placeOrderMutation.error} />
+			)}
+			<div className="grid grid-cols-2 gap-2">
+				<div>
+					<Label htmlFor={quantityId}>Quantity</Label>
+					<Input
+						id={quantityId}
+						type="number"
+						min={1}
+						value={quantity}
+						onChange={(e) => setQuantity(e.target.value)}
+					/>
+				</div>
+				<div>
+					<Label htmlFor={shipDateId}>Ship date</Label>
+					<Input
+						id={shipDateId}
+						type="date"
+						min={todayIso()}
+						required
+						value={shipDate}
+						onChange={(e) => setShipDate(e.target.value)}
+					/>
+				</div>
+			</div>
+			<div className="flex gap-2">
+				<Button size="sm" type="submit" disabled={placeOrderMutation.isPending}>
+					{placeOrderMutation.isPending ? "Placing order..." : "Place order"}
+				</Button>
+				<Button
+					size="sm"
+					type="button"
+					variant="outline"
+					onClick={() => setOpen(false)}
+				>
+					Cancel
+				</Button>
+			</div>
+		</form>
+	);
+}
+
+// Page links keep the other filters, so every page can be shared
+function Pagination({ page, pageCount }: { page: number; pageCount: number }) {
+	if (pageCount <= 1) return null;
+
+	const pageLink = (target: number, label: string) =>
+		target < 1 || target > pageCount ? (
+			<Button size="sm" variant="outline" disabled>
+				{label}
+			</Button>
+		) : (
+			<Button size="sm" variant="outline" asChild>
+				<Link
+					from={Route.fullPath}
+					search={(prev) => ({ ...prev, page: target })}
+				>
+					{label}
+				</Link>
+			</Button>
+		);
+
+	return (
+		<nav
+			aria-label="Pet list pages"
+			className="flex items-center justify-between mt-4"
+		>
+			{pageLink(page - 1, "Previous")}
+			<span className="text-sm text-gray-600">
+				Page {page} of {pageCount}
+			</span>
+			{pageLink(page + 1, "Next")}
+		</nav>
+	);
+}
+
+function PetLookup({ petId }: { petId: number }) {
+	const { data: pet } = useGetPetById(petId);
+
+	return (
+		<div className="border rounded-lg p-4 bg-gray-50 space-y-2">
+			<h3 className="font-semibold text-lg">{pet.name}</h3>
+			<Link
+				to="/demo/petstore/pets/$petId"
+				params={{ petId }}
+				className="text-sm text-blue-600 hover:underline"
+			>
+				View details, photos and edit
+			</Link>
+			<p className="text-sm text-gray-600">ID: {pet.id}</p>
+			<p className="text-sm text-gray-600">Status: {pet.status}</p>
+			{pet.category && (
+				<p className="text-sm text-gray-600">Category: {pet.category.name}</p>
+			)}
+			{pet.tags && pet.tags.length > 0 && (
+				<div className="flex flex-wrap gap-2 mt-2">
+					{pet.tags.map((tag) => (
+						<span
+							key={tag.id}
+							className="text-xs px-2 py-1 rounded bg-blue-100 text-blue-800"
+						>
+							{tag.name}
+						</span>
+					))}
+				</div>
+			)}
+			{pet.photoUrls && pet.photoUrls.length > 0 && (
+				<div className="mt-2">
+					<p className="text-sm font-medium mb-1">Photos:</p>
+					<div className="flex flex-wrap gap-2">
+						{pet.photoUrls.map((url, index) => (
+							<a
+								key={index}
+								href={url}
+								target="_blank"
+								rel="noopener noreferrer"
+								className="text-xs text-blue-600 hover:underline"
+							>
+								Photo {index + 1}
+							</a>
+						))}
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
+
+const petstoreTokenKey = ["petstore", "token-status"] as const;
+
+// The token is stored server-side; the browser only learns whether one is set
+function PetstoreTokenSection() {
+	const queryClient = useQueryClient();
+	const [token, setToken] = useState("");
+	const setTokenFn = useServerFn(setPetstoreTokenFn);
+	const clearTokenFn = useServerFn(clearPetstoreTokenFn);
+
+	const { data: status } = useQuery({
+		queryKey: petstoreTokenKey,
+		queryFn: () => getPetstoreTokenStatusFn(),
+	});
+
+	const onTokenChanged = (next: { hasToken: boolean }) => {
+		queryClient.setQueryData(petstoreTokenKey, next);
+		invalidatePetQueries(queryClient);
+		setToken("");
+	};
+
+	const saveToken = useMutation({
+		mutationFn: (value: string) => setTokenFn({ data: { token: value } }),
+		onSuccess: onTokenChanged,
+	});
+
+	const clearToken = useMutation({
+		mutationFn: () => clearTokenFn(),
+		onSuccess: onTokenChanged,
+	});
+
+	return (
+		<section className="border rounded-lg p-6 bg-white shadow-sm">
+			<h2 className="text-2xl font-semibold mb-2">API Token</h2>
+			<p className="text-sm text-gray-600 mb-4">
+				{status?.hasToken
+					? "A Petstore token is stored in your session."
+					: "No Petstore token set; requests are sent anonymously."}
+			</p>
+			<form
+				className="flex gap-2"
+				onSubmit={(e) => {
+					e.preventDefault();
+					if (token.trim()) saveToken.mutate(token);
+				}}
+			>
+				<Input
+					type="password"
+					aria-label="Petstore API token"
+					placeholder="Paste a Petstore token"
+					value={token}
+					onChange={(e) => setToken(e.target.value)}
+				/>
+				<Button type="submit" disabled={saveToken.isPending}>
+					Save
+				</Button>
+				{status?.hasToken && (
+					<Button
+						type="button"
+						variant="outline"
+						onClick={() => clearToken.mutate()}
+						disabled={clearToken.isPending}
+					>
+						Clear
+					</Button>
+				)}
+			</form>
+		</section>
+	);
+}
@@ -0,0 +1,261 @@
+import { useQueryClient, useSuspenseQuery } from "@tanstack/react-query";
+import {
+	createFileRoute,
+	type ErrorComponentProps,
+	Link,
+	notFound,
+} from "@tanstack/react-router";
+import { Check } from "lucide-react";
+import type { Order } from "@/api/petstore/types.gen";
+import { isPetstoreApiError } from "@/api/petstore-errors";
+import {
+	invalidateStoreQueries,
+	orderByIdQuery,
+	petstoreKeys,
+	useDeleteOrder,
+	usePetstoreAccount,
+	usePetstoreClient,
+	usePlaceOrder,
+} from "@/api/petstore-hooks";
+import {
+	PetstoreErrorAlert,
+	PetstoreErrorComponent,
+} from "@/components/PetstoreErrorAlert";
+import { Button } from "@/components/ui/button";
+import { useCan } from "@/contexts/auth";
+import { forgetOrder } from "@/hooks/use-recent-orders";
+
+export const Route = createFileRoute("/demo/_authed/petstore_/orders/$orderId")(
+	{
+		params: {
+			parse: ({ orderId }) => ({ orderId: Number(orderId) }),
+			stringify: ({ orderId }) => ({ orderId: String(orderId) }),
+		},
+		loader: async ({ context, params: { orderId } }) => {
+			if (!Number.isInteger(orderId) || orderId < 1) throw notFound();
+
+			try {
+				await context.queryClient.ensureQueryData(
+					orderByIdQuery(context.petstoreClient, context.user.id, orderId),
+				);
+			} catch (error) {
+				if (isPetstoreApiError(error) && error.status === 404) {
+					throw notFound();
+				}
+				throw error;
+			}
+		},
+		component: OrderDetail,
+		pendingComponent: () => (
+			<div className="container mx-auto p-6 text-gray-500">
+				Loading order...
+			</div>
+		),
+		notFoundComponent: OrderNotFound,
+		errorComponent: OrderErrorComponent,
+	},
+);
+
+type OrderStatus = NonNullable<Order["status"]>;
+
+const ORDER_STATUSES: Array<OrderStatus> = ["placed", "approved", "delivered"];
+
+// Check again for progress until the order is delivered
+const POLL_INTERVAL_MS = 15_000;
+
+function BackLink() {
+	return (
+		<Link
+			to="/demo/petstore/orders"
+			className="text-sm text-blue-600 hover:underline"
+		>
+			&larr; All orders
+		</Link>
+	);
+}
+
+function OrderNotFound() {
+	const { orderId } = Route.useParams();
+
+	return (
+		<div className="container mx-auto p-6 space-y-4">
+			<BackLink />
+			<div className="border rounded-lg p-6 bg-white shadow-sm">
+				<h1 className="text-2xl font-semibold mb-2">Order not found</h1>
+				<p className="text-gray-600">
+					The Petstore has no order with ID {String(orderId)}. It may have been
+					cancelled.
+				</p>
+			</div>
+		</div>
+	);
+}
+
+// An order cancelled elsewhere fails its next refetch with a 404
+function OrderErrorComponent(props: ErrorComponentProps) {
+	if (isPetstoreApiError(props.error) && props.error.status === 404) {
+		return <OrderNotFound />;
+	}
+
+	return (
+		<div className="container mx-auto p-6">
+			<PetstoreErrorComponent {...props} />
+		</div>
+	);
+}
+
+function OrderDetail() {
+	const { orderId } = Route.useParams();
+	const navigate = Route.useNavigate();
+	const client = usePetstoreClient();
+	const account = usePetstoreAccount();
+	const queryClient = useQueryClient();
+	const canManage = useCan("orders:manage");
+
+	const { data: order } = useSuspenseQuery({
+		...orderByIdQuery(client, account, orderId),
+		refetchInterval: (query) =>
+			query.state.data?.status === "delivered" ? false : POLL_INTERVAL_MS,
+	});
+
+	const status = order.status ?? "placed";
+	const next = ORDER_STATUSES[ORDER_STATUSES.indexOf(status) + 1];
+
+	const advanceMutation = usePlaceOrder({
+		onSuccess: (updated) => {
+			queryClient.setQueryData(petstoreKeys.order(account, orderId), updated);
+			invalidateStoreQueries(queryClient);
+		},
+	});
+
+	const cancelMutation = useDeleteOrder({
+		onSuccess: async () => {
+			forgetOrder(orderId);
+			await navigate({ to: "/demo/petstore/orders" });
+			// Drop the order before refetching, or this page would refetch a 404
+			queryClient.removeQueries({
+				queryKey: petstoreKeys.order(account, orderId),
+			});
+			invalidateStoreQueries(queryClient);
+		},
+	});
+
+	const handleCancel = () => {
+		if (confirm(`Cancel order #${orderId}?`)) {
+			cancelMutation.mutate(orderId);
+		}
+	};
+
+	const mutationError = advanceMutation.error ?? cancelMutation.error;
+
+	return (
+		<div className="container mx-auto p-6 space-y-8">
+			<BackLink />
+
+			<section className="border rounded-lg p-6 bg-white shadow-sm space-y-6">
+				<div className="flex items-start justify-between gap-4">
+					<div>
+						<h1 className="text-3xl font-bold">Order #{order.id}</h1>
+						{order.petId !== undefined && (
+							<Link
+								to="/demo/petstore/pets/$petId"
+								params={{ petId: order.petId }}
+								className="text-sm text-blue-600 hover:underline"
+							>
+								Pet #{order.petId}
+							</Link>
+						)}
+					</div>
+					{canManage && status !== "delivered" && (
+						<Button
+							variant="outline"
+							onClick={handleCancel}
+							disabled={cancelMutation.isPending}
+							className="text-red-600 hover:text-red-700"
+						>
+							{cancelMutation.isPending ? "Cancelling..." : "Cancel order"}
+						</Button>
+					)}
+				</div>
+
+				{mutationError && <PetstoreErrorAlert error={mutationError} />}
+
+				<OrderProgress status={status} />
+
+				<dl className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+					<div>
+						<dt className="text-gray-500">Quantity</dt>
+						<dd className="font-medium">{order.quantity ?? 1}</dd>
+					</div>
+					<div>
+						<dt className="text-gray-500">Ship date</dt>
+						<dd className="font-medium">
+							{order.shipDate
+								? new Date(order.shipDate).toLocaleDateString()
+								: "Not scheduled"}
+						</dd>
+					</div>
+					<div>
+						<dt className="text-gray-500">Complete</dt>
+						<dd className="font-medium">{order.complete ? "Yes" : "No"}</dd>
+					</div>
+				</dl>
+
+				{canManage && next && (
+					<Button
+						onClick={() =>
+							advanceMutation.mutate({
+								...order,
+								status: next,
+								complete: next === "delivered",
+							})
+						}
+						disabled={advanceMutation.isPending}
+					>
+						Mark as {next}
+					</Button>
+				)}
+			</section>
+		</div>
+	);
+}
+
+function OrderProgress({ status }: { status: OrderStatus }) {
+	const current = ORDER_STATUSES.indexOf(status);
+
+	return (
+		<ol aria-label="Order progress" className="flex items-center gap-2">
+			{ORDER_STATUSES.map((step, index) => (
+				<li
+					key={step}
+					aria-current={index === current ? "step" : undefined}
+					className="flex items-center gap-2 flex-1 last:flex-none"
+				>
+					<span
+						className={`flex items-center justify-center w-8 h-8 rounded-full text-sm font-semibold ${
+							index <= current
+								? "bg-blue-600 text-white"
+								: "bg-gray-200 text-gray-600"
+						}`}
+					>
+						{index < current ? <Check size={16} /> : index + 1}
+					</span>
+					<span
+						className={`capitalize text-sm ${
+							index === current ? "font-semibold" : "text-gray-600"
+						}`}
+					>
+						{step}
+					</span>
+					{index < ORDER_STATUSES.length - 1 && (
+						<span
+							className={`h-0.5 flex-1 ${
+								index < current ? "bg-blue-600" : "bg-gray-200"
+							}`}
+						/>
+					)}
+				</li>
+			))}
+		</ol>
+	);
+}
@@ -0,0 +1,131 @@
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useId, useState } from "react";
+import { useGetOrderById } from "@/api/petstore-hooks";
+import { PetstoreErrorAlert } from "@/components/PetstoreErrorAlert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { forgetOrder, useRecentOrders } from "@/hooks/use-recent-orders";
+
+export const Route = createFileRoute("/demo/_authed/petstore_/orders/")({
+	component: Orders,
+});
+
+function Orders() {
+	const navigate = Route.useNavigate();
+	const orderIdInput = useId();
+	const [orderId, setOrderId] = useState("");
+	const recentOrders = useRecentOrders();
+
+	return (
+		<div className="container mx-auto p-6 space-y-8">
+			<div>
+				<Link
+					to="/demo/petstore"
+					className="text-sm text-blue-600 hover:underline"
+				>
+					&larr; Back to the Petstore
+				</Link>
+				<h1 className="text-3xl font-bold mt-2 mb-2">Orders</h1>
+				<p className="text-gray-600">
+					Buy an available pet from the Petstore page, then track or cancel the
+					order here.
+				</p>
+			</div>
+
+			<section className="border rounded-lg p-6 bg-white shadow-sm">
+				<h2 className="text-2xl font-semibold mb-4">Find an Order</h2>
+				<form
+					className="flex items-end gap-2"
+					onSubmit={(e) => {
+						e.preventDefault();
+						const id = Number.parseInt(orderId, 10);
+						if (id > 0) {
+							navigate({
+								to: "/demo/petstore/orders/$orderId",
+								params: { orderId: id },
+							});
+						}
+					}}
+				>
+					<div className="flex-1">
+						<Label htmlFor={orderIdInput}>Order ID</Label>
+						<Input
+							id={orderIdInput}
+							type="number"
+							min={1}
+							placeholder="Enter order ID"
+							value={orderId}
+							onChange={(e) => setOrderId(e.target.value)}
+						/>
+					</div>
+					<Button type="submit" disabled={!(Number(orderId) > 0)}>
+						Open
+					</Button>
+				</form>
+			</section>
+
+			<section className="border rounded-lg p-6 bg-white shadow-sm">
+				<h2 className="text-2xl font-semibold mb-4">Your Recent Orders</h2>
+				{recentOrders.length === 0 ? (
+					<p className="text-gray-500">
+						Orders you place from this browser will show up here.
+					</p>
+				) : (
+					<ul className="divide-y">
+						{recentOrders.map((id) => (
+							<RecentOrder key={id} orderId={id} />
+						))}
+					</ul>
+				)}
+			</section>
+		</div>
+	);
+}
+
+function RecentOrder({ orderId }: { orderId: number }) {
+	const {
+		data: order,
+		error,
+		isPending,
+	} = useGetOrderById(orderId, {
+		// A cancelled order won't come back
+		retry: (failureCount, error) => error.status !== 404 && failureCount < 2,
+	});
+
+	const gone = error?.status === 404;
+
+	return (
+		<li className="py-3 flex items-center justify-between gap-4">
+			<div className="space-y-1">
+				<Link
+					to="/demo/petstore/orders/$orderId"
+					params={{ orderId }}
+					className="font-medium text-blue-600 hover:underline"
+				>
+					Order #{orderId}
+				</Link>
+				{isPending && <p className="text-sm text-gray-500">Loading...</p>}
+				{order && (
+					<p className="text-sm text-gray-600">
+						Pet #{order.petId} &middot; quantity {order.quantity ?? 1} &middot;{" "}
+						{order.status ?? "placed"}
+					</p>
+				)}
+				{gone && (
+					<p className="text-sm text-gray-500">This order no longer exists.</p>
+				)}
+				{error && !gone && <PetstoreErrorAlert error={error} />}
+			</div>
+			{gone && (
+				<Button
+					size="sm"
+					variant="outline"
+					onClick={() => forgetOrder(orderId)}
+				>
+					Remove
+				</Button>
+			)}
+		</li>
+	);
+}
@@ -0,0 +1,419 @@
+import { useQueryClient } from "@tanstack/react-query";
+import {
+	createFileRoute,
+	type ErrorComponentProps,
+	Link,
+	notFound,
+} from "@tanstack/react-router";
+import { useId, useState } from "react";
+import { z } from "zod";
+import type { Pet } from "@/api/petstore/types.gen";
+import { isPetstoreApiError } from "@/api/petstore-errors";
+import {
+	invalidatePetQueries,
+	petByIdQuery,
+	useGetPetById,
+	useUpdatePet,
+	useUpdatePetWithForm,
+	useUploadFile,
+} from "@/api/petstore-hooks";
+import type { UploadProgress } from "@/api/upload-progress";
+import {
+	PetstoreErrorAlert,
+	PetstoreErrorComponent,
+} from "@/components/PetstoreErrorAlert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useCan } from "@/contexts/auth";
+import { useAppForm } from "@/hooks/demo.form";
+import { PET_STATUSES, type PetStatus } from "@/lib/pet-filters";
+
+export const Route = createFileRoute("/demo/_authed/petstore_/pets/$petId")({
+	params: {
+		parse: ({ petId }) => ({ petId: Number(petId) }),
+		stringify: ({ petId }) => ({ petId: String(petId) }),
+	},
+	loader: async ({ context, params: { petId } }) => {
+		if (!Number.isInteger(petId) || petId < 1) throw notFound();
+
+		try {
+			await context.queryClient.ensureQueryData(
+				petByIdQuery(context.petstoreClient, context.user.id, petId),
+			);
+		} catch (error) {
+			if (isPetstoreApiError(error) && error.status === 404) throw notFound();
+			throw error;
+		}
+	},
+	component: PetDetail,
+	pendingComponent: () => (
+		<div className="container mx-auto p-6 text-gray-500">Loading pet...</div>
+	),
+	notFoundComponent: PetNotFound,
+	errorComponent: PetErrorComponent,
+});
+
+const STATUS_COLORS: Record<PetStatus, string> = {
+	available: "bg-green-100 text-green-800",
+	pending: "bg-yellow-100 text-yellow-800",
+	sold: "bg-gray-100 text-gray-800",
+};
+
+function BackLink() {
+	return (
+		<Link to="/demo/petstore" className="text-sm text-blue-600 hover:underline">
+			&larr; Back to the Petstore
+		</Link>
+	);
+}
+
+function PetNotFound() {
+	const { petId } = Route.useParams();
+
+	return (
+		<div className="container mx-auto p-6 space-y-4">
+			<BackLink />
+			<div className="border rounded-lg p-6 bg-white shadow-sm">
+				<h1 className="text-2xl font-semibold mb-2">Pet not found</h1>
+				<p className="text-gray-600">
+					The Petstore has no pet with ID {String(petId)}. It may have been
+					deleted.
+				</p>
+			</div>
+		</div>
+	);
+}
+
+// A pet deleted after the page loaded fails the query with a 404
+function PetErrorComponent(props: ErrorComponentProps) {
+	if (isPetstoreApiError(props.error) && props.error.status === 404) {
+		return <PetNotFound />;
+	}
+
+	return (
+		<div className="container mx-auto p-6">
+			<PetstoreErrorComponent {...props} />
+		</div>
+	);
+}
+
+function PetDetail() {
+	const { petId } = Route.useParams();
+	const { data: pet } = useGetPetById(petId);
+	const canUpdate = useCan("pets:update");
+
+	return (
+		<div className="container mx-auto p-6 space-y-8">
+			<BackLink />
+
+			<section className="border rounded-lg p-6 bg-white shadow-sm space-y-3">
+				<div className="flex items-start justify-between gap-4">
+					<div>
+						<h1 className="text-3xl font-bold">{pet.name || "Unnamed pet"}</h1>
+						<p className="text-sm text-gray-600">ID: {pet.id}</p>
+					</div>
+					{pet.status && (
+						<span
+							className={`text-sm px-2 py-1 rounded ${STATUS_COLORS[pet.status]}`}
+						>
+							{pet.status}
+						</span>
+					)}
+				</div>
+				<p className="text-gray-600">
+					Category: {pet.category?.name ?? "Uncategorized"}
+				</p>
+				{pet.tags && pet.tags.length > 0 && (
+					<div className="flex flex-wrap gap-2">
+						{pet.tags.map((tag, index) => (
+							<span
+								key={tag.id ?? `${tag.name}-${index}`}
+								className="text-xs px-2 py-1 rounded bg-blue-100 text-blue-800"
+							>
+								{tag.name}
+							</span>
+						))}
+					</div>
+				)}
+			</section>
+
+			<section className="border rounded-lg p-6 bg-white shadow-sm">
+				<h2 className="text-2xl font-semibold mb-4">Photos</h2>
+				<PhotoGallery photoUrls={pet.photoUrls} name={pet.name} />
+				{canUpdate && <PhotoUpload petId={petId} />}
+			</section>
+
+			{canUpdate && (
+				<section className="border rounded-lg p-6 bg-white shadow-sm">
+					<h2 className="text-2xl font-semibold mb-4">Edit Pet</h2>
+					<EditPetForm pet={pet} />
+				</section>
+			)}
+		</div>
+	);
+}
+
+function PhotoGallery({
+	photoUrls,
+	name,
+}: {
+	photoUrls: Array<string>;
+	name: string;
+}) {
+	if (photoUrls.length === 0) {
+		return <p className="text-gray-500">No photos yet.</p>;
+	}
+
+	return (
+		<div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+			{photoUrls.map((url, index) => (
+				<a
+					// The same URL can appear twice
+					key={`${index}-${url}`}
+					href={url}
+					target="_blank"
+					rel="noopener noreferrer"
+					className="block border rounded-lg overflow-hidden bg-gray-50 hover:shadow"
+				>
+					<img
+						src={url}
+						alt={`${name || "Pet"} ${index + 1}`}
+						loading="lazy"
+						className="w-full h-40 object-cover"
+					/>
+				</a>
+			))}
+		</div>
+	);
+}
+
+function PhotoUpload({ petId }: { petId: number }) {
+	const queryClient = useQueryClient();
+	const fileInputId = useId();
+	const metadataId = useId();
+	const [file, setFile] = useState<File | null>(null);
+	const [metadata, setMetadata] = useState("");
+	const [progress, setProgress] = useState<UploadProgress | null>(null);
+	// Bumped to clear the file input after an upload
+	const [fileInputKey, setFileInputKey] = useState(0);
+
+	const uploadMutation = useUploadFile({
+		onSuccess: () => {
+			setFile(null);
+			setMetadata("");
+			setFileInputKey((key) => key + 1);
+			invalidatePetQueries(queryClient);
+		},
+		onSettled: () => setProgress(null),
+	});
+
+	const percent =
+		progress?.total && Math.round((progress.loaded / progress.total) * 100);
+
+	return (
+		<form
+			className="mt-6 space-y-4"
+			onSubmit={(e) => {
+				e.preventDefault();
+				if (!file) return;
+				uploadMutation.mutate({
+					petId,
+					file,
+					additionalMetadata: metadata || undefined,
+					onProgress: setProgress,
+				});
+			}}
+		>
+			<h3 className="font-semibold">Add a photo</h3>
+			{uploadMutation.error && (
+				<PetstoreErrorAlert error={uploadMutation.error} />
+			)}
+			{uploadMutation.data?.message && (
+				<p className="text-sm text-gray-600 whitespace-pre-line">
+					{uploadMutation.data.message}
+				</p>
+			)}
+			<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+				<div>
+					<Label htmlFor={fileInputId}>Image</Label>
+					<Input
+						key={fileInputKey}
+						id={fileInputId}
+						type="file"
+						accept="image/*"
+						onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+					/>
+				</div>
+				<div>
+					<Label htmlFor={metadataId}>Description (optional)</Label>
+					<Input
+						id={metadataId}
+						value={metadata}
+						onChange={(e) => setMetadata(e.target.value)}
+					/>
+				</div>
+			</div>
+			{uploadMutation.isPending && (
+				<div className="space-y-1">
+					<div className="h-2 rounded bg-gray-200 overflow-hidden">
+						<div
+							className="h-full bg-blue-600 transition-all"
+							style={{ width: `${percent ?? 0}%` }}
+						/>
+					</div>
+					<p className="text-xs text-gray-500">
+						{percent === undefined ? "Uploading..." : `Uploading ${percent}%`}
+					</p>
+				</div>
+			)}
+			<Button type="submit" disabled={!file || uploadMutation.isPending}>
+				{uploadMutation.isPending ? "Uploading..." : "Upload"}
+			</Button>
+		</form>
+	);
+}
+
+const editPetSchema = z.object({
+	name: z.string().trim().min(1, "Name is required"),
+	status: z.enum(PET_STATUSES),
+	category: z.string(),
+	tags: z.string(),
+	photoUrls: z.string(),
+});
+
+type EditPetValues = z.infer<typeof editPetSchema>;
+
+const splitList = (value: string, separator: RegExp) =>
+	value
+		.split(separator)
+		.map((item) => item.trim())
+		.filter(Boolean);
+
+function toFormValues(pet: Pet): EditPetValues {
+	return {
+		name: pet.name,
+		status: pet.status ?? "available",
+		category: pet.category?.name ?? "",
+		tags: (pet.tags ?? []).flatMap((tag) => tag.name ?? []).join(", "),
+		photoUrls: pet.photoUrls.join("\n"),
+	};
+}
+
+/**
+ * Apply the form to `pet`, keeping the ids of the category and any tags
+ * whose names did not change.
+ */
+function toPet(pet: Pet, values: EditPetValues): Pet {
+	const categoryName = values.category.trim();
+
+	return {
+		...pet,
+		name: values.name.trim(),
+		status: values.status,
+		category: categoryName
+			? pet.category?.name === categoryName
+				? pet.category
+				: { ...pet.category, name: categoryName }
+			: undefined,
+		tags: splitList(values.tags, /,/).map(
+			(name) => pet.tags?.find((tag) => tag.name === name) ?? { name },
+		),
+		photoUrls: splitList(values.photoUrls, /\n/),
+	};
+}
+
+function EditPetForm({ pet }: { pet: Pet }) {
+	const queryClient = useQueryClient();
+	const onSuccess = () => invalidatePetQueries(queryClient);
+
+	const updatePetMutation = useUpdatePet({ onSuccess });
+	const updatePetWithFormMutation = useUpdatePetWithForm({ onSuccess });
+
+	const form = useAppForm({
+		defaultValues: toFormValues(pet),
+		validators: {
+			onBlur: editPetSchema,
+		},
+		onSubmit: async ({ value }) => {
+			const initial = toFormValues(pet);
+			const onlyNameOrStatus =
+				value.category === initial.category &&
+				value.tags === initial.tags &&
+				value.photoUrls === initial.photoUrls;
+
+			// The form post is lighter, but can only change the name and status
+			if (onlyNameOrStatus && pet.id !== undefined) {
+				await updatePetWithFormMutation.mutateAsync({
+					petId: pet.id,
+					name: value.name.trim(),
+					status: value.status,
+				});
+			} else {
+				await updatePetMutation.mutateAsync(toPet(pet, value));
+			}
+		},
+	});
+
+	const error = updatePetMutation.error ?? updatePetWithFormMutation.error;
+	const saved =
+		updatePetMutation.isSuccess || updatePetWithFormMutation.isSuccess;
+
+	return (
+		<form
+			onSubmit={(e) => {
+				e.preventDefault();
+				e.stopPropagation();
+				// Failures are shown from the mutations' state
+				form.handleSubmit().catch(() => {});
+			}}
+			className="space-y-4"
+		>
+			{error && <PetstoreErrorAlert error={error} />}
+			{saved && !error && (
+				<p className="text-sm text-green-700">Saved your changes.</p>
+			)}
+
+			<form.AppField name="name">
+				{(field) => <field.TextField label="Name" />}
+			</form.AppField>
+
+			<form.AppField name="status">
+				{(field) => (
+					<field.Select
+						label="Status"
+						values={PET_STATUSES.map((status) => ({
+							label: status,
+							value: status,
+						}))}
+					/>
+				)}
+			</form.AppField>
+
+			<form.AppField name="category">
+				{(field) => (
+					<field.TextField label="Category" placeholder="e.g. Dogs" />
+				)}
+			</form.AppField>
+
+			<form.AppField name="tags">
+				{(field) => (
+					<field.TextField
+						label="Tags"
+						placeholder="Comma separated, e.g. friendly, small"
+					/>
+				)}
+			</form.AppField>
+
+			<form.AppField name="photoUrls">
+				{(field) => <field.TextArea label="Photo URLs (one per line)" />}
+			</form.AppField>
+
+			<div className="flex justify-end">
+				<form.AppForm>
+					<form.SubscribeButton label="Save" />
+				</form.AppForm>
+			</div>
+		</form>
+	);
+}
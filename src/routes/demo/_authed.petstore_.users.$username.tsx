@@ -0,0 +1,233 @@
+import { useQueryClient } from "@tanstack/react-query";
+import {
+	createFileRoute,
+	type ErrorComponentProps,
+	Link,
+	notFound,
+} from "@tanstack/react-router";
+import type { User } from "@/api/petstore/types.gen";
+import { isPetstoreApiError } from "@/api/petstore-errors";
+import {
+	invalidateUserQueries,
+	petstoreKeys,
+	useDeleteUser,
+	useGetUserByName,
+	usePetstoreAccount,
+	userByNameQuery,
+	useUpdateUser,
+} from "@/api/petstore-hooks";
+import {
+	PetstoreErrorAlert,
+	PetstoreErrorComponent,
+} from "@/components/PetstoreErrorAlert";
+import { Button } from "@/components/ui/button";
+import { useAppForm } from "@/hooks/demo.form";
+import {
+	petstoreUserSchema,
+	toUserValues,
+	USER_FIELD_LABELS,
+	USER_FIELDS,
+} from "@/lib/petstore-users";
+
+export const Route = createFileRoute("/demo/_authed/petstore_/users/$username")(
+	{
+		loader: async ({ context, params: { username } }) => {
+			try {
+				await context.queryClient.ensureQueryData(
+					userByNameQuery(context.petstoreClient, context.user.id, username),
+				);
+			} catch (error) {
+				if (isPetstoreApiError(error) && error.status === 404) {
+					throw notFound();
+				}
+				throw error;
+			}
+		},
+		component: UserProfile,
+		pendingComponent: () => (
+			<div className="container mx-auto p-6 text-gray-500">Loading user...</div>
+		),
+		notFoundComponent: UserNotFound,
+		errorComponent: UserErrorComponent,
+	},
+);
+
+function BackLink() {
+	return (
+		<Link
+			to="/demo/petstore/users"
+			className="text-sm text-blue-600 hover:underline"
+		>
+			&larr; All users
+		</Link>
+	);
+}
+
+function UserNotFound() {
+	const { username } = Route.useParams();
+
+	return (
+		<div className="container mx-auto p-6 space-y-4">
+			<BackLink />
+			<div className="border rounded-lg p-6 bg-white shadow-sm">
+				<h1 className="text-2xl font-semibold mb-2">User not found</h1>
+				<p className="text-gray-600">
+					The Petstore has no user named "{username}". They may have been
+					deleted or renamed.
+				</p>
+			</div>
+		</div>
+	);
+}
+
+// A user deleted elsewhere fails their next refetch with a 404
+function UserErrorComponent(props: ErrorComponentProps) {
+	if (isPetstoreApiError(props.error) && props.error.status === 404) {
+		return <UserNotFound />;
+	}
+
+	return (
+		<div className="container mx-auto p-6">
+			<PetstoreErrorComponent {...props} />
+		</div>
+	);
+}
+
+function UserProfile() {
+	const { username } = Route.useParams();
+	const navigate = Route.useNavigate();
+	const account = usePetstoreAccount();
+	const queryClient = useQueryClient();
+	const { data: user } = useGetUserByName(username);
+
+	const deleteMutation = useDeleteUser({
+		onSuccess: async () => {
+			await navigate({ to: "/demo/petstore/users" });
+			// Drop the user before refetching, or this page would refetch a 404
+			queryClient.removeQueries({
+				queryKey: petstoreKeys.user(account, username),
+			});
+			invalidateUserQueries(queryClient);
+		},
+	});
+
+	const handleDelete = () => {
+		if (confirm(`Delete the user "${username}"? This can't be undone.`)) {
+			deleteMutation.mutate(username);
+		}
+	};
+
+	const name = [user.firstName, user.lastName].filter(Boolean).join(" ");
+
+	return (
+		<div className="container mx-auto p-6 space-y-8">
+			<BackLink />
+
+			<section className="border rounded-lg p-6 bg-white shadow-sm space-y-6">
+				<div className="flex items-start justify-between gap-4">
+					<div>
+						<h1 className="text-3xl font-bold">{user.username}</h1>
+						{name && <p className="text-gray-600">{name}</p>}
+					</div>
+					<Button
+						variant="outline"
+						onClick={handleDelete}
+						disabled={deleteMutation.isPending}
+						className="text-red-600 hover:text-red-700"
+					>
+						{deleteMutation.isPending ? "Deleting..." : "Delete user"}
+					</Button>
+				</div>
+
+				{deleteMutation.error && (
+					<PetstoreErrorAlert error={deleteMutation.error} />
+				)}
+
+				<EditUserForm username={username} user={user} />
+			</section>
+		</div>
+	);
+}
+
+function EditUserForm({ username, user }: { username: string; user: User }) {
+	const navigate = Route.useNavigate();
+	const account = usePetstoreAccount();
+	const queryClient = useQueryClient();
+
+	const updateMutation = useUpdateUser({
+		onSuccess: async (_data, { user: updated }) => {
+			if (updated.username && updated.username !== username) {
+				queryClient.removeQueries({
+					queryKey: petstoreKeys.user(account, username),
+				});
+				await navigate({
+					to: "/demo/petstore/users/$username",
+					params: { username: updated.username },
+				});
+			}
+			invalidateUserQueries(queryClient);
+		},
+	});
+
+	const form = useAppForm({
+		defaultValues: toUserValues(user),
+		validators: {
+			onBlur: petstoreUserSchema,
+		},
+		onSubmit: async ({ value }) => {
+			const parsed = petstoreUserSchema.parse(value);
+			await updateMutation.mutateAsync({
+				username,
+				// A blank password keeps the current one
+				user: {
+					...user,
+					...parsed,
+					password: parsed.password ?? user.password,
+				},
+			});
+		},
+	});
+
+	return (
+		<form
+			onSubmit={(e) => {
+				e.preventDefault();
+				e.stopPropagation();
+				// Failures are shown from the mutation's state
+				form.handleSubmit().catch(() => {});
+			}}
+			className="space-y-4"
+		>
+			<h2 className="text-xl font-semibold">Profile</h2>
+
+			{updateMutation.error && (
+				<PetstoreErrorAlert error={updateMutation.error} />
+			)}
+			{updateMutation.isSuccess && !updateMutation.error && (
+				<p className="text-sm text-green-700">Saved your changes.</p>
+			)}
+
+			<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+				{USER_FIELDS.map((name) => (
+					<form.AppField key={name} name={name}>
+						{(field) => (
+							<field.TextField
+								label={USER_FIELD_LABELS[name]}
+								type={name === "password" ? "password" : undefined}
+								placeholder={
+									name === "password" ? "Leave blank to keep it" : undefined
+								}
+							/>
+						)}
+					</form.AppField>
+				))}
+			</div>
+
+			<div className="flex justify-end">
+				<form.AppForm>
+					<form.SubscribeButton label="Save" />
+				</form.AppForm>
+			</div>
+		</form>
+	);
+}
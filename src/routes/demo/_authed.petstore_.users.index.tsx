@@ -0,0 +1,289 @@
+import { useQueryClient } from "@tanstack/react-query";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useId, useMemo, useState } from "react";
+import type { User } from "@/api/petstore/types.gen";
+import {
+	invalidateUserQueries,
+	useCreateUser,
+	useCreateUsersWithListInput,
+} from "@/api/petstore-hooks";
+import { PetstoreErrorAlert } from "@/components/PetstoreErrorAlert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useAppForm } from "@/hooks/demo.form";
+import {
+	parseUsersCsv,
+	petstoreUserSchema,
+	toUserValues,
+	USER_FIELD_LABELS,
+	USER_FIELDS,
+} from "@/lib/petstore-users";
+
+export const Route = createFileRoute("/demo/_authed/petstore_/users/")({
+	component: Users,
+});
+
+const CSV_EXAMPLE = `username,firstName,lastName,email,phone,userStatus
+jdoe,Jane,Doe,jane@example.com,555-0100,1`;
+
+function Users() {
+	return (
+		<div className="container mx-auto p-6 space-y-8">
+			<div>
+				<Link
+					to="/demo/petstore"
+					className="text-sm text-blue-600 hover:underline"
+				>
+					&larr; Back to the Petstore
+				</Link>
+				<h1 className="text-3xl font-bold mt-2 mb-2">Petstore Users</h1>
+				<p className="text-gray-600">
+					The Petstore can't list its users, so open one by username, or create
+					new ones below.
+				</p>
+			</div>
+
+			<FindUser />
+			<CreateUserForm />
+			<CsvImport />
+		</div>
+	);
+}
+
+function FindUser() {
+	const navigate = Route.useNavigate();
+	const usernameInput = useId();
+	const [username, setUsername] = useState("");
+
+	return (
+		<section className="border rounded-lg p-6 bg-white shadow-sm">
+			<h2 className="text-2xl font-semibold mb-4">Find a User</h2>
+			<form
+				className="flex items-end gap-2"
+				onSubmit={(e) => {
+					e.preventDefault();
+					if (username.trim()) {
+						navigate({
+							to: "/demo/petstore/users/$username",
+							params: { username: username.trim() },
+						});
+					}
+				}}
+			>
+				<div className="flex-1">
+					<Label htmlFor={usernameInput}>Username</Label>
+					<Input
+						id={usernameInput}
+						placeholder="Enter a username"
+						value={username}
+						onChange={(e) => setUsername(e.target.value)}
+					/>
+				</div>
+				<Button type="submit" disabled={!username.trim()}>
+					Open
+				</Button>
+			</form>
+		</section>
+	);
+}
+
+function CreateUserForm() {
+	const queryClient = useQueryClient();
+	const [created, setCreated] = useState<string>();
+
+	const createMutation = useCreateUser({
+		onSuccess: (_data, user) => {
+			setCreated(user.username);
+			invalidateUserQueries(queryClient);
+		},
+	});
+
+	const form = useAppForm({
+		defaultValues: toUserValues(),
+		validators: {
+			onBlur: petstoreUserSchema,
+		},
+		onSubmit: async ({ value, formApi }) => {
+			await createMutation.mutateAsync(petstoreUserSchema.parse(value));
+			formApi.reset();
+		},
+	});
+
+	return (
+		<section className="border rounded-lg p-6 bg-white shadow-sm">
+			<h2 className="text-2xl font-semibold mb-4">Create a User</h2>
+			<form
+				onSubmit={(e) => {
+					e.preventDefault();
+					e.stopPropagation();
+					// Failures are shown from the mutation's state
+					form.handleSubmit().catch(() => {});
+				}}
+				className="space-y-4"
+			>
+				{createMutation.error && (
+					<PetstoreErrorAlert error={createMutation.error} />
+				)}
+				{created && !createMutation.error && (
+					<p className="text-sm text-green-700">
+						Created{" "}
+						<Link
+							to="/demo/petstore/users/$username"
+							params={{ username: created }}
+							className="text-blue-600 hover:underline"
+						>
+							{created}
+						</Link>
+						.
+					</p>
+				)}
+
+				<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+					{USER_FIELDS.map((name) => (
+						<form.AppField key={name} name={name}>
+							{(field) => (
+								<field.TextField
+									label={USER_FIELD_LABELS[name]}
+									type={name === "password" ? "password" : undefined}
+									placeholder={name === "userStatus" ? "e.g. 1" : undefined}
+								/>
+							)}
+						</form.AppField>
+					))}
+				</div>
+
+				<div className="flex justify-end">
+					<form.AppForm>
+						<form.SubscribeButton label="Create user" />
+					</form.AppForm>
+				</div>
+			</form>
+		</section>
+	);
+}
+
+function CsvImport() {
+	const queryClient = useQueryClient();
+	const csvInput = useId();
+	const [csv, setCsv] = useState("");
+	const [created, setCreated] = useState<Array<User>>([]);
+	const { users, errors } = useMemo(() => parseUsersCsv(csv), [csv]);
+
+	const importMutation = useCreateUsersWithListInput({
+		onSuccess: (_data, imported) => {
+			setCreated(imported);
+			setCsv("");
+			invalidateUserQueries(queryClient);
+		},
+	});
+
+	const handleFile = async (file: File | undefined) => {
+		if (file) setCsv(await file.text());
+	};
+
+	return (
+		<section className="border rounded-lg p-6 bg-white shadow-sm space-y-4">
+			<div>
+				<h2 className="text-2xl font-semibold mb-2">Import Users from CSV</h2>
+				<p className="text-sm text-gray-600">
+					The first row names the columns: any of {USER_FIELDS.join(", ")}. Only{" "}
+					<code>username</code> is required.
+				</p>
+			</div>
+
+			<div className="space-y-2">
+				<Label htmlFor={csvInput}>CSV</Label>
+				<Textarea
+					id={csvInput}
+					rows={6}
+					className="font-mono text-sm"
+					placeholder={CSV_EXAMPLE}
+					value={csv}
+					onChange={(e) => setCsv(e.target.value)}
+				/>
+				<Input
+					type="file"
+					accept=".csv,text/csv"
+					aria-label="Load a CSV file"
+					onChange={(e) => handleFile(e.target.files?.[0])}
+				/>
+			</div>
+
+			{csv.trim() && errors.length > 0 && (
+				<ul className="text-sm text-red-600 space-y-1">
+					{errors.map((error) => (
+						<li key={`${error.line}:${error.message}`}>
+							Line {error.line}: {error.message}
+						</li>
+					))}
+				</ul>
+			)}
+
+			{users.length > 0 && (
+				<div className="overflow-x-auto">
+					<table className="w-full text-sm">
+						<thead>
+							<tr className="text-left text-gray-500 border-b">
+								<th className="py-2 pr-4">Username</th>
+								<th className="py-2 pr-4">Name</th>
+								<th className="py-2 pr-4">Email</th>
+								<th className="py-2 pr-4">Phone</th>
+								<th className="py-2">Status</th>
+							</tr>
+						</thead>
+						<tbody className="divide-y">
+							{users.map((user) => (
+								<tr key={user.username}>
+									<td className="py-2 pr-4 font-medium">{user.username}</td>
+									<td className="py-2 pr-4">
+										{[user.firstName, user.lastName].filter(Boolean).join(" ")}
+									</td>
+									<td className="py-2 pr-4">{user.email}</td>
+									<td className="py-2 pr-4">{user.phone}</td>
+									<td className="py-2">{user.userStatus}</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+				</div>
+			)}
+
+			{importMutation.error && (
+				<PetstoreErrorAlert error={importMutation.error} />
+			)}
+			{created.length > 0 && (
+				<p className="text-sm text-green-700">
+					Created{" "}
+					{created.map((user, index) => (
+						<span key={user.username}>
+							{index > 0 && ", "}
+							<Link
+								to="/demo/petstore/users/$username"
+								params={{ username: user.username ?? "" }}
+								className="text-blue-600 hover:underline"
+							>
+								{user.username}
+							</Link>
+						</span>
+					))}
+					.
+				</p>
+			)}
+
+			<div className="flex justify-end">
+				<Button
+					onClick={() => importMutation.mutate(users)}
+					disabled={
+						users.length === 0 || errors.length > 0 || importMutation.isPending
+					}
+				>
+					{importMutation.isPending
+						? "Creating..."
+						: `Create ${users.length} user${users.length === 1 ? "" : "s"}`}
+				</Button>
+			</div>
+		</section>
+	);
+}
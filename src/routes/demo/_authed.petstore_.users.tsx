@@ -0,0 +1,12 @@
+import { createFileRoute, Outlet, redirect } from "@tanstack/react-router";
+import { hasPermission } from "@/lib/permissions";
+
+// Petstore user admin: every route below needs `users:manage`
+export const Route = createFileRoute("/demo/_authed/petstore_/users")({
+	beforeLoad: ({ context }) => {
+		if (!hasPermission(context.user.role, "users:manage")) {
+			throw redirect({ to: "/demo/petstore" });
+		}
+	},
+	component: () => <Outlet />,
+});
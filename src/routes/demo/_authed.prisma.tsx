@@ -0,0 +1,1052 @@
+import type { Todo } from "@prisma/client";
+import {
+	type InfiniteData,
+	infiniteQueryOptions,
+	queryOptions,
+	useMutation,
+	useQueryClient,
+	useSuspenseInfiniteQuery,
+	useSuspenseQuery,
+} from "@tanstack/react-query";
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useEffect, useId, useRef, useState } from "react";
+import { useCan } from "@/contexts/auth";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { splitHighlights } from "@/lib/highlight";
+import { SHARE_ACCESS, type ShareAccess } from "@/lib/permissions";
+import {
+	canReorder,
+	TODO_SORTS,
+	TODO_STATUSES,
+	type TodoFilters,
+	type TodoSort,
+	todoFiltersSchema,
+} from "@/lib/todo-filters";
+import { type TodoSearchFilters, todoKeys } from "@/lib/todo-keys";
+import {
+	getTodoLists,
+	getTodoShares,
+	shareTodoList,
+	unshareTodoList,
+} from "@/server/todo-shares";
+import {
+	createTodo,
+	deleteTodo,
+	getTodos,
+	reorderTodos,
+	searchTodos,
+	toggleTodo,
+	updateTodo,
+} from "@/server/todos";
+
+const todosQueryOptions = (userId: string, filters: TodoFilters) =>
+	infiniteQueryOptions({
+		queryKey: todoKeys.list(userId, filters),
+		queryFn: ({ pageParam }) =>
+			getTodos({ data: { ...filters, cursor: pageParam } }),
+		initialPageParam: undefined as number | undefined,
+		getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+	});
+
+const todoSearchQueryOptions = (userId: string, filters: TodoSearchFilters) =>
+	queryOptions({
+		queryKey: todoKeys.search(userId, filters),
+		queryFn: () => searchTodos({ data: filters }),
+	});
+
+type TodoPages = InfiniteData<Awaited<ReturnType<typeof getTodos>>>;
+
+const todoListsQueryOptions = (userId: string) =>
+	queryOptions({
+		queryKey: todoKeys.sharedLists(userId),
+		queryFn: () => getTodoLists(),
+	});
+
+const todoSharesQueryOptions = (userId: string) =>
+	queryOptions({
+		queryKey: todoKeys.shares(userId),
+		queryFn: () => getTodoShares(),
+	});
+
+export const Route = createFileRoute("/demo/_authed/prisma")({
+	component: DemoPrisma,
+	// `?list=<ownerId>` opens a list someone shared with you
+	validateSearch: todoFiltersSchema,
+	loaderDeps: ({ search }) => search,
+	loader: ({ context, deps: { q, ...filters } }) =>
+		Promise.all([
+			q
+				? context.queryClient.ensureQueryData(
+						todoSearchQueryOptions(context.user.id, { ...filters, q }),
+					)
+				: context.queryClient.ensureInfiniteQueryData(
+						todosQueryOptions(context.user.id, filters),
+					),
+			context.queryClient.ensureQueryData(
+				todoListsQueryOptions(context.user.id),
+			),
+		]),
+});
+
+// The signed-in user, whose ID scopes every todo query (see `todoKeys`)
+const useUserId = () =>
+	Route.useRouteContext({ select: (context): string => context.user.id });
+
+/**
+ * Apply `update` to the loaded todos as one flat list, then split the result
+ * back into pages of the same sizes (the last page absorbs any difference).
+ */
+function updateLoadedTodos(
+	data: TodoPages,
+	update: (todos: Array<Todo>) => Array<Todo>,
+): TodoPages {
+	const todos = update(data.pages.flatMap((page) => page.todos));
+	let offset = 0;
+
+	return {
+		...data,
+		pages: data.pages.map((page, index) => {
+			const isLast = index === data.pages.length - 1;
+			const size = isLast ? todos.length - offset : page.todos.length;
+			const slice = todos.slice(offset, offset + size);
+			offset += size;
+			return { ...page, todos: slice };
+		}),
+	};
+}
+
+/**
+ * Mutation that applies `optimistic` to the cached list right away, rolls the
+ * cache back if the server call fails, and refetches once it settles.
+ * `confirmed` can fold the server's response in before the refetch lands.
+ */
+function useTodoMutation<TVariables, TResult = unknown>(
+	filters: TodoFilters,
+	mutationFn: (variables: TVariables) => Promise<TResult>,
+	optimistic: (todos: Array<Todo>, variables: TVariables) => Array<Todo>,
+	confirmed?: (
+		todos: Array<Todo>,
+		result: TResult,
+		variables: TVariables,
+	) => Array<Todo>,
+) {
+	const queryClient = useQueryClient();
+	const userId = useUserId();
+	const queryKey = todosQueryOptions(userId, filters).queryKey;
+
+	return useMutation({
+		mutationFn,
+		onMutate: async (variables: TVariables) => {
+			await queryClient.cancelQueries({ queryKey });
+			const previous = queryClient.getQueryData(queryKey);
+			if (previous) {
+				queryClient.setQueryData(
+					queryKey,
+					updateLoadedTodos(previous, (todos) => optimistic(todos, variables)),
+				);
+			}
+			return { previous };
+		},
+		onSuccess: (result, variables) => {
+			const current = queryClient.getQueryData(queryKey);
+			if (confirmed && current) {
+				queryClient.setQueryData(
+					queryKey,
+					updateLoadedTodos(current, (todos) =>
+						confirmed(todos, result, variables),
+					),
+				);
+			}
+		},
+		// The list shows the error, see `latestError`
+		onError: (_error, _variables, context) => {
+			if (context?.previous) {
+				queryClient.setQueryData(queryKey, context.previous);
+			}
+		},
+		// Other filter combinations of the same list are stale too
+		onSettled: () =>
+			queryClient.invalidateQueries({ queryKey: todoKeys.lists(userId) }),
+	});
+}
+
+// Optimistically added todos have a negative id until the server's row
+// replaces them, so they can't be edited, deleted or moved yet
+const isPendingTodo = (todo: Todo) => todo.id < 0;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function matchesFilters(todo: Todo, filters: TodoFilters) {
+	const createdAt = todo.createdAt.getTime();
+	return (
+		(filters.status === "all" ||
+			todo.completed === (filters.status === "completed")) &&
+		(!filters.from || createdAt >= new Date(filters.from).getTime()) &&
+		(!filters.to || createdAt < new Date(filters.to).getTime() + DAY_MS)
+	);
+}
+
+/**
+ * Add a new todo where the server will list it under the active sort. Todos
+ * that the filters hide, or that would land past the loaded pages, are left
+ * for the refetch.
+ */
+function insertTodo(
+	todos: Array<Todo>,
+	todo: Todo,
+	filters: TodoFilters,
+	hasMore: boolean,
+) {
+	if (!matchesFilters(todo, filters)) return todos;
+
+	const index =
+		filters.sort === "newest"
+			? 0
+			: filters.sort === "title"
+				? todos.findIndex((other) => other.title > todo.title)
+				: -1;
+
+	if (index === -1) {
+		return hasMore ? todos : [...todos, todo];
+	}
+	return [...todos.slice(0, index), todo, ...todos.slice(index)];
+}
+
+/**
+ * The error from whichever mutation ran last, so it clears once a later
+ * change succeeds.
+ */
+function latestError(
+	mutations: Array<{ error: Error | null; submittedAt: number }>,
+) {
+	return mutations.reduce((latest, mutation) =>
+		mutation.submittedAt > latest.submittedAt ? mutation : latest,
+	).error;
+}
+
+function moveTodo(todos: Array<Todo>, fromId: number, toId: number) {
+	const from = todos.findIndex((todo) => todo.id === fromId);
+	const to = todos.findIndex((todo) => todo.id === toId);
+	if (from === -1 || to === -1 || from === to) return todos;
+
+	const next = [...todos];
+	const [moved] = next.splice(from, 1);
+	next.splice(to, 0, moved);
+	return next;
+}
+
+function DemoPrisma() {
+	const filters = Route.useSearch();
+	const { list } = filters;
+	const userId = useUserId();
+	const { data: sharedLists } = useSuspenseQuery(todoListsQueryOptions(userId));
+	const listOwner = sharedLists.find((shared) => shared.ownerId === list);
+
+	return (
+		<div
+			className="flex items-center justify-center min-h-screen p-4 text-white"
+			style={{
+				background:
+					"linear-gradient(135deg, #0c1a2b 0%, #1a2332 50%, #16202e 100%)",
+			}}
+		>
+			<div
+				className="w-full max-w-2xl p-8 rounded-xl shadow-2xl border border-white/10"
+				style={{
+					background:
+						"linear-gradient(135deg, rgba(22, 32, 46, 0.95) 0%, rgba(12, 26, 43, 0.95) 100%)",
+					backdropFilter: "blur(10px)",
+				}}
+			>
+				<div
+					className="flex items-center justify-center gap-4 mb-8 p-4 rounded-lg"
+					style={{
+						background:
+							"linear-gradient(90deg, rgba(93, 103, 227, 0.1) 0%, rgba(139, 92, 246, 0.1) 100%)",
+						border: "1px solid rgba(93, 103, 227, 0.2)",
+					}}
+				>
+					<div className="relative group">
+						<div className="absolute -inset-2 bg-gradient-to-r from-indigo-500 via-purple-500 to-indigo-500 rounded-lg blur-lg opacity-60 group-hover:opacity-100 transition duration-500"></div>
+						<div className="relative bg-gradient-to-br from-indigo-600 to-purple-600 p-3 rounded-lg">
+							<img
+								src="/prisma.svg"
+								alt="Prisma Logo"
+								className="w-8 h-8 transform group-hover:scale-110 transition-transform duration-300"
+							/>
+						</div>
+					</div>
+					<h1 className="text-3xl font-bold bg-gradient-to-r from-indigo-300 via-purple-300 to-indigo-300 text-transparent bg-clip-text">
+						Prisma Database Demo
+					</h1>
+				</div>
+
+				<TodoListPicker current={list} sharedLists={sharedLists} />
+
+				<h2 className="text-2xl font-bold mb-4 text-indigo-200">
+					{listOwner ? `${listOwner.name}'s todos` : "My todos"}
+				</h2>
+
+				<TodoFilterBar key={list ?? ""} filters={filters} />
+
+				{filters.q ? (
+					<TodoSearchResults filters={{ ...filters, q: filters.q }} />
+				) : (
+					<TodoList filters={filters} />
+				)}
+
+				<div
+					className="mt-8 p-6 rounded-lg border"
+					style={{
+						background: "rgba(93, 103, 227, 0.05)",
+						borderColor: "rgba(93, 103, 227, 0.2)",
+					}}
+				>
+					<h3 className="text-lg font-semibold mb-2 text-indigo-200">
+						Powered by Prisma ORM
+					</h3>
+					<p className="text-sm text-indigo-300/80 mb-4">
+						Next-generation ORM for Node.js & TypeScript with PostgreSQL
+					</p>
+					<div className="space-y-2 text-sm">
+						<p className="text-indigo-200 font-medium">Setup Instructions:</p>
+						<ol className="list-decimal list-inside space-y-2 text-indigo-300/80">
+							<li>
+								Configure your{" "}
+								<code className="px-2 py-1 rounded bg-black/30 text-purple-300">
+									DATABASE_URL
+								</code>{" "}
+								in .env.local
+							</li>
+							<li>
+								Run:{" "}
+								<code className="px-2 py-1 rounded bg-black/30 text-purple-300">
+									npx prisma generate
+								</code>
+							</li>
+							<li>
+								Run:{" "}
+								<code className="px-2 py-1 rounded bg-black/30 text-purple-300">
+									pnpm db:migrate
+								</code>
+							</li>
+							<li>
+								Optional:{" "}
+								<code className="px-2 py-1 rounded bg-black/30 text-purple-300">
+									npx prisma studio
+								</code>
+							</li>
+						</ol>
+					</div>
+				</div>
+			</div>
+		</div>
+	);
+}
+
+function TodoList({ filters }: { filters: TodoFilters }) {
+	const { list } = filters;
+	const { data, fetchNextPage, hasNextPage, isFetchingNextPage } =
+		useSuspenseInfiniteQuery(todosQueryOptions(useUserId(), filters));
+	const { ownerId, access } = data.pages[0];
+	const todos = data.pages.flatMap((page) => page.todos);
+	// The role must allow writing and the list must not be shared read-only
+	const canWrite = useCan("todos:write") && access !== "viewer";
+	const reorderable = canWrite && canReorder(filters);
+	const [draggingId, setDraggingId] = useState<number | null>(null);
+
+	const addTodo = useTodoMutation(
+		filters,
+		({ title }: { title: string; tempId: number }) =>
+			createTodo({ data: { ownerId: list, title } }),
+		(todos, { title, tempId }) =>
+			insertTodo(
+				todos,
+				{
+					id: tempId,
+					title,
+					notes: "",
+					completed: false,
+					completedAt: null,
+					position: todos.length,
+					ownerId,
+					createdAt: new Date(),
+					updatedAt: new Date(),
+				},
+				filters,
+				hasNextPage,
+			),
+		(todos, created, { tempId }) =>
+			todos.map((todo) => (todo.id === tempId ? created : todo)),
+	);
+
+	const editTodo = useTodoMutation(
+		filters,
+		(data: { id: number; title?: string; notes?: string }) =>
+			updateTodo({ data }),
+		(todos, { id, ...changes }) =>
+			todos.map((todo) => (todo.id === id ? { ...todo, ...changes } : todo)),
+	);
+
+	const setCompleted = useTodoMutation(
+		filters,
+		(data: { id: number; completed: boolean }) => toggleTodo({ data }),
+		(todos, { id, completed }) =>
+			todos.map((todo) =>
+				todo.id === id
+					? { ...todo, completed, completedAt: completed ? new Date() : null }
+					: todo,
+			),
+	);
+
+	const removeTodo = useTodoMutation(
+		filters,
+		(id: number) => deleteTodo({ data: { id } }),
+		(todos, id) => todos.filter((todo) => todo.id !== id),
+	);
+
+	const reorder = useTodoMutation(
+		filters,
+		(ids: Array<number>) => reorderTodos({ data: { ids } }),
+		(todos, ids) =>
+			ids
+				.map((id) => todos.find((todo) => todo.id === id))
+				.filter((todo): todo is Todo => todo !== undefined),
+	);
+
+	const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+		e.preventDefault();
+		const form = e.currentTarget;
+		const title = (new FormData(form).get("title") as string).trim();
+
+		if (!title) return;
+
+		addTodo.mutate({ title, tempId: -Date.now() });
+		form.reset();
+	};
+
+	const handleDrop = (targetId: number) => {
+		// Unsaved todos have no id the server would accept
+		if (draggingId === null || todos.some(isPendingTodo)) return;
+		const next = moveTodo(todos, draggingId, targetId);
+		setDraggingId(null);
+		if (next !== todos) {
+			reorder.mutate(next.map((todo) => todo.id));
+		}
+	};
+
+	const mutationError = latestError([
+		addTodo,
+		editTodo,
+		setCompleted,
+		removeTodo,
+		reorder,
+	]);
+
+	return (
+		<>
+			{mutationError && (
+				<p className="text-sm text-red-300 mb-4">
+					Your change couldn't be saved: {mutationError.message}
+				</p>
+			)}
+
+			<ul className="space-y-3 mb-6">
+				{todos.map((todo) => (
+					<TodoItem
+						key={todo.id}
+						todo={todo}
+						canWrite={canWrite && !isPendingTodo(todo)}
+						canDrag={reorderable && !isPendingTodo(todo)}
+						isDragging={draggingId === todo.id}
+						onDragStart={() => setDraggingId(todo.id)}
+						onDragEnd={() => setDraggingId(null)}
+						onDrop={() => handleDrop(todo.id)}
+						onToggle={(completed) =>
+							setCompleted.mutate({ id: todo.id, completed })
+						}
+						onUpdate={(changes) => editTodo.mutate({ id: todo.id, ...changes })}
+						onDelete={() => removeTodo.mutate(todo.id)}
+					/>
+				))}
+				{todos.length === 0 && (
+					<li className="text-center py-8 text-indigo-300/70">
+						{canReorder(filters)
+							? "No todos yet. Create one below!"
+							: "No todos match these filters."}
+					</li>
+				)}
+			</ul>
+
+			{hasNextPage && (
+				<LoadMore
+					isLoading={isFetchingNextPage}
+					onLoadMore={() => fetchNextPage()}
+				/>
+			)}
+
+			{canWrite ? (
+				<form onSubmit={handleSubmit} className="flex gap-2">
+					<input
+						type="text"
+						name="title"
+						placeholder="Add a new todo..."
+						className="flex-1 px-4 py-3 rounded-lg border focus:outline-none focus:ring-2 transition-all text-white placeholder-indigo-300/50"
+						style={{
+							background: "rgba(93, 103, 227, 0.1)",
+							borderColor: "rgba(93, 103, 227, 0.3)",
+							focusRing: "rgba(93, 103, 227, 0.5)",
+						}}
+					/>
+					<button
+						type="submit"
+						className="px-6 py-3 font-semibold rounded-lg shadow-lg transition-all duration-200 hover:shadow-xl hover:scale-105 active:scale-95 whitespace-nowrap"
+						style={{
+							background: "linear-gradient(135deg, #5d67e3 0%, #8b5cf6 100%)",
+							color: "white",
+						}}
+					>
+						Add Todo
+					</button>
+				</form>
+			) : (
+				<p className="text-sm text-indigo-300/70">
+					{access === "viewer"
+						? "This list is shared with you as a viewer."
+						: "Your role can view todos but not add them."}
+				</p>
+			)}
+
+			{access === "owner" && canWrite && <SharePanel />}
+		</>
+	);
+}
+
+function TodoItem({
+	todo,
+	canWrite,
+	canDrag,
+	isDragging,
+	onDragStart,
+	onDragEnd,
+	onDrop,
+	onToggle,
+	onUpdate,
+	onDelete,
+}: {
+	todo: Todo;
+	canWrite: boolean;
+	canDrag: boolean;
+	isDragging: boolean;
+	onDragStart: () => void;
+	onDragEnd: () => void;
+	onDrop: () => void;
+	onToggle: (completed: boolean) => void;
+	onUpdate: (changes: { title?: string; notes?: string }) => void;
+	onDelete: () => void;
+}) {
+	const [isEditing, setIsEditing] = useState(false);
+	const [draft, setDraft] = useState(todo.title);
+	const [isEditingNotes, setIsEditingNotes] = useState(false);
+
+	const commit = () => {
+		setIsEditing(false);
+		const title = draft.trim();
+		if (title && title !== todo.title) {
+			onUpdate({ title });
+		} else {
+			setDraft(todo.title);
+		}
+	};
+
+	const commitNotes = (notes: string) => {
+		setIsEditingNotes(false);
+		if (notes !== todo.notes) onUpdate({ notes });
+	};
+
+	return (
+		<li
+			draggable={canDrag && !isEditing}
+			onDragStart={onDragStart}
+			onDragEnd={onDragEnd}
+			onDragOver={(e) => e.preventDefault()}
+			onDrop={(e) => {
+				e.preventDefault();
+				onDrop();
+			}}
+			className={`rounded-lg p-4 shadow-md border transition-all hover:scale-[1.02] group ${
+				canDrag ? "cursor-grab" : ""
+			} ${isDragging ? "opacity-50" : ""}`}
+			style={{
+				background:
+					"linear-gradient(135deg, rgba(93, 103, 227, 0.15) 0%, rgba(139, 92, 246, 0.15) 100%)",
+				borderColor: "rgba(93, 103, 227, 0.3)",
+			}}
+		>
+			<div className="flex items-center gap-3">
+				<input
+					type="checkbox"
+					aria-label={`Mark "${todo.title}" as done`}
+					checked={todo.completed}
+					disabled={!canWrite}
+					onChange={(e) => onToggle(e.target.checked)}
+					className="w-5 h-5 accent-indigo-500"
+				/>
+				{isEditing ? (
+					<input
+						type="text"
+						aria-label="Todo title"
+						value={draft}
+						onChange={(e) => setDraft(e.target.value)}
+						onBlur={commit}
+						onKeyDown={(e) => {
+							if (e.key === "Enter") commit();
+							if (e.key === "Escape") {
+								setDraft(todo.title);
+								setIsEditing(false);
+							}
+						}}
+						className="flex-1 px-2 py-1 rounded bg-black/30 text-white focus:outline-none focus:ring-2 focus:ring-indigo-400"
+					/>
+				) : (
+					<button
+						type="button"
+						disabled={!canWrite}
+						onDoubleClick={() => {
+							setDraft(todo.title);
+							setIsEditing(true);
+						}}
+						title={canWrite ? "Double-click to edit" : undefined}
+						className={`flex-1 text-left text-lg font-medium group-hover:text-indigo-200 transition-colors ${
+							todo.completed ? "line-through text-indigo-300/60" : "text-white"
+						}`}
+					>
+						{todo.title}
+					</button>
+				)}
+				<span className="text-xs text-indigo-300/70">#{todo.id}</span>
+				{canWrite && !isEditingNotes && (
+					<button
+						type="button"
+						onClick={() => setIsEditingNotes(true)}
+						className="text-sm text-indigo-300 hover:text-indigo-200 opacity-0 group-hover:opacity-100 transition-opacity"
+					>
+						Notes
+					</button>
+				)}
+				{canWrite && (
+					<button
+						type="button"
+						onClick={onDelete}
+						aria-label={`Delete "${todo.title}"`}
+						className="text-sm text-red-300 hover:text-red-200 opacity-0 group-hover:opacity-100 transition-opacity"
+					>
+						Delete
+					</button>
+				)}
+			</div>
+			{isEditingNotes ? (
+				<textarea
+					aria-label={`Notes for "${todo.title}"`}
+					defaultValue={todo.notes}
+					onBlur={(e) => commitNotes(e.target.value)}
+					onKeyDown={(e) => {
+						if (e.key === "Escape") setIsEditingNotes(false);
+					}}
+					rows={3}
+					className="mt-3 w-full px-2 py-1 rounded bg-black/30 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-400"
+				/>
+			) : (
+				todo.notes && (
+					<p className="mt-2 ml-8 text-sm text-indigo-200/80 whitespace-pre-wrap">
+						{todo.notes}
+					</p>
+				)
+			)}
+		</li>
+	);
+}
+
+function TodoListPicker({
+	current,
+	sharedLists,
+}: {
+	current?: string;
+	sharedLists: Array<{ ownerId: string; name: string; access: ShareAccess }>;
+}) {
+	if (sharedLists.length === 0) return null;
+
+	const tabClass = (active: boolean) =>
+		`px-3 py-1 rounded-full text-sm border transition-colors ${
+			active
+				? "bg-indigo-500/40 border-indigo-300 text-white"
+				: "border-indigo-400/30 text-indigo-200 hover:bg-indigo-500/20"
+		}`;
+
+	return (
+		<nav className="flex flex-wrap gap-2 mb-6" aria-label="Todo lists">
+			<Link
+				to="/demo/prisma"
+				search={{}}
+				className={tabClass(current === undefined)}
+			>
+				My todos
+			</Link>
+			{sharedLists.map((shared) => (
+				<Link
+					key={shared.ownerId}
+					to="/demo/prisma"
+					search={{ list: shared.ownerId }}
+					className={tabClass(current === shared.ownerId)}
+				>
+					{shared.name}
+					<span className="ml-1 text-xs text-indigo-300/70">
+						({shared.access})
+					</span>
+				</Link>
+			))}
+		</nav>
+	);
+}
+
+function SharePanel() {
+	const emailId = useId();
+	const queryClient = useQueryClient();
+	const userId = useUserId();
+	const { data: shares } = useSuspenseQuery(todoSharesQueryOptions(userId));
+	const [access, setAccess] = useState<ShareAccess>("viewer");
+
+	const onSettled = () =>
+		queryClient.invalidateQueries({ queryKey: todoKeys.shares(userId) });
+
+	const share = useMutation({
+		mutationFn: (data: { email: string; access: ShareAccess }) =>
+			shareTodoList({ data }),
+		onSettled,
+	});
+
+	const unshare = useMutation({
+		mutationFn: (email: string) => unshareTodoList({ data: { email } }),
+		onSettled,
+	});
+
+	const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+		e.preventDefault();
+		const form = e.currentTarget;
+		const email = (new FormData(form).get("email") as string).trim();
+
+		if (!email) return;
+
+		share.mutate({ email, access }, { onSuccess: () => form.reset() });
+	};
+
+	return (
+		<section
+			className="mt-8 p-6 rounded-lg border"
+			style={{
+				background: "rgba(93, 103, 227, 0.05)",
+				borderColor: "rgba(93, 103, 227, 0.2)",
+			}}
+		>
+			<h3 className="text-lg font-semibold mb-4 text-indigo-200">
+				Share this list
+			</h3>
+
+			<form onSubmit={handleSubmit} className="flex flex-wrap gap-2 mb-4">
+				<label htmlFor={emailId} className="sr-only">
+					Email
+				</label>
+				<input
+					id={emailId}
+					type="email"
+					name="email"
+					placeholder="teammate@example.com"
+					className="flex-1 min-w-48 px-3 py-2 rounded-lg border bg-black/20 border-indigo-400/30 text-white placeholder-indigo-300/50 focus:outline-none focus:ring-2 focus:ring-indigo-400"
+				/>
+				<select
+					aria-label="Access"
+					value={access}
+					onChange={(e) => setAccess(e.target.value as ShareAccess)}
+					className="px-3 py-2 rounded-lg border bg-black/20 border-indigo-400/30 text-white"
+				>
+					{SHARE_ACCESS.map((option) => (
+						<option key={option} value={option}>
+							{option === "editor" ? "Can edit" : "Can view"}
+						</option>
+					))}
+				</select>
+				<button
+					type="submit"
+					disabled={share.isPending}
+					className="px-4 py-2 rounded-lg font-semibold bg-indigo-500 hover:bg-indigo-400 disabled:opacity-50"
+				>
+					Share
+				</button>
+			</form>
+
+			{share.error && (
+				<p className="text-sm text-red-300 mb-4">{share.error.message}</p>
+			)}
+
+			<p className="text-sm text-indigo-300/70 mb-4">
+				Send each person their invite link. It only works for someone signed in
+				with the email you invited.
+			</p>
+
+			{shares.length === 0 ? (
+				<p className="text-sm text-indigo-300/70">
+					Only you can see this list.
+				</p>
+			) : (
+				<ul className="space-y-2">
+					{shares.map((entry) => (
+						<li
+							key={entry.email}
+							className="flex items-center justify-between text-sm"
+						>
+							<span>{entry.email}</span>
+							<span className="flex items-center gap-3">
+								{entry.invitePath && (
+									<InviteLinkButton path={entry.invitePath} />
+								)}
+								<span className="text-indigo-300/70">
+									{entry.access === "editor" ? "Can edit" : "Can view"}
+									{entry.invitePath && " (invited)"}
+								</span>
+								<button
+									type="button"
+									onClick={() => unshare.mutate(entry.email)}
+									className="text-red-300 hover:text-red-200"
+								>
+									Remove
+								</button>
+							</span>
+						</li>
+					))}
+				</ul>
+			)}
+		</section>
+	);
+}
+
+function InviteLinkButton({ path }: { path: string }) {
+	const [copied, setCopied] = useState(false);
+
+	const copy = async () => {
+		await navigator.clipboard.writeText(`${window.location.origin}${path}`);
+		setCopied(true);
+	};
+
+	return (
+		<button
+			type="button"
+			onClick={() => {
+				copy().catch(() => setCopied(false));
+			}}
+			className="text-indigo-200 hover:text-white"
+		>
+			{copied ? "Link copied" : "Copy invite link"}
+		</button>
+	);
+}
+
+function TodoFilterBar({ filters }: { filters: TodoFilters }) {
+	const navigate = Route.useNavigate();
+	const [q, setQ] = useState(filters.q ?? "");
+	const debouncedQ = useDebouncedValue(q.trim());
+
+	// Keep the current list; empty values drop the param from the URL
+	const setFilters = (patch: Partial<TodoFilters>) =>
+		navigate({
+			search: (prev) => ({ ...prev, ...patch }),
+			replace: true,
+		});
+
+	const lastQ = useRef(debouncedQ);
+
+	// Search as the user types, once they pause
+	useEffect(() => {
+		if (debouncedQ === lastQ.current) return;
+		lastQ.current = debouncedQ;
+		navigate({
+			search: (prev) => ({ ...prev, q: debouncedQ || undefined }),
+			replace: true,
+		});
+	}, [debouncedQ, navigate]);
+
+	const fieldClass =
+		"px-3 py-2 rounded-lg border bg-black/20 border-indigo-400/30 text-white text-sm";
+
+	return (
+		<form
+			className="flex flex-wrap gap-2 mb-6"
+			onSubmit={(e) => {
+				e.preventDefault();
+				setFilters({ q: q.trim() || undefined });
+			}}
+		>
+			<input
+				type="search"
+				aria-label="Search todos"
+				placeholder="Search titles and notes..."
+				value={q}
+				onChange={(e) => setQ(e.target.value)}
+				className={`${fieldClass} flex-1 min-w-40 placeholder-indigo-300/50`}
+			/>
+			<select
+				aria-label="Status"
+				value={filters.status}
+				onChange={(e) =>
+					setFilters({ status: e.target.value as TodoFilters["status"] })
+				}
+				className={fieldClass}
+			>
+				{TODO_STATUSES.map((status) => (
+					<option key={status} value={status}>
+						{status[0].toUpperCase() + status.slice(1)}
+					</option>
+				))}
+			</select>
+			<input
+				type="date"
+				aria-label="Created from"
+				value={filters.from ?? ""}
+				onChange={(e) => setFilters({ from: e.target.value || undefined })}
+				className={fieldClass}
+			/>
+			<input
+				type="date"
+				aria-label="Created to"
+				value={filters.to ?? ""}
+				onChange={(e) => setFilters({ to: e.target.value || undefined })}
+				className={fieldClass}
+			/>
+			<select
+				aria-label="Sort by"
+				value={filters.sort}
+				onChange={(e) => setFilters({ sort: e.target.value as TodoSort })}
+				className={fieldClass}
+			>
+				{TODO_SORTS.map((sort) => (
+					<option key={sort} value={sort}>
+						{SORT_LABELS[sort]}
+					</option>
+				))}
+			</select>
+		</form>
+	);
+}
+
+const SORT_LABELS: Record<TodoSort, string> = {
+	position: "My order",
+	newest: "Newest first",
+	oldest: "Oldest first",
+	title: "Title A-Z",
+};
+
+// Fetches the next page once the sentinel scrolls into view
+function LoadMore({
+	isLoading,
+	onLoadMore,
+}: {
+	isLoading: boolean;
+	onLoadMore: () => void;
+}) {
+	const ref = useRef<HTMLDivElement>(null);
+	const onLoadMoreRef = useRef(onLoadMore);
+	onLoadMoreRef.current = onLoadMore;
+
+	useEffect(() => {
+		const node = ref.current;
+		if (!node) return;
+
+		const observer = new IntersectionObserver(
+			([entry]) => {
+				if (entry.isIntersecting) onLoadMoreRef.current();
+			},
+			{ rootMargin: "200px" },
+		);
+		observer.observe(node);
+		return () => observer.disconnect();
+	}, []);
+
+	return (
+		<div ref={ref} className="text-center py-4 mb-6">
+			<button
+				type="button"
+				onClick={onLoadMore}
+				disabled={isLoading}
+				className="text-sm text-indigo-300 hover:text-indigo-200 disabled:opacity-50"
+			>
+				{isLoading ? "Loading more..." : "Load more"}
+			</button>
+		</div>
+	);
+}
+
+function TodoSearchResults({ filters }: { filters: TodoSearchFilters }) {
+	const { data: results } = useSuspenseQuery(
+		todoSearchQueryOptions(useUserId(), filters),
+	);
+
+	if (results.length === 0) {
+		return (
+			<p className="text-center py-8 mb-6 text-indigo-300/70">
+				Nothing matches "{filters.q}".
+			</p>
+		);
+	}
+
+	return (
+		<ul className="space-y-3 mb-6" aria-label="Search results">
+			{results.map(({ todo, highlightedTitle, snippet }) => (
+				<li
+					key={todo.id}
+					className="rounded-lg p-4 shadow-md border"
+					style={{
+						background:
+							"linear-gradient(135deg, rgba(93, 103, 227, 0.15) 0%, rgba(139, 92, 246, 0.15) 100%)",
+						borderColor: "rgba(93, 103, 227, 0.3)",
+					}}
+				>
+					<div className="flex items-center justify-between gap-3">
+						<span
+							className={`text-lg font-medium ${
+								todo.completed
+									? "line-through text-indigo-300/60"
+									: "text-white"
+							}`}
+						>
+							<Highlighted text={highlightedTitle} />
+						</span>
+						<span className="text-xs text-indigo-300/70">#{todo.id}</span>
+					</div>
+					{snippet && (
+						<p className="mt-2 text-sm text-indigo-200/80">
+							<Highlighted text={snippet} />
+						</p>
+					)}
+				</li>
+			))}
+		</ul>
+	);
+}
+
+function Highlighted({ text }: { text: string }) {
+	return (
+		<>
+			{splitHighlights(text).map((part) =>
+				part.match ? (
+					<mark
+						key={part.offset}
+						className="bg-yellow-300/80 text-black rounded px-0.5"
+					>
+						{part.text}
+					</mark>
+				) : (
+					<span key={part.offset}>{part.text}</span>
+				),
+			)}
+		</>
+	);
+}
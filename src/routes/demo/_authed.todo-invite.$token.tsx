@@ -0,0 +1,89 @@
+import {
+	queryOptions,
+	useMutation,
+	useQueryClient,
+	useSuspenseQuery,
+} from "@tanstack/react-query";
+import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
+import { todoKeys } from "@/lib/todo-keys";
+import { acceptTodoInvite, getTodoInvite } from "@/server/todo-shares";
+
+const todoInviteQueryOptions = (userId: string, token: string) =>
+	queryOptions({
+		queryKey: [...todoKeys.all(userId), "invite", token] as const,
+		queryFn: () => getTodoInvite({ data: { token } }),
+		retry: false,
+	});
+
+// Where an invite link from the share panel on `/demo/prisma` lands
+export const Route = createFileRoute("/demo/_authed/todo-invite/$token")({
+	loader: ({ context, params: { token } }) =>
+		context.queryClient.ensureQueryData(
+			todoInviteQueryOptions(context.user.id, token),
+		),
+	component: TodoInvite,
+	errorComponent: ({ error }) => (
+		<InviteLayout>
+			<p className="text-red-300">{error.message}</p>
+			<Link to="/demo/prisma" className="text-indigo-200 hover:underline">
+				Go to my todos
+			</Link>
+		</InviteLayout>
+	),
+});
+
+function InviteLayout({ children }: { children: React.ReactNode }) {
+	return (
+		<div className="min-h-screen flex items-center justify-center p-4 text-white bg-gradient-to-br from-indigo-900 via-purple-900 to-indigo-900">
+			<div className="w-full max-w-md p-8 rounded-xl bg-black/30 border border-indigo-400/20 space-y-4">
+				<h1 className="text-2xl font-bold text-indigo-200">Todo list invite</h1>
+				{children}
+			</div>
+		</div>
+	);
+}
+
+function TodoInvite() {
+	const { token } = Route.useParams();
+	const userId = Route.useRouteContext({
+		select: (context): string => context.user.id,
+	});
+	const { data: invite } = useSuspenseQuery(
+		todoInviteQueryOptions(userId, token),
+	);
+	const queryClient = useQueryClient();
+	const navigate = useNavigate();
+
+	const accept = useMutation({
+		mutationFn: () => acceptTodoInvite({ data: { token } }),
+		onSuccess: async ({ ownerId }) => {
+			queryClient.removeQueries({
+				queryKey: todoInviteQueryOptions(userId, token).queryKey,
+			});
+			await queryClient.invalidateQueries({
+				queryKey: todoKeys.sharedLists(userId),
+			});
+			await navigate({ to: "/demo/prisma", search: { list: ownerId } });
+		},
+	});
+
+	return (
+		<InviteLayout>
+			<p>
+				{invite.name} invited you to their todo list. You'll be able to{" "}
+				{invite.access === "editor" ? "view and edit" : "view"} it.
+			</p>
+			{accept.error && (
+				<p className="text-sm text-red-300">{accept.error.message}</p>
+			)}
+			<button
+				type="button"
+				onClick={() => accept.mutate()}
+				disabled={accept.isPending}
+				className="w-full px-4 py-2 rounded-lg font-semibold bg-indigo-500 hover:bg-indigo-400 disabled:opacity-50"
+			>
+				Accept invite
+			</button>
+		</InviteLayout>
+	);
+}
@@ -0,0 +1,19 @@
+import { createFileRoute, Outlet, redirect } from "@tanstack/react-router";
+import { getCurrentUserFn } from "@/server/auth";
+
+// Pathless layout: every route nested under `_authed` requires a signed-in user
+export const Route = createFileRoute("/demo/_authed")({
+	beforeLoad: async ({ location }) => {
+		const user = await getCurrentUserFn();
+
+		if (!user) {
+			throw redirect({
+				to: "/demo/login",
+				search: { redirect: location.href },
+			});
+		}
+
+		return { user };
+	},
+	component: () => <Outlet />,
+});
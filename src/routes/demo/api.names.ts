@@ -1,10 +1,22 @@
 import { createFileRoute } from "@tanstack/react-router";
 import { json } from "@tanstack/react-start";
+import { z } from "zod";
+import { documented } from "@/server/openapi";
 
 export const Route = createFileRoute("/demo/api/names")({
 	server: {
 		handlers: {
-			GET: () => json(["Alice", "Bob", "Charlie"]),
+			GET: documented(
+				{
+					operationId: "listNames",
+					summary: "List demo names",
+					tags: ["names"],
+					responses: {
+						200: { description: "Every name", schema: z.array(z.string()) },
+					},
+				},
+				() => json(["Alice", "Bob", "Charlie"]),
+			),
 		},
 	},
 });
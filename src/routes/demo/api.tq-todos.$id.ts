@@ -0,0 +1,156 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { z } from "zod";
+import {
+	patchTqTodoSchema,
+	replaceTqTodoSchema,
+	type TqTodo,
+	tqTodoEtag,
+	tqTodoSchema,
+} from "@/lib/tq-todos";
+import { documented } from "@/server/openapi";
+import {
+	ProblemError,
+	parseJsonBody,
+	problemSpec,
+	withProblemDetails,
+} from "@/server/problem";
+import {
+	deleteTqTodo,
+	etagMatches,
+	getTqTodo,
+	updateTqTodo,
+} from "@/server/tq-todos";
+
+function parseId(param: string) {
+	const id = Number(param);
+	if (!Number.isInteger(id) || id < 1) {
+		throw new ProblemError({
+			title: "Not Found",
+			status: 404,
+			detail: `"${param}" is not a todo id`,
+		});
+	}
+	return id;
+}
+
+type ItemContext = { request: Request; params: { id: string } };
+
+const TAGS = ["tq-todos"];
+
+const params = z.object({ id: z.string().describe("Todo id") });
+
+const etagHeader = { ETag: { description: "Current revision of the todo" } };
+
+const ifMatchHeader = z.object({
+	"If-Match": z.string().describe("ETag of the revision being changed"),
+});
+
+const writeResponses = {
+	200: {
+		description: "The updated todo",
+		schema: tqTodoSchema,
+		headers: etagHeader,
+	},
+	404: problemSpec("No todo has this id"),
+	412: problemSpec("If-Match does not name the current revision"),
+	422: problemSpec("The body failed validation"),
+	428: problemSpec("If-Match is missing"),
+};
+
+const todoResponse = (todo: TqTodo) =>
+	Response.json(todo, { headers: { ETag: tqTodoEtag(todo) } });
+
+export const Route = createFileRoute("/demo/api/tq-todos/$id")({
+	server: {
+		handlers: {
+			GET: documented(
+				{
+					operationId: "getTqTodo",
+					summary: "Get a todo",
+					tags: TAGS,
+					params,
+					headers: z.object({ "If-None-Match": z.string().optional() }),
+					responses: {
+						200: {
+							description: "The todo",
+							schema: tqTodoSchema,
+							headers: etagHeader,
+						},
+						304: { description: "Unchanged since the ETag in If-None-Match" },
+						404: problemSpec("No todo has this id"),
+					},
+				},
+				withProblemDetails<ItemContext>(async ({ request, params }) => {
+					const todo = await getTqTodo(parseId(params.id));
+					const etag = tqTodoEtag(todo);
+
+					const ifNoneMatch = request.headers.get("If-None-Match");
+					if (ifNoneMatch !== null && etagMatches(ifNoneMatch, etag, "weak")) {
+						return new Response(null, { status: 304, headers: { ETag: etag } });
+					}
+					return todoResponse(todo);
+				}),
+			),
+			PUT: documented(
+				{
+					operationId: "replaceTqTodo",
+					summary: "Replace a todo",
+					tags: TAGS,
+					params,
+					headers: ifMatchHeader,
+					body: replaceTqTodoSchema,
+					responses: writeResponses,
+				},
+				withProblemDetails<ItemContext>(async ({ request, params }) => {
+					const id = parseId(params.id);
+					const input = await parseJsonBody(request, replaceTqTodoSchema);
+
+					return todoResponse(
+						await updateTqTodo(id, input, request.headers.get("If-Match")),
+					);
+				}),
+			),
+			PATCH: documented(
+				{
+					operationId: "patchTqTodo",
+					summary: "Change some fields of a todo",
+					tags: TAGS,
+					params,
+					headers: ifMatchHeader,
+					body: patchTqTodoSchema,
+					responses: writeResponses,
+				},
+				withProblemDetails<ItemContext>(async ({ request, params }) => {
+					const id = parseId(params.id);
+					const input = await parseJsonBody(request, patchTqTodoSchema);
+
+					return todoResponse(
+						await updateTqTodo(id, input, request.headers.get("If-Match")),
+					);
+				}),
+			),
+			DELETE: documented(
+				{
+					operationId: "deleteTqTodo",
+					summary: "Delete a todo",
+					tags: TAGS,
+					params,
+					headers: ifMatchHeader,
+					responses: {
+						204: { description: "The todo was deleted" },
+						404: problemSpec("No todo has this id"),
+						412: problemSpec("If-Match does not name the current revision"),
+						428: problemSpec("If-Match is missing"),
+					},
+				},
+				withProblemDetails<ItemContext>(async ({ request, params }) => {
+					await deleteTqTodo(
+						parseId(params.id),
+						request.headers.get("If-Match"),
+					);
+					return new Response(null, { status: 204 });
+				}),
+			),
+		},
+	},
+});
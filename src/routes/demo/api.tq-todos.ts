@@ -1,35 +1,60 @@
-import { createFileRoute } from '@tanstack/react-router'
+import { createFileRoute } from "@tanstack/react-router";
+import { z } from "zod";
+import { createTqTodoSchema, tqTodoEtag, tqTodoSchema } from "@/lib/tq-todos";
+import { documented } from "@/server/openapi";
+import {
+	parseJsonBody,
+	problemSpec,
+	withProblemDetails,
+} from "@/server/problem";
+import { createTqTodo, listTqTodos } from "@/server/tq-todos";
 
-const todos = [
-  {
-    id: 1,
-    name: 'Buy groceries',
-  },
-  {
-    id: 2,
-    name: 'Buy mobile phone',
-  },
-  {
-    id: 3,
-    name: 'Buy laptop',
-  },
-]
+export const Route = createFileRoute("/demo/api/tq-todos")({
+	server: {
+		handlers: {
+			GET: documented(
+				{
+					operationId: "listTqTodos",
+					summary: "List todos",
+					tags: ["tq-todos"],
+					responses: {
+						200: { description: "Every todo", schema: z.array(tqTodoSchema) },
+					},
+				},
+				withProblemDetails(async () => Response.json(await listTqTodos())),
+			),
+			POST: documented(
+				{
+					operationId: "createTqTodo",
+					summary: "Create a todo",
+					tags: ["tq-todos"],
+					body: createTqTodoSchema,
+					responses: {
+						201: {
+							description: "The new todo",
+							schema: tqTodoSchema,
+							headers: {
+								Location: { description: "URL of the new todo" },
+								ETag: { description: "Revision of the new todo" },
+							},
+						},
+						400: problemSpec("The body is not valid JSON"),
+						422: problemSpec("The body failed validation"),
+					},
+				},
+				withProblemDetails(async ({ request }) => {
+					const input = await parseJsonBody(request, createTqTodoSchema);
+					const todo = await createTqTodo(input);
 
-export const Route = createFileRoute('/demo/api/tq-todos')({
-  server: {
-    handlers: {
-      GET: () => {
-        return Response.json(todos)
-      },
-      POST: async ({ request }) => {
-        const name = await request.json()
-        const todo = {
-          id: todos.length + 1,
-          name,
-        }
-        todos.push(todo)
-        return Response.json(todo)
-      },
-    },
-  },
-})
+					return Response.json(todo, {
+						status: 201,
+						headers: {
+							Location: `/demo/api/tq-todos/${todo.id}`,
+							ETag: tqTodoEtag(todo),
+						},
+					});
+				}),
+			),
+		},
+	},
+});
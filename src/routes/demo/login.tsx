@@ -1,37 +1,65 @@
-import { createFileRoute, useNavigate } from "@tanstack/react-router";
+import { createFileRoute, Link } from "@tanstack/react-router";
 import { useServerFn } from "@tanstack/react-start";
 import { useId, useState } from "react";
-import { loginFn } from "@/server/auth";
+import { z } from "zod";
+import { isPetstoreSimulator } from "@/api/petstore-client";
+import { useAuth } from "@/contexts/auth";
+import { type AuthProviderId, loginFn } from "@/server/auth";
 import { Button } from "../../components/ui/button";
 import { Input } from "../../components/ui/input";
 import { Label } from "../../components/ui/label";
-import { setStoredToken } from "../../lib/auth";
+
+// Petstore sign-in only means something against the simulator (see
+// `petstoreProvider` in `src/server/auth.ts`)
+const PROVIDERS: Array<{ id: AuthProviderId; label: string }> = [
+	{ id: "local", label: "Email" },
+	...(isPetstoreSimulator()
+		? [{ id: "petstore" as const, label: "Petstore account" }]
+		: []),
+];
+
+const loginSearchSchema = z.object({
+	redirect: z.string().optional(),
+});
 
 export const Route = createFileRoute("/demo/login")({
+	validateSearch: loginSearchSchema,
 	component: LoginPage,
 });
 
 function LoginPage() {
-	const navigate = useNavigate();
+	const search = Route.useSearch();
 	const emailId = useId();
 	const passwordId = useId();
+	const [provider, setProvider] = useState<AuthProviderId>("local");
 	const [email, setEmail] = useState("");
 	const [password, setPassword] = useState("");
 	const [loading, setLoading] = useState(false);
 	const [error, setError] = useState<string | null>(null);
 
 	const loginMutation = useServerFn(loginFn);
+	const { refetch } = useAuth();
 
-	// TODO: replace with real server login function when available
 	async function submit(e?: React.FormEvent) {
 		e?.preventDefault();
 		setError(null);
 		setLoading(true);
 		try {
-			await loginMutation({ data: { email, password } });
+			// loginFn redirects back to the protected page (or the petstore demo)
+			const redirectTo = search.redirect ?? "/demo/petstore";
+			const result = await loginMutation({
+				data:
+					provider === "local"
+						? { provider, email, password, redirectTo }
+						: { provider, username: email, password, redirectTo },
+			});
+			if (result?.error) {
+				setError(result.error);
+				return;
+			}
 
-			// navigate to demo petstore page after login
-			navigate({ to: "/demo/petstore" });
+			// pick up the freshly signed-in user
+			refetch();
 		} catch (err: unknown) {
 			setError(err instanceof Error ? err.message : "Login failed");
 		} finally {
@@ -43,13 +71,32 @@ function LoginPage() {
 		<div className="container mx-auto p-6 max-w-md">
 			<h1 className="text-2xl font-bold mb-4">Login</h1>
 			<form onSubmit={submit} className="space-y-4">
+				{PROVIDERS.length > 1 && (
+					<fieldset className="flex gap-2">
+						<legend className="sr-only">Sign in with</legend>
+						{PROVIDERS.map(({ id, label }) => (
+							<Button
+								key={id}
+								type="button"
+								variant={provider === id ? "default" : "outline"}
+								aria-pressed={provider === id}
+								onClick={() => setProvider(id)}
+								className="flex-1"
+							>
+								{label}
+							</Button>
+						))}
+					</fieldset>
+				)}
 				<div>
-					<Label htmlFor={emailId}>Email</Label>
+					<Label htmlFor={emailId}>
+						{provider === "local" ? "Email" : "Petstore username"}
+					</Label>
 					<Input
 						id={emailId}
 						value={email}
 						onChange={(e) => setEmail(e.target.value)}
-						placeholder="you@example.com"
+						placeholder={provider === "local" ? "you@example.com" : "jdoe"}
 					/>
 				</div>
 				<div>
@@ -68,7 +115,10 @@ function LoginPage() {
 				</Button>
 			</form>
 			<p className="text-sm text-gray-500 mt-4">
-				Use any email/password for the demo; token will be stored locally.
+				No account yet?{" "}
+				<Link to="/demo/register" className="text-blue-600 hover:underline">
+					Create one
+				</Link>
 			</p>
 		</div>
 	);
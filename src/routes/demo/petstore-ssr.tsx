@@ -6,21 +6,26 @@ import { petstoreKeys, useFindPetsByStatus } from "@/api/petstore-hooks";
 // Server function to fetch pets during SSR
 const getPetsSsr = createServerFn({ method: "GET" }).handler(async () => {
 	// Dynamically import to avoid module-level execution
-	const { useAppSession } = await import("@/lib/session");
+	const { getPetstoreToken } = await import("@/lib/auth");
 	const { Pet: PetAPI } = await import("@/api/petstore/sdk.gen");
+	const { createPetstoreClient } = await import("@/api/petstore-client");
+	const { unwrapPetstore } = await import("@/api/petstore-errors");
+	const { validatePetList } = await import("@/api/petstore-validation");
 
-	const session = await useAppSession();
-	const token = session.data.userId
-		? `Bearer ${session.data.userId}`
-		: undefined;
+	// A fresh client per call: the token never touches the shared client
+	const client = createPetstoreClient({ auth: await getPetstoreToken() });
 
 	// Call the generated SDK directly on the server
-	const response = await PetAPI.findPetsByStatus({
-		query: { status: ["available"] },
-		...(token && { auth: token }),
-	});
+	const pets = await unwrapPetstore(
+		"findPetsByStatus",
+		PetAPI.findPetsByStatus({
+			client,
+			query: { status: ["available"] },
+			...validatePetList("findPetsByStatus"),
+		}),
+	);
 
-	return response.data || [];
+	return pets ?? [];
 });
 
 export const Route = createFileRoute("/demo/petstore-ssr")({
@@ -32,7 +37,8 @@ export const Route = createFileRoute("/demo/petstore-ssr")({
 
 		// Prefill the TanStack Query cache with the promise
 		context.queryClient.prefetchQuery({
-			queryKey: petstoreKeys.petsByStatus(["available"]),
+			// A public page, so the pets are cached for the signed-out account
+			queryKey: petstoreKeys.petsByStatus(null, ["available"]),
 			queryFn: () => petsPromise,
 		});
 
@@ -70,7 +76,9 @@ function PetstoreSSR() {
 					<li>Data is fetched on the server during SSR</li>
 					<li>Query cache is prefilled before hydration</li>
 					<li>No loading state on initial render</li>
-					<li>Subsequent refetches use client-side auth token</li>
+					<li>
+						Refetches go through the same-origin proxy with the same token
+					</li>
 				</ul>
 			</div>
 
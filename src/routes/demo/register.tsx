@@ -0,0 +1,96 @@
+import { createFileRoute, Link, useNavigate } from "@tanstack/react-router";
+import { useServerFn } from "@tanstack/react-start";
+import { useId, useState } from "react";
+import { useAuth } from "@/contexts/auth";
+import { registerFn } from "@/server/auth";
+import { Button } from "../../components/ui/button";
+import { Input } from "../../components/ui/input";
+import { Label } from "../../components/ui/label";
+
+export const Route = createFileRoute("/demo/register")({
+	component: RegisterPage,
+});
+
+function RegisterPage() {
+	const navigate = useNavigate();
+	const nameId = useId();
+	const emailId = useId();
+	const passwordId = useId();
+	const [name, setName] = useState("");
+	const [email, setEmail] = useState("");
+	const [password, setPassword] = useState("");
+	const [loading, setLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const registerMutation = useServerFn(registerFn);
+	const { refetch } = useAuth();
+
+	async function submit(e?: React.FormEvent) {
+		e?.preventDefault();
+		setError(null);
+		setLoading(true);
+		try {
+			const result = await registerMutation({
+				data: { name, email, password },
+			});
+			if (result?.error) {
+				setError(result.error);
+				return;
+			}
+
+			refetch();
+			navigate({ to: "/demo/petstore" });
+		} catch (err: unknown) {
+			setError(err instanceof Error ? err.message : "Registration failed");
+		} finally {
+			setLoading(false);
+		}
+	}
+
+	return (
+		<div className="container mx-auto p-6 max-w-md">
+			<h1 className="text-2xl font-bold mb-4">Create account</h1>
+			<form onSubmit={submit} className="space-y-4">
+				<div>
+					<Label htmlFor={nameId}>Name</Label>
+					<Input
+						id={nameId}
+						value={name}
+						onChange={(e) => setName(e.target.value)}
+						placeholder="Jane Doe"
+					/>
+				</div>
+				<div>
+					<Label htmlFor={emailId}>Email</Label>
+					<Input
+						id={emailId}
+						type="email"
+						value={email}
+						onChange={(e) => setEmail(e.target.value)}
+						placeholder="you@example.com"
+					/>
+				</div>
+				<div>
+					<Label htmlFor={passwordId}>Password</Label>
+					<Input
+						id={passwordId}
+						type="password"
+						value={password}
+						onChange={(e) => setPassword(e.target.value)}
+						placeholder="At least 8 characters"
+					/>
+				</div>
+				{error && <div className="text-red-600">{error}</div>}
+				<Button type="submit" disabled={loading} className="w-full">
+					{loading ? "Creating account..." : "Create Account"}
+				</Button>
+			</form>
+			<p className="text-sm text-gray-500 mt-4">
+				Already registered?{" "}
+				<Link to="/demo/login" className="text-blue-600 hover:underline">
+					Sign in
+				</Link>
+			</p>
+		</div>
+	);
+}
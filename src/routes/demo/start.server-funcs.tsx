@@ -1,7 +1,8 @@
-import fs from "node:fs";
 import { createFileRoute, useRouter } from "@tanstack/react-router";
 import { createServerFn } from "@tanstack/react-start";
 import { useCallback, useState } from "react";
+import { z } from "zod";
+import { addFileTodo, listFileTodos } from "@/server/file-todos";
 
 /*
 const loggingMiddleware = createMiddleware().server(
@@ -15,35 +16,13 @@ const loggedServerFunction = createServerFn({ method: "GET" }).middleware([
 ]);
 */
 
-const TODOS_FILE = "todos.json";
-
-async function readTodos() {
-	return JSON.parse(
-		await fs.promises.readFile(TODOS_FILE, "utf-8").catch(() =>
-			JSON.stringify(
-				[
-					{ id: 1, name: "Get groceries" },
-					{ id: 2, name: "Buy a new phone" },
-				],
-				null,
-				2,
-			),
-		),
-	);
-}
-
 const getTodos = createServerFn({
 	method: "GET",
-}).handler(async () => await readTodos());
+}).handler(async () => await listFileTodos());
 
 const addTodo = createServerFn({ method: "POST" })
-	.inputValidator((d: string) => d)
-	.handler(async ({ data }) => {
-		const todos = await readTodos();
-		todos.push({ id: todos.length + 1, name: data });
-		await fs.promises.writeFile(TODOS_FILE, JSON.stringify(todos, null, 2));
-		return todos;
-	});
+	.inputValidator(z.string().trim().min(1))
+	.handler(async ({ data }) => await addFileTodo(data));
 
 export const Route = createFileRoute("/demo/start/server-funcs")({
 	component: Home,
@@ -1,81 +1,206 @@
-import { useCallback, useState } from 'react'
-import { createFileRoute } from '@tanstack/react-router'
-import { useQuery, useMutation } from '@tanstack/react-query'
+import { createFileRoute } from "@tanstack/react-router";
+import { useCallback, useState } from "react";
+import {
+	type TqTodosApiError,
+	useCreateTqTodo,
+	useDeleteTqTodo,
+	usePatchTqTodo,
+	useReplaceTqTodo,
+	useTqTodo,
+	useTqTodos,
+} from "@/api/tq-todos-hooks";
+import { type TqTodo, tqTodoEtag } from "@/lib/tq-todos";
 
-export const Route = createFileRoute('/demo/tanstack-query')({
-  component: TanStackQueryDemo,
-})
+export const Route = createFileRoute("/demo/tanstack-query")({
+	component: TanStackQueryDemo,
+});
 
-type Todo = {
-  id: number
-  name: string
+function TanStackQueryDemo() {
+	const { data, isPending } = useTqTodos();
+	const createTodo = useCreateTqTodo();
+	const replaceTodo = useReplaceTqTodo();
+	const patchTodo = usePatchTqTodo();
+	const deleteTodo = useDeleteTqTodo();
+
+	const [todo, setTodo] = useState("");
+
+	const submitTodo = useCallback(() => {
+		createTodo.mutate({ name: todo }, { onSuccess: () => setTodo("") });
+	}, [createTodo, todo]);
+
+	const error =
+		createTodo.error ??
+		replaceTodo.error ??
+		patchTodo.error ??
+		deleteTodo.error;
+
+	return (
+		<div
+			className="flex items-center justify-center min-h-screen bg-gradient-to-br from-red-900 via-red-800 to-black p-4 text-white"
+			style={{
+				backgroundImage:
+					"radial-gradient(50% 50% at 80% 20%, #3B021F 0%, #7B1028 60%, #1A000A 100%)",
+			}}
+		>
+			<div className="w-full max-w-2xl p-8 rounded-xl backdrop-blur-md bg-black/50 shadow-xl border-8 border-black/10">
+				<h1 className="text-2xl mb-4">TanStack Query Todos list</h1>
+				{error && <ProblemBanner error={error} />}
+				{isPending && <p className="mb-4 text-white/60">Loading...</p>}
+				<ul className="mb-4 space-y-2">
+					{data?.map((t) => (
+						<TodoRow
+							key={t.id}
+							todo={t}
+							onToggle={() =>
+								patchTodo.mutate({
+									todo: t,
+									changes: { completed: !t.completed },
+								})
+							}
+							onRename={(name) =>
+								replaceTodo.mutate({
+									todo: t,
+									changes: { name, completed: t.completed },
+								})
+							}
+							onDelete={() => deleteTodo.mutate({ todo: t })}
+						/>
+					))}
+				</ul>
+				<div className="flex flex-col gap-2">
+					<input
+						type="text"
+						value={todo}
+						onChange={(e) => setTodo(e.target.value)}
+						onKeyDown={(e) => {
+							if (e.key === "Enter") {
+								submitTodo();
+							}
+						}}
+						placeholder="Enter a new todo..."
+						className="w-full px-4 py-3 rounded-lg border border-white/20 bg-white/10 backdrop-blur-sm text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent"
+					/>
+					<button
+						type="button"
+						disabled={todo.trim().length === 0 || createTodo.isPending}
+						onClick={submitTodo}
+						className="bg-blue-500 hover:bg-blue-600 disabled:bg-blue-500/50 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-colors"
+					>
+						Add todo
+					</button>
+				</div>
+			</div>
+		</div>
+	);
 }
 
-function TanStackQueryDemo() {
-  const { data, refetch } = useQuery<Todo[]>({
-    queryKey: ['todos'],
-    queryFn: () => fetch('/demo/api/tq-todos').then((res) => res.json()),
-    initialData: [],
-  })
+function TodoRow({
+	todo,
+	onToggle,
+	onRename,
+	onDelete,
+}: {
+	todo: TqTodo;
+	onToggle: () => void;
+	onRename: (name: string) => void;
+	onDelete: () => void;
+}) {
+	const [draft, setDraft] = useState<string | null>(null);
+	const [showDetails, setShowDetails] = useState(false);
 
-  const { mutate: addTodo } = useMutation({
-    mutationFn: (todo: string) =>
-      fetch('/demo/api/tq-todos', {
-        method: 'POST',
-        body: JSON.stringify(todo),
-      }).then((res) => res.json()),
-    onSuccess: () => refetch(),
-  })
+	const commit = () => {
+		const name = draft?.trim();
+		setDraft(null);
+		if (name && name !== todo.name) onRename(name);
+	};
 
-  const [todo, setTodo] = useState('')
+	return (
+		<li className="bg-white/10 border border-white/20 rounded-lg p-3 backdrop-blur-sm shadow-md">
+			<div className="flex items-center gap-3">
+				<input
+					type="checkbox"
+					aria-label={`Mark "${todo.name}" as done`}
+					checked={todo.completed}
+					onChange={onToggle}
+					className="w-5 h-5"
+				/>
+				{draft === null ? (
+					<button
+						type="button"
+						onDoubleClick={() => setDraft(todo.name)}
+						title="Double-click to rename"
+						className={`flex-1 text-left text-lg ${
+							todo.completed ? "line-through text-white/50" : "text-white"
+						}`}
+					>
+						{todo.name}
+					</button>
+				) : (
+					<input
+						type="text"
+						aria-label="Todo name"
+						value={draft}
+						onChange={(e) => setDraft(e.target.value)}
+						onBlur={commit}
+						onKeyDown={(e) => {
+							if (e.key === "Enter") commit();
+							if (e.key === "Escape") setDraft(null);
+						}}
+						className="flex-1 px-2 py-1 rounded bg-black/40 text-white focus:outline-none focus:ring-2 focus:ring-blue-400"
+					/>
+				)}
+				<button
+					type="button"
+					onClick={() => setShowDetails((show) => !show)}
+					className="text-sm text-white/60 hover:text-white"
+				>
+					{showDetails ? "Hide" : "Details"}
+				</button>
+				<button
+					type="button"
+					onClick={onDelete}
+					className="text-sm text-red-300 hover:text-red-200"
+				>
+					Delete
+				</button>
+			</div>
+			{showDetails && <TodoDetails id={todo.id} />}
+		</li>
+	);
+}
+
+// Fetched separately through GET /demo/api/tq-todos/$id
+function TodoDetails({ id }: { id: number }) {
+	const { data, error } = useTqTodo(id);
+
+	if (error) {
+		return <p className="mt-2 text-sm text-red-300">{error.message}</p>;
+	}
+	if (!data) {
+		return <p className="mt-2 text-sm text-white/60">Loading...</p>;
+	}
+
+	return (
+		<dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-4 text-sm text-white/70">
+			<dt>ETag</dt>
+			<dd className="font-mono">{tqTodoEtag(data)}</dd>
+			<dt>Created</dt>
+			<dd>{new Date(data.createdAt).toLocaleString()}</dd>
+			<dt>Updated</dt>
+			<dd>{new Date(data.updatedAt).toLocaleString()}</dd>
+		</dl>
+	);
+}
 
-  const submitTodo = useCallback(async () => {
-    await addTodo(todo)
-    setTodo('')
-  }, [addTodo, todo])
+function ProblemBanner({ error }: { error: TqTodosApiError }) {
+	const { title, status, detail } = error.problem;
 
-  return (
-    <div
-      className="flex items-center justify-center min-h-screen bg-gradient-to-br from-red-900 via-red-800 to-black p-4 text-white"
-      style={{
-        backgroundImage:
-          'radial-gradient(50% 50% at 80% 20%, #3B021F 0%, #7B1028 60%, #1A000A 100%)',
-      }}
-    >
-      <div className="w-full max-w-2xl p-8 rounded-xl backdrop-blur-md bg-black/50 shadow-xl border-8 border-black/10">
-        <h1 className="text-2xl mb-4">TanStack Query Todos list</h1>
-        <ul className="mb-4 space-y-2">
-          {data?.map((t) => (
-            <li
-              key={t.id}
-              className="bg-white/10 border border-white/20 rounded-lg p-3 backdrop-blur-sm shadow-md"
-            >
-              <span className="text-lg text-white">{t.name}</span>
-            </li>
-          ))}
-        </ul>
-        <div className="flex flex-col gap-2">
-          <input
-            type="text"
-            value={todo}
-            onChange={(e) => setTodo(e.target.value)}
-            onKeyDown={(e) => {
-              if (e.key === 'Enter') {
-                submitTodo()
-              }
-            }}
-            placeholder="Enter a new todo..."
-            className="w-full px-4 py-3 rounded-lg border border-white/20 bg-white/10 backdrop-blur-sm text-white placeholder-white/60 focus:outline-none focus:ring-2 focus:ring-blue-400 focus:border-transparent"
-          />
-          <button
-            disabled={todo.trim().length === 0}
-            onClick={submitTodo}
-            className="bg-blue-500 hover:bg-blue-600 disabled:bg-blue-500/50 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition-colors"
-          >
-            Add todo
-          </button>
-        </div>
-      </div>
-    </div>
-  )
+	return (
+		<div className="mb-4 p-3 rounded-lg border border-red-400/40 bg-red-900/40 text-sm">
+			<p className="font-semibold">
+				{status} {title}
+			</p>
+			{detail && <p className="text-white/80">{detail}</p>}
+		</div>
+	);
 }
@@ -0,0 +1,15 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { handlePetstoreMock } from "@/server/petstore-mock";
+
+// Local Petstore simulator. Point the client at it with VITE_PETSTORE_MOCK=true
+export const Route = createFileRoute("/mock/petstore/v2/$")({
+	server: {
+		handlers: {
+			GET: ({ request, params }) => handlePetstoreMock(request, params._splat),
+			POST: ({ request, params }) => handlePetstoreMock(request, params._splat),
+			PUT: ({ request, params }) => handlePetstoreMock(request, params._splat),
+			DELETE: ({ request, params }) =>
+				handlePetstoreMock(request, params._splat),
+		},
+	},
+});
@@ -1,47 +1,329 @@
 import { redirect } from "@tanstack/react-router";
 import { createServerFn } from "@tanstack/react-start";
-import { useAppSession } from "@/lib/session";
+import { z } from "zod";
+import { User as PetstoreUser } from "@/api/petstore/sdk.gen";
+import {
+	createPetstoreClient,
+	isPetstoreSimulator,
+} from "@/api/petstore-client";
+import { isPetstoreApiError, unwrapPetstore } from "@/api/petstore-errors";
+import { loginPetstoreUser } from "@/api/petstore-hooks";
+import { prisma } from "@/db";
+import { DEFAULT_ROLE, isRole, type Role } from "@/lib/permissions";
+import { safeRedirectPath } from "@/lib/redirect";
+import {
+	type AuthProviderId,
+	type SessionData,
+	useAppSession,
+} from "@/lib/session";
+import { hashPassword, verifyPassword } from "@/server/password";
+import { isPrismaError, serializable } from "@/server/transactions";
+
+export type { AuthProviderId };
+
+const password = z.string().min(1, "Password is required");
+
+const loginSchema = z.discriminatedUnion("provider", [
+	z.object({
+		provider: z.literal("local"),
+		email: z.email("Please enter a valid email"),
+		password,
+		redirectTo: z.string().optional(),
+	}),
+	z.object({
+		provider: z.literal("petstore"),
+		username: z.string().trim().min(1, "Username is required"),
+		password,
+		redirectTo: z.string().optional(),
+	}),
+]);
+
+const registerSchema = z.object({
+	name: z.string().trim().min(1, "Name is required"),
+	email: z.email("Please enter a valid email"),
+	password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+function toRole(value: string): Role {
+	return isRole(value) ? value : DEFAULT_ROLE;
+}
+
+// ============================================================================
+// Auth providers
+// ============================================================================
+
+type Account = { id: string; email: string; role: string };
+
+type AuthProvider = {
+	// Whether users can sign in with this provider; defaults to `true`
+	isAvailable?: () => boolean;
+	/**
+	 * Check the credentials and return the local account to sign in, plus
+	 * anything the provider keeps in the session. `null` means they're wrong.
+	 */
+	authenticate: (credentials: {
+		login: string;
+		password: string;
+	}) => Promise<{ account: Account; session?: Partial<SessionData> } | null>;
+	/**
+	 * Whether the provider's side of the session is still valid. Returning
+	 * `false` signs the user out, so they have to log in again.
+	 */
+	validate?: (session: SessionData) => Promise<boolean>;
+	// End the provider's side of the session
+	logout?: (session: SessionData) => Promise<void>;
+};
+
+// Accounts in the app's own database
+const localProvider: AuthProvider = {
+	authenticate: async ({ login, password }) => {
+		const account = await prisma.user.findUnique({
+			where: { email: login.toLowerCase() },
+		});
+
+		if (!account || !(await verifyPassword(password, account.passwordHash))) {
+			return null;
+		}
+		return { account };
+	},
+};
+
+// Petstore users get a linked local account so roles and todos work for them
+// too. Its email is under a reserved domain that `registerFn` refuses, and it
+// has no password, so only a Petstore login can reach it.
+const PETSTORE_ACCOUNT_DOMAIN = "petstore.invalid";
+
+function isPetstoreAccountEmail(email: string) {
+	return email.toLowerCase().endsWith(`@${PETSTORE_ACCOUNT_DOMAIN}`);
+}
+
+// Users of the Petstore `User` API, signed in with `loginUser`
+const petstoreProvider: AuthProvider = {
+	// The public Petstore accepts any username and password, so only the
+	// simulator, which checks them, can vouch for a login
+	isAvailable: isPetstoreSimulator,
+	authenticate: async ({ login: username, password }) => {
+		const client = createPetstoreClient();
+
+		let login: Awaited<ReturnType<typeof loginPetstoreUser>>;
+		try {
+			login = await loginPetstoreUser(client, { username, password });
+		} catch (error) {
+			if (isPetstoreApiError(error) && error.is("loginUser", 400)) {
+				return null;
+			}
+			throw error;
+		}
+
+		// Never link an account to a user the Petstore doesn't have
+		const profile = await unwrapPetstore(
+			"getUserByName",
+			PetstoreUser.getUserByName({ client, path: { username } }),
+		).catch((error) => {
+			if (isPetstoreApiError(error) && error.status === 404) return undefined;
+			throw error;
+		});
+		if (!profile) {
+			return null;
+		}
+		const name =
+			[profile.firstName, profile.lastName].filter(Boolean).join(" ") ||
+			username;
+		const email = `${username}@${PETSTORE_ACCOUNT_DOMAIN}`;
+
+		const account = await prisma.user.upsert({
+			where: { email },
+			update: { name },
+			create: { email, name, passwordHash: "", role: DEFAULT_ROLE },
+		});
+
+		return {
+			account,
+			session: {
+				petstoreSession: login.session,
+				petstoreSessionExpiresAt: login.expiresAt?.getTime(),
+			},
+		};
+	},
+	// The Petstore has no way to refresh a session without the password, so
+	// an expired one means logging in again
+	validate: async (session) =>
+		isPetstoreSimulator() &&
+		(session.petstoreSessionExpiresAt === undefined ||
+			session.petstoreSessionExpiresAt > Date.now()),
+	logout: async (session) => {
+		if (!session.petstoreSession) return;
+
+		await unwrapPetstore(
+			"logoutUser",
+			PetstoreUser.logoutUser({
+				client: createPetstoreClient({ auth: session.petstoreSession }),
+				// The spec declares no security for `logoutUser`, so say which
+				// session to end explicitly
+				security: [{ scheme: "bearer", type: "http" }],
+			}),
+		);
+	},
+};
+
+const authProviders: Record<AuthProviderId, AuthProvider> = {
+	local: localProvider,
+	petstore: petstoreProvider,
+};
+
+// Sessions from before providers existed are local ones
+const sessionProvider = (session: SessionData) =>
+	authProviders[session.authProvider ?? "local"];
 
 // Login server function
 export const loginFn = createServerFn({ method: "POST" })
-	.inputValidator((data: { email: string; password: string }) => data)
+	.inputValidator(loginSchema)
 	.handler(async ({ data }) => {
 		// Create session
 		const session = await useAppSession();
-		// Verify credentials (replace with your auth logic)
-		const user = { name: "test", id: "1", email: data.email }; // Mock user
 
-		if (!user) {
+		const provider = authProviders[data.provider];
+		if (provider.isAvailable?.() === false) {
+			return { error: "This sign-in method is not available" };
+		}
+
+		const result = await provider.authenticate({
+			login: data.provider === "local" ? data.email : data.username,
+			password: data.password,
+		});
+
+		if (!result) {
 			return { error: "Invalid credentials" };
 		}
 
+		await session.update({
+			userId: result.account.id,
+			email: result.account.email,
+			role: toRole(result.account.role),
+			authProvider: data.provider,
+			// Nothing from a previous user's Petstore session carries over
+			petstoreSession: undefined,
+			petstoreSessionExpiresAt: undefined,
+			petstoreToken: undefined,
+			...result.session,
+		});
+
+		// Redirect back to where the user was headed
+		throw redirect({ href: safeRedirectPath(data.redirectTo) });
+	});
+
+// The very first account administers the app; everyone else starts with the
+// default role until an admin promotes them. Counting and creating in one
+// serializable transaction keeps concurrent sign-ups from both becoming admin.
+async function createAccount(data: {
+	email: string;
+	name: string;
+	passwordHash: string;
+}): Promise<Account> {
+	return serializable(async (tx) => {
+		const isFirstUser = (await tx.user.count()) === 0;
+		return tx.user.create({
+			data: { ...data, role: isFirstUser ? "admin" : DEFAULT_ROLE },
+		});
+	});
+}
+
+// Register server function
+export const registerFn = createServerFn({ method: "POST" })
+	.inputValidator(registerSchema)
+	.handler(async ({ data }) => {
+		const session = await useAppSession();
+		const email = data.email.toLowerCase();
+
+		if (isPetstoreAccountEmail(email)) {
+			return { error: "This email domain is reserved" };
+		}
+
+		let user: Account;
+		try {
+			user = await createAccount({
+				email,
+				name: data.name,
+				passwordHash: await hashPassword(data.password),
+			});
+		} catch (error) {
+			// The email is unique, even across concurrent sign-ups
+			if (isPrismaError(error, "P2002")) {
+				return { error: "An account with this email already exists" };
+			}
+			throw error;
+		}
+
+		// Sign the new user in straight away
 		await session.update({
 			userId: user.id,
 			email: user.email,
+			role: toRole(user.role),
+			authProvider: "local",
+			petstoreSession: undefined,
+			petstoreSessionExpiresAt: undefined,
+			petstoreToken: undefined,
 		});
 
-		// Redirect to protected area
 		throw redirect({ to: "/" });
 	});
 
 // Logout server function
 export const logoutFn = createServerFn({ method: "POST" }).handler(async () => {
 	const session = await useAppSession();
+	try {
+		await sessionProvider(session.data).logout?.(session.data);
+	} catch {
+		// Signing out of the app mustn't depend on the provider being reachable
+	}
 	await session.clear();
 	throw redirect({ to: "/" });
 });
 
-// Get current user
-export const getCurrentUserFn = createServerFn({ method: "GET" }).handler(
-	async () => {
-		const session = await useAppSession();
-		const userId = session.data.userId;
+/**
+ * The signed-in user for the current request, or `null`. The role is read from
+ * the database rather than trusted from the session cookie, so a demotion or a
+ * removed account takes effect on the next request. Server only.
+ */
+export async function getSessionUser() {
+	const session = await useAppSession();
+	const userId = session.data.userId;
 
-		if (!userId) {
-			return null;
-		}
+	if (!userId) {
+		return null;
+	}
 
-		// Mock user retrieval, replace with DB call
-		return { name: "test", id: userId, email: session.data.email };
-	},
+	const provider = sessionProvider(session.data);
+	if (provider.validate && !(await provider.validate(session.data))) {
+		await session.clear();
+		return null;
+	}
+
+	const user = await prisma.user.findUnique({
+		where: { id: userId },
+		select: { id: true, name: true, email: true, role: true },
+	});
+
+	// The account may have been removed since the session was issued
+	if (!user) {
+		await session.clear();
+		return null;
+	}
+
+	// Keep the session role in sync when an admin changes it
+	const role = toRole(user.role);
+	if (session.data.role !== role) {
+		await session.update({ role });
+	}
+
+	return { ...user, role };
+}
+
+// Get current user
+export const getCurrentUserFn = createServerFn({ method: "GET" }).handler(
+	getSessionUser,
 );
+
+export type CurrentUser = NonNullable<
+	Awaited<ReturnType<typeof getCurrentUserFn>>
+>;
@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { createJsonFileStore } from "@/server/json-file-store";
+
+// Todos for the `/demo/start/server-funcs` example, kept in todos.json
+
+const fileTodoSchema = z.object({
+	id: z.number().int().positive(),
+	name: z.string(),
+});
+
+export type FileTodo = z.infer<typeof fileTodoSchema>;
+
+const todosDocumentSchema = z.object({
+	// Never reused, even after todos are removed
+	nextId: z.number().int().positive(),
+	todos: z.array(fileTodoSchema),
+});
+
+type TodosDocument = z.infer<typeof todosDocumentSchema>;
+
+const nextIdAfter = (todos: Array<FileTodo>) =>
+	Math.max(0, ...todos.map((todo) => todo.id)) + 1;
+
+const store = createJsonFileStore<TodosDocument>({
+	file: "todos.json",
+	// Earlier versions stored a bare array; read those as well
+	schema: z.union([
+		todosDocumentSchema,
+		z
+			.array(fileTodoSchema)
+			.transform((todos) => ({ nextId: nextIdAfter(todos), todos })),
+	]),
+	initial: () => ({
+		nextId: 3,
+		todos: [
+			{ id: 1, name: "Get groceries" },
+			{ id: 2, name: "Buy a new phone" },
+		],
+	}),
+});
+
+export async function listFileTodos() {
+	return (await store.read()).todos;
+}
+
+/**
+ * Append a todo and return the updated list.
+ */
+export async function addFileTodo(name: string) {
+	const document = await store.update(({ nextId, todos }) => ({
+		nextId: nextId + 1,
+		todos: [...todos, { id: nextId, name }],
+	}));
+	return document.todos;
+}
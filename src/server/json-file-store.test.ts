@@ -0,0 +1,164 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { createJsonFileStore } from "./json-file-store";
+
+const schema = z.object({ count: z.number() });
+
+let dir: string;
+let file: string;
+
+function createStore(
+	options: { lockTimeoutMs?: number; staleLockMs?: number } = {},
+) {
+	return createJsonFileStore({
+		file,
+		schema,
+		initial: () => ({ count: 0 }),
+		...options,
+	});
+}
+
+const readJson = async (name: string) =>
+	JSON.parse(await fs.promises.readFile(name, "utf-8"));
+
+beforeEach(async () => {
+	dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "json-file-store-"));
+	file = path.join(dir, "store.json");
+});
+
+afterEach(async () => {
+	vi.restoreAllMocks();
+	await fs.promises.rm(dir, { recursive: true, force: true });
+});
+
+describe("createJsonFileStore", () => {
+	it("starts from `initial` and keeps the previous document as a backup", async () => {
+		const store = createStore();
+		expect(await store.read()).toEqual({ count: 0 });
+
+		await store.update(({ count }) => ({ count: count + 1 }));
+		await store.update(({ count }) => ({ count: count + 1 }));
+
+		expect(await readJson(file)).toEqual({ count: 2 });
+		expect(await readJson(`${file}.bak`)).toEqual({ count: 1 });
+		// No temp or lock files are left behind
+		expect((await fs.promises.readdir(dir)).sort()).toEqual([
+			"store.json",
+			"store.json.bak",
+		]);
+	});
+
+	it("keeps the old document when a write fails before the rename", async () => {
+		const store = createStore();
+		await store.update(() => ({ count: 1 }));
+
+		vi.spyOn(fs.promises, "rename").mockRejectedValueOnce(
+			Object.assign(new Error("disk full"), { code: "ENOSPC" }),
+		);
+		await expect(store.update(() => ({ count: 2 }))).rejects.toThrow(
+			"disk full",
+		);
+
+		expect(await store.read()).toEqual({ count: 1 });
+		const leftovers = (await fs.promises.readdir(dir)).filter((name) =>
+			name.endsWith(".tmp"),
+		);
+		expect(leftovers).toEqual([]);
+
+		// The failed update doesn't block the next one
+		await store.update(({ count }) => ({ count: count + 10 }));
+		expect(await store.read()).toEqual({ count: 11 });
+	});
+
+	it("recovers from the backup when the main file was left half-written", async () => {
+		const store = createStore();
+		await store.update(() => ({ count: 1 }));
+		await store.update(() => ({ count: 2 }));
+
+		// As if a process without atomic writes crashed mid-write
+		await fs.promises.writeFile(file, '{"count": 3');
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+
+		expect(await store.read()).toEqual({ count: 1 });
+
+		await store.update(({ count }) => ({ count: count + 1 }));
+		expect(await readJson(file)).toEqual({ count: 2 });
+		// The corrupt file never replaces the good backup
+		expect(await readJson(`${file}.bak`)).toEqual({ count: 1 });
+	});
+
+	it("refuses to start over when the file is corrupt without a backup", async () => {
+		await fs.promises.writeFile(file, JSON.stringify({ count: "many" }));
+
+		await expect(createStore().read()).rejects.toThrow(
+			"is corrupt and has no usable backup",
+		);
+	});
+
+	it("serializes updates from separate processes through the lock file", async () => {
+		// Separate stores share nothing in memory, like separate processes
+		const stores = [createStore(), createStore(), createStore()];
+
+		await Promise.all(
+			stores.flatMap((store) =>
+				Array.from({ length: 5 }, () =>
+					store.update(async ({ count }) => {
+						await new Promise((resolve) => setTimeout(resolve, 1));
+						return { count: count + 1 };
+					}),
+				),
+			),
+		);
+
+		expect(await stores[0].read()).toEqual({ count: 15 });
+		expect(fs.existsSync(`${file}.lock`)).toBe(false);
+	});
+
+	it("waits for a live lock and times out", async () => {
+		await fs.promises.writeFile(`${file}.lock`, "other-process");
+		const store = createStore({ lockTimeoutMs: 100 });
+
+		await expect(store.update(() => ({ count: 1 }))).rejects.toThrow(
+			"Timed out waiting for",
+		);
+		// Someone else's lock is left alone
+		expect(await fs.promises.readFile(`${file}.lock`, "utf-8")).toBe(
+			"other-process",
+		);
+		expect(await store.read()).toEqual({ count: 0 });
+	});
+
+	it("takes over a stale lock left by a crashed process", async () => {
+		await fs.promises.writeFile(`${file}.lock`, "crashed-process");
+		const past = new Date(Date.now() - 60_000);
+		await fs.promises.utimes(`${file}.lock`, past, past);
+
+		const store = createStore({ lockTimeoutMs: 1_000, staleLockMs: 10_000 });
+		await store.update(() => ({ count: 1 }));
+
+		expect(await store.read()).toEqual({ count: 1 });
+		expect(fs.existsSync(`${file}.lock`)).toBe(false);
+	});
+
+	it("doesn't write after losing the lock to another process", async () => {
+		const store = createStore();
+
+		await expect(
+			store.update(async () => {
+				// Another process decided this one had crashed
+				await fs.promises.rm(`${file}.lock`);
+				await fs.promises.writeFile(`${file}.lock`, "other-process");
+				return { count: 1 };
+			}),
+		).rejects.toThrow("Lost");
+
+		expect(await store.read()).toEqual({ count: 0 });
+		// The other process's lock survives the failed update
+		expect(await fs.promises.readFile(`${file}.lock`, "utf-8")).toBe(
+			"other-process",
+		);
+	});
+});
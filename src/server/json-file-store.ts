@@ -0,0 +1,248 @@
+import { randomUUID } from "node:crypto";
+import fs from "node:fs";
+import type { z } from "zod";
+
+// A JSON document on disk that is safe to update from concurrent requests
+// and, via the lock file, from other processes sharing the working directory.
+//
+// - Updates are serialized by an in-process queue plus an exclusive lock file.
+//   The lock holds a token naming its owner, is refreshed while the owner
+//   works, and is only ever removed by moving it aside first and checking the
+//   token, so one process can't delete another's lock.
+// - Writes go to a temp file that is fsynced and renamed over the original,
+//   so readers see either the old or the new document, never half of one.
+// - The previous good document is kept as `<file>.bak`; if the main file
+//   fails to parse or validate, the backup is used instead.
+
+export type JsonFileStoreOptions<T> = {
+	file: string;
+	schema: z.ZodType<T>;
+	// Contents used when neither the file nor its backup exist yet
+	initial: () => T;
+	// How long to wait for another process to release the lock
+	lockTimeoutMs?: number;
+	// Locks not refreshed for this long are assumed to belong to a crashed
+	// process
+	staleLockMs?: number;
+};
+
+type Lock = { token: string; lost: boolean };
+
+type FileState<T> =
+	| { status: "missing" }
+	| { status: "ok"; value: T }
+	| { status: "corrupt"; error: unknown };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isErrorCode = (error: unknown, code: string) =>
+	(error as NodeJS.ErrnoException | null)?.code === code;
+
+export function createJsonFileStore<T>(options: JsonFileStoreOptions<T>) {
+	const {
+		file,
+		schema,
+		initial,
+		lockTimeoutMs = 5_000,
+		staleLockMs = 10_000,
+	} = options;
+	const backupFile = `${file}.bak`;
+	const lockFile = `${file}.lock`;
+
+	let queue: Promise<unknown> = Promise.resolve();
+
+	async function readFileState(path: string): Promise<FileState<T>> {
+		let text: string;
+		try {
+			text = await fs.promises.readFile(path, "utf-8");
+		} catch (error) {
+			if (isErrorCode(error, "ENOENT")) return { status: "missing" };
+			throw error;
+		}
+
+		try {
+			const result = schema.safeParse(JSON.parse(text));
+			return result.success
+				? { status: "ok", value: result.data }
+				: { status: "corrupt", error: result.error };
+		} catch (error) {
+			return { status: "corrupt", error };
+		}
+	}
+
+	/**
+	 * Current document, plus whether the main file itself is intact (only an
+	 * intact file is worth keeping as the next backup).
+	 */
+	async function load(): Promise<{ value: T; intact: boolean }> {
+		const main = await readFileState(file);
+		if (main.status === "ok") return { value: main.value, intact: true };
+
+		const backup = await readFileState(backupFile);
+		if (main.status === "missing" && backup.status === "missing") {
+			return { value: initial(), intact: false };
+		}
+
+		if (backup.status === "ok") {
+			console.warn(`${file} is unreadable, recovering from ${backupFile}`);
+			return { value: backup.value, intact: false };
+		}
+
+		// Refuse to start over from `initial` and silently drop the data
+		throw new Error(`${file} is corrupt and has no usable backup`, {
+			cause: main.status === "corrupt" ? main.error : undefined,
+		});
+	}
+
+	async function write(value: T, keepBackup: boolean) {
+		const tempFile = `${file}.${process.pid}.${randomUUID()}.tmp`;
+
+		try {
+			const handle = await fs.promises.open(tempFile, "w");
+			try {
+				await handle.writeFile(JSON.stringify(value, null, 2));
+				await handle.sync();
+			} finally {
+				await handle.close();
+			}
+
+			if (keepBackup) {
+				await fs.promises.copyFile(file, backupFile);
+			}
+			await fs.promises.rename(tempFile, file);
+		} catch (error) {
+			await fs.promises.rm(tempFile, { force: true });
+			throw error;
+		}
+	}
+
+	const readLockToken = () =>
+		fs.promises.readFile(lockFile, "utf-8").catch(() => null);
+
+	/**
+	 * Remove the lock file only if it holds `token`. Renaming is atomic, so
+	 * the lock is moved aside before its token is checked; a lock that turns
+	 * out to be someone else's is put back, unless a newer one already took
+	 * its place.
+	 */
+	async function removeLock(token: string) {
+		const aside = `${lockFile}.${randomUUID()}.old`;
+		try {
+			await fs.promises.rename(lockFile, aside);
+		} catch (error) {
+			if (isErrorCode(error, "ENOENT")) return;
+			throw error;
+		}
+
+		try {
+			const moved = await fs.promises.readFile(aside, "utf-8");
+			if (moved !== token) {
+				await fs.promises.link(aside, lockFile).catch(() => {});
+			}
+		} finally {
+			await fs.promises.rm(aside, { force: true });
+		}
+	}
+
+	async function acquireLock(): Promise<Lock> {
+		const deadline = Date.now() + lockTimeoutMs;
+		const token = `${process.pid}:${randomUUID()}`;
+
+		// Linking a finished file into place means the lock never exists
+		// without its token, and fails if another lock already does
+		const tokenFile = `${lockFile}.${randomUUID()}.new`;
+		await fs.promises.writeFile(tokenFile, token);
+
+		try {
+			for (;;) {
+				try {
+					await fs.promises.link(tokenFile, lockFile);
+					return { token, lost: false };
+				} catch (error) {
+					if (!isErrorCode(error, "EEXIST")) throw error;
+				}
+
+				// Token first: if the lock changes in between, the newer mtime
+				// makes it look fresh rather than the other way round
+				const holder = await readLockToken();
+				const stat = await fs.promises.stat(lockFile).catch(() => null);
+				if (
+					holder !== null &&
+					stat &&
+					Date.now() - stat.mtimeMs > staleLockMs
+				) {
+					await removeLock(holder);
+					continue;
+				}
+
+				if (Date.now() > deadline) {
+					throw new Error(`Timed out waiting for ${lockFile}`);
+				}
+				await sleep(25);
+			}
+		} finally {
+			await fs.promises.rm(tokenFile, { force: true });
+		}
+	}
+
+	// Touch the lock so waiters don't take it for a crashed process's
+	async function refreshLock(lock: Lock) {
+		if ((await readLockToken()) !== lock.token) {
+			lock.lost = true;
+			return;
+		}
+		const now = new Date();
+		await fs.promises.utimes(lockFile, now, now);
+	}
+
+	async function assertLockHeld(lock: Lock) {
+		if (lock.lost || (await readLockToken()) !== lock.token) {
+			lock.lost = true;
+			throw new Error(`Lost ${lockFile} to another process`);
+		}
+	}
+
+	function withLock<R>(task: (lock: Lock) => Promise<R>): Promise<R> {
+		const run = queue.then(async () => {
+			const lock = await acquireLock();
+			const heartbeat = setInterval(
+				() => refreshLock(lock).catch(() => {}),
+				staleLockMs / 3,
+			);
+			try {
+				return await task(lock);
+			} finally {
+				clearInterval(heartbeat);
+				await removeLock(lock.token);
+			}
+		});
+		// A failed update must not block the ones queued behind it
+		queue = run.catch(() => {});
+		return run;
+	}
+
+	return {
+		/**
+		 * Read the current document. Never blocks on writers: renames are
+		 * atomic, so this sees the last complete write.
+		 */
+		async read(): Promise<T> {
+			return (await load()).value;
+		},
+
+		/**
+		 * Read-modify-write under the lock. `change` returns the new document,
+		 * which is also what `update` resolves with.
+		 */
+		update(change: (current: T) => T | Promise<T>): Promise<T> {
+			return withLock(async (lock) => {
+				const { value, intact } = await load();
+				const next = await change(value);
+				// Another process may have taken over if `change` stalled
+				await assertLockHeld(lock);
+				await write(next, intact);
+				return next;
+			});
+		},
+	};
+}
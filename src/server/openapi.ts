@@ -0,0 +1,172 @@
+import { z } from "zod";
+
+// OpenAPI 3.1 documents for our own server routes.
+//
+// Wrap a server route handler in `documented(spec, handler)` to attach its
+// request/response zod schemas, then list the route in `buildOpenApiDocument`
+// (see `src/routes/api/openapi[.]json.ts`). Schemas registered with
+// `.meta({ id })` become shared `components.schemas` entries.
+
+const HTTP_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"] as const;
+
+type HttpMethod = (typeof HTTP_METHODS)[number];
+
+export type ApiResponseSpec = {
+	description: string;
+	schema?: z.ZodType;
+	// Defaults to application/json
+	contentType?: string;
+	headers?: Record<string, { description: string }>;
+};
+
+export type ApiOperationSpec = {
+	operationId: string;
+	summary: string;
+	description?: string;
+	tags?: Array<string>;
+	params?: z.ZodObject;
+	query?: z.ZodObject;
+	headers?: z.ZodObject;
+	body?: z.ZodType;
+	responses: Record<number, ApiResponseSpec>;
+};
+
+const operationSpecs = new WeakMap<object, ApiOperationSpec>();
+
+/**
+ * Attach an OpenAPI description to a server route handler. Returns the
+ * handler unchanged, so it can be used directly in `server.handlers`.
+ */
+export function documented<THandler extends (...args: never[]) => unknown>(
+	spec: ApiOperationSpec,
+	handler: THandler,
+): THandler {
+	operationSpecs.set(handler, spec);
+	return handler;
+}
+
+// The part of a file route we read handlers from
+type DocumentedRoute = {
+	options: { server?: { handlers?: unknown } };
+};
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Converts zod schemas to JSON Schema, hoisting every schema that has a
+ * registered `id` into `components.schemas` and pointing `$ref`s there.
+ */
+function createSchemaConverter() {
+	const components: Record<string, JsonSchema> = {};
+
+	const hoist = (schema: JsonSchema): JsonSchema => {
+		// `$schema` and the `id` copied from `.meta()` are noise inside a document
+		const { $schema: _schema, $defs, id: _id, ...rest } = schema;
+		for (const [name, definition] of Object.entries(
+			($defs ?? {}) as Record<string, JsonSchema>,
+		)) {
+			components[name] = hoist(definition);
+		}
+		return rest;
+	};
+
+	const convert = (schema: z.ZodType, io: "input" | "output"): JsonSchema => {
+		const json = JSON.parse(
+			JSON.stringify(
+				z.toJSONSchema(schema, { io, unrepresentable: "any" }),
+			).replaceAll('"#/$defs/', '"#/components/schemas/'),
+		);
+
+		const id = z.globalRegistry.get(schema)?.id;
+		if (id) {
+			components[id] = hoist(json);
+			return { $ref: `#/components/schemas/${id}` };
+		}
+		return hoist(json);
+	};
+
+	return { convert, components };
+}
+
+function isOptional(schema: z.ZodType) {
+	return schema.safeParse(undefined).success;
+}
+
+export function buildOpenApiDocument(options: {
+	info: { title: string; version: string; description?: string };
+	// OpenAPI path (`/todos/{id}`) to the file route serving it
+	paths: Record<string, DocumentedRoute>;
+}) {
+	const { convert, components } = createSchemaConverter();
+
+	const parameters = (
+		location: "path" | "query" | "header",
+		shape?: z.ZodObject,
+	) =>
+		Object.entries(shape?.shape ?? {}).map(([name, schema]) => ({
+			name,
+			in: location,
+			required: location === "path" || !isOptional(schema),
+			schema: convert(schema, "input"),
+		}));
+
+	const paths: Record<string, Record<string, unknown>> = {};
+
+	for (const [path, route] of Object.entries(options.paths)) {
+		const handlers = route.options.server?.handlers;
+		if (!handlers || typeof handlers !== "object") continue;
+
+		for (const method of HTTP_METHODS) {
+			const handler = (handlers as Partial<Record<HttpMethod, object>>)[method];
+			const spec = handler && operationSpecs.get(handler);
+			if (!spec) continue;
+
+			paths[path] ??= {};
+			paths[path][method.toLowerCase()] = {
+				operationId: spec.operationId,
+				summary: spec.summary,
+				description: spec.description,
+				tags: spec.tags,
+				parameters: [
+					...parameters("path", spec.params),
+					...parameters("query", spec.query),
+					...parameters("header", spec.headers),
+				],
+				requestBody: spec.body && {
+					required: true,
+					content: {
+						"application/json": { schema: convert(spec.body, "input") },
+					},
+				},
+				responses: Object.fromEntries(
+					Object.entries(spec.responses).map(([status, response]) => [
+						status,
+						{
+							description: response.description,
+							headers:
+								response.headers &&
+								Object.fromEntries(
+									Object.entries(response.headers).map(([name, header]) => [
+										name,
+										{ ...header, schema: { type: "string" } },
+									]),
+								),
+							content: response.schema && {
+								[response.contentType ?? "application/json"]: {
+									schema: convert(response.schema, "output"),
+								},
+							},
+						},
+					]),
+				),
+			};
+		}
+	}
+
+	return {
+		openapi: "3.1.0",
+		info: options.info,
+		paths,
+		components: { schemas: components },
+	};
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { hashPassword, verifyPassword } from "./password";
+
+describe("password hashing", () => {
+	it("verifies the password it hashed", async () => {
+		const stored = await hashPassword("correct horse");
+
+		expect(stored).toMatch(/^scrypt\$[0-9a-f]{32}\$[0-9a-f]{128}$/);
+		expect(await verifyPassword("correct horse", stored)).toBe(true);
+		expect(await verifyPassword("correct horse ", stored)).toBe(false);
+		expect(await verifyPassword("", stored)).toBe(false);
+	});
+
+	it("salts every hash", async () => {
+		const [first, second] = await Promise.all([
+			hashPassword("same password"),
+			hashPassword("same password"),
+		]);
+
+		expect(first).not.toBe(second);
+		expect(await verifyPassword("same password", second)).toBe(true);
+	});
+
+	it.each([
+		"",
+		"plain-text",
+		"bcrypt$abcd$ef01",
+		"scrypt$$",
+		"scrypt$abcd$",
+		// Truncated hash
+		"scrypt$00112233445566778899aabbccddeeff$abcd",
+	])("rejects the stored value %j", async (stored) => {
+		expect(await verifyPassword("anything", stored)).toBe(false);
+	});
+});
@@ -0,0 +1,38 @@
+import { randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+	return new Promise((resolve, reject) => {
+		scrypt(password, salt, KEY_LENGTH, (error, key) => {
+			if (error) reject(error);
+			else resolve(key);
+		});
+	});
+}
+
+/**
+ * Hash a password with a random salt. The result is stored as
+ * `scrypt$<salt>$<hash>` (both hex encoded).
+ */
+export async function hashPassword(password: string) {
+	const salt = randomBytes(SALT_LENGTH);
+	const key = await deriveKey(password, salt);
+	return `scrypt$${salt.toString("hex")}$${key.toString("hex")}`;
+}
+
+/**
+ * Check a password against a hash produced by `hashPassword`.
+ */
+export async function verifyPassword(password: string, stored: string) {
+	const [scheme, saltHex, hashHex] = stored.split("$");
+	if (scheme !== "scrypt" || !saltHex || !hashHex) {
+		return false;
+	}
+
+	const expected = Buffer.from(hashHex, "hex");
+	const key = await deriveKey(password, Buffer.from(saltHex, "hex"));
+
+	return key.length === expected.length && timingSafeEqual(key, expected);
+}
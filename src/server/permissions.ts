@@ -0,0 +1,34 @@
+import { createMiddleware } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { hasPermission, type Permission } from "@/lib/permissions";
+import { getSessionUser } from "@/server/auth";
+
+/**
+ * Server-function middleware that rejects callers whose role does not grant
+ * `permission`. The role comes from the database on every call, not from the
+ * session cookie. The signed-in user is added to the handler context.
+ *
+ * @example
+ * createServerFn({ method: "POST" })
+ *   .middleware([requirePermission("todos:write")])
+ *   .handler(({ context }) => context.user.id)
+ */
+export function requirePermission(permission: Permission) {
+	return createMiddleware({ type: "function" }).server(async ({ next }) => {
+		const user = await getSessionUser();
+
+		if (!user) {
+			setResponseStatus(401);
+			throw new Error("You must be signed in");
+		}
+
+		if (!hasPermission(user.role, permission)) {
+			setResponseStatus(403);
+			throw new Error(`Missing permission: ${permission}`);
+		}
+
+		return next({
+			context: { user: { id: user.id, email: user.email, role: user.role } },
+		});
+	});
+}
@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	handlePetstoreMock,
+	PETSTORE_PROXY_HEADER,
+	petstoreProxyKey,
+} from "./petstore-mock";
+
+const db = vi.hoisted(() => ({
+	petstoreUser: {
+		findUnique: vi.fn(),
+		upsert: vi.fn(),
+		update: vi.fn(),
+		delete: vi.fn(),
+	},
+	$transaction: vi.fn(),
+}));
+
+vi.mock("@/db", () => ({ prisma: db }));
+
+const jdoe = { id: 7, username: "jdoe", password: "secret" };
+
+function send(
+	method: string,
+	path: string,
+	{ body, key }: { body?: unknown; key?: string } = {},
+) {
+	const headers = new Headers({ "Content-Type": "application/json" });
+	if (key !== undefined) headers.set(PETSTORE_PROXY_HEADER, key);
+	const request = new Request(`http://localhost/mock/petstore/v2/${path}`, {
+		method,
+		headers,
+		body: body === undefined ? undefined : JSON.stringify(body),
+	});
+	// The route passes only the path; handlers read the query from the URL
+	const [pathname] = path.split("?");
+	return handlePetstoreMock(request, pathname);
+}
+
+beforeEach(() => {
+	vi.clearAllMocks();
+	db.petstoreUser.findUnique.mockResolvedValue(jdoe);
+	db.petstoreUser.upsert.mockResolvedValue(jdoe);
+});
+
+describe("user changes", () => {
+	const changes = [
+		["POST", "user", { username: "jdoe", password: "pwned" }],
+		["POST", "user/createWithList", [{ username: "jdoe" }]],
+		["POST", "user/createWithArray", [{ username: "jdoe" }]],
+		["PUT", "user/jdoe", { username: "jdoe", password: "pwned" }],
+		["DELETE", "user/jdoe", undefined],
+	] as const;
+
+	it.each(changes)(
+		"refuses %s /%s sent straight to the simulator",
+		async (method, path, body) => {
+			const response = await send(method, path, { body });
+
+			expect(response.status).toBe(403);
+			expect(db.petstoreUser.upsert).not.toHaveBeenCalled();
+			expect(db.petstoreUser.update).not.toHaveBeenCalled();
+			expect(db.petstoreUser.delete).not.toHaveBeenCalled();
+		},
+	);
+
+	it("refuses a forged proxy key", async () => {
+		const response = await send("POST", "user", {
+			body: { username: "jdoe", password: "pwned" },
+			key: "0".repeat(petstoreProxyKey().length),
+		});
+
+		expect(response.status).toBe(403);
+	});
+
+	it("accepts changes forwarded by the proxy", async () => {
+		const response = await send("PUT", "user/jdoe", {
+			body: { username: "jdoe", email: "jane@example.com" },
+			key: petstoreProxyKey(),
+		});
+
+		expect(response.status).toBe(200);
+		expect(db.petstoreUser.update).toHaveBeenCalledWith({
+			where: { id: 7 },
+			data: expect.objectContaining({
+				email: "jane@example.com",
+				password: "secret",
+			}),
+		});
+	});
+
+	it("still answers reads and logins directly", async () => {
+		expect((await send("GET", "user/jdoe")).status).toBe(200);
+		const login = await send("GET", "user/login?username=jdoe&password=secret");
+		expect(login.status).toBe(200);
+		expect(await login.json()).toMatch(/^logged in user session:/);
+	});
+});
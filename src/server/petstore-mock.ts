@@ -0,0 +1,705 @@
+// Local Petstore simulator, served from `/mock/petstore/v2/*`.
+//
+// Implements every operation in `petstore-openapi.json` against the SQLite
+// database so the Petstore pages work offline and in CI. Errors use the
+// Petstore `ApiResponse` shape with the status codes the spec declares.
+// It has no auth of its own, so it only answers in dev or with
+// `VITE_PETSTORE_MOCK=true`. Its users can sign in to the app (see the
+// `petstore` provider in `src/server/auth.ts`), so user changes are only
+// accepted from the `/api/petstore` proxy, which checks `users:manage`.
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+import type {
+	ApiResponse,
+	Category,
+	Order,
+	Pet,
+	Tag,
+	User,
+} from "@/api/petstore/types.gen";
+import { prisma } from "@/db";
+
+const PET_STATUSES = ["available", "pending", "sold"] as const;
+const ORDER_STATUSES = ["placed", "approved", "delivered"] as const;
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const idSchema = z.coerce.number().int().positive();
+
+const categorySchema = z.object({
+	id: z.number().int().optional(),
+	name: z.string().optional(),
+});
+
+const tagSchema = z.object({
+	id: z.number().int().optional(),
+	name: z.string().optional(),
+});
+
+const petSchema = z.object({
+	id: z.number().int().nonnegative().optional(),
+	category: categorySchema.optional(),
+	name: z.string().min(1),
+	photoUrls: z.array(z.string()),
+	tags: z.array(tagSchema).optional(),
+	status: z.enum(PET_STATUSES).optional(),
+});
+
+const orderSchema = z.object({
+	id: z.number().int().nonnegative().optional(),
+	petId: z.number().int().positive(),
+	quantity: z.number().int().positive().default(1),
+	shipDate: z.iso.datetime({ offset: true }).optional(),
+	status: z.enum(ORDER_STATUSES).default("placed"),
+	complete: z.boolean().default(false),
+});
+
+const userSchema = z.object({
+	id: z.number().int().nonnegative().optional(),
+	username: z.string().min(1),
+	firstName: z.string().optional(),
+	lastName: z.string().optional(),
+	email: z.string().optional(),
+	password: z.string().optional(),
+	phone: z.string().optional(),
+	userStatus: z.number().int().optional(),
+});
+
+// ============================================================================
+// Row mapping
+// ============================================================================
+
+type PetRow = {
+	id: number;
+	name: string;
+	status: string;
+	category: string | null;
+	photoUrls: string;
+	tags: string;
+};
+
+type OrderRow = {
+	id: number;
+	petId: number;
+	quantity: number;
+	shipDate: Date | null;
+	status: string;
+	complete: boolean;
+};
+
+type UserRow = {
+	id: number;
+	username: string;
+	firstName: string | null;
+	lastName: string | null;
+	email: string | null;
+	password: string | null;
+	phone: string | null;
+	userStatus: number;
+};
+
+function toPet(row: PetRow): Pet {
+	return {
+		id: row.id,
+		name: row.name,
+		status: row.status as Pet["status"],
+		category: row.category ? (JSON.parse(row.category) as Category) : undefined,
+		photoUrls: JSON.parse(row.photoUrls) as Array<string>,
+		tags: JSON.parse(row.tags) as Array<Tag>,
+	};
+}
+
+function fromPet(pet: z.infer<typeof petSchema>) {
+	return {
+		name: pet.name,
+		status: pet.status ?? "available",
+		category: pet.category ? JSON.stringify(pet.category) : null,
+		photoUrls: JSON.stringify(pet.photoUrls),
+		tags: JSON.stringify(pet.tags ?? []),
+	};
+}
+
+function toOrder(row: OrderRow): Order {
+	return {
+		id: row.id,
+		petId: row.petId,
+		quantity: row.quantity,
+		shipDate: row.shipDate?.toISOString(),
+		status: row.status as Order["status"],
+		complete: row.complete,
+	};
+}
+
+function toUser(row: UserRow): User {
+	return {
+		id: row.id,
+		username: row.username,
+		firstName: row.firstName ?? undefined,
+		lastName: row.lastName ?? undefined,
+		email: row.email ?? undefined,
+		// Stored passwords are never sent back
+		phone: row.phone ?? undefined,
+		userStatus: row.userStatus,
+	};
+}
+
+function fromUser(user: z.infer<typeof userSchema>) {
+	return {
+		username: user.username,
+		firstName: user.firstName ?? null,
+		lastName: user.lastName ?? null,
+		email: user.email ?? null,
+		password: user.password ?? null,
+		phone: user.phone ?? null,
+		userStatus: user.userStatus ?? 0,
+	};
+}
+
+// ============================================================================
+// Responses
+// ============================================================================
+
+function apiResponse(code: number, message: string, type = "unknown") {
+	return Response.json({ code, type, message } satisfies ApiResponse, {
+		status: code,
+	});
+}
+
+function apiError(code: number, message: string) {
+	return apiResponse(code, message, "error");
+}
+
+async function readJson(request: Request) {
+	try {
+		return await request.json();
+	} catch {
+		return undefined;
+	}
+}
+
+/** Accept both `?status=a&status=b` and `?status=a,b`. */
+function readList(url: URL, name: string) {
+	return url.searchParams
+		.getAll(name)
+		.flatMap((value) => value.split(","))
+		.map((value) => value.trim())
+		.filter(Boolean);
+}
+
+// ============================================================================
+// Pet
+// ============================================================================
+
+async function findPet(rawId: string) {
+	const id = idSchema.safeParse(rawId);
+	if (!id.success) {
+		return { error: apiError(400, "Invalid ID supplied") };
+	}
+
+	const row = await prisma.petstorePet.findUnique({ where: { id: id.data } });
+	if (!row) {
+		return { error: apiError(404, "Pet not found") };
+	}
+
+	return { row: row as PetRow };
+}
+
+async function addPet(request: Request) {
+	const pet = petSchema.safeParse(await readJson(request));
+	if (!pet.success) {
+		return apiError(405, "Invalid input");
+	}
+
+	const data = fromPet(pet.data);
+	const row = pet.data.id
+		? await prisma.petstorePet.upsert({
+				where: { id: pet.data.id },
+				create: { id: pet.data.id, ...data },
+				update: data,
+			})
+		: await prisma.petstorePet.create({ data });
+
+	return Response.json(toPet(row));
+}
+
+async function updatePet(request: Request) {
+	const body = await readJson(request);
+	const id = idSchema.safeParse(body?.id);
+	if (!id.success) {
+		return apiError(400, "Invalid ID supplied");
+	}
+
+	const pet = petSchema.safeParse(body);
+	if (!pet.success) {
+		return apiError(405, "Validation exception");
+	}
+
+	const existing = await prisma.petstorePet.findUnique({
+		where: { id: id.data },
+	});
+	if (!existing) {
+		return apiError(404, "Pet not found");
+	}
+
+	const row = await prisma.petstorePet.update({
+		where: { id: id.data },
+		data: fromPet(pet.data),
+	});
+
+	return Response.json(toPet(row));
+}
+
+async function findPetsByStatus(url: URL) {
+	const statuses = z
+		.array(z.enum(PET_STATUSES))
+		.min(1)
+		.safeParse(readList(url, "status"));
+	if (!statuses.success) {
+		return apiError(400, "Invalid status value");
+	}
+
+	const rows = await prisma.petstorePet.findMany({
+		where: { status: { in: statuses.data } },
+		orderBy: { id: "asc" },
+	});
+
+	return Response.json((rows as Array<PetRow>).map(toPet));
+}
+
+async function findPetsByTags(url: URL) {
+	const tags = readList(url, "tags");
+	if (tags.length === 0) {
+		return apiError(400, "Invalid tag value");
+	}
+
+	// Tags are JSON encoded, so filter in memory
+	const rows = (await prisma.petstorePet.findMany({
+		orderBy: { id: "asc" },
+	})) as Array<PetRow>;
+
+	return Response.json(
+		rows
+			.map(toPet)
+			.filter((pet) => pet.tags?.some((tag) => tags.includes(tag.name ?? ""))),
+	);
+}
+
+async function getPetById(rawId: string) {
+	const { row, error } = await findPet(rawId);
+	return error ?? Response.json(toPet(row));
+}
+
+async function updatePetWithForm(request: Request, rawId: string) {
+	const { row, error } = await findPet(rawId);
+	if (error) return error;
+
+	const form = new URLSearchParams(await request.text());
+	const name = form.get("name") ?? undefined;
+	const status = z
+		.enum(PET_STATUSES)
+		.optional()
+		.safeParse(form.get("status") ?? undefined);
+
+	if (name === "" || !status.success) {
+		return apiError(405, "Invalid input");
+	}
+
+	await prisma.petstorePet.update({
+		where: { id: row.id },
+		data: { name, status: status.data },
+	});
+
+	return apiResponse(200, String(row.id));
+}
+
+async function deletePet(rawId: string) {
+	const { row, error } = await findPet(rawId);
+	if (error) return error;
+
+	await prisma.petstorePet.delete({ where: { id: row.id } });
+	return apiResponse(200, String(row.id));
+}
+
+async function uploadFile(request: Request, rawId: string) {
+	const { row, error } = await findPet(rawId);
+	if (error) return error;
+
+	let form: FormData;
+	try {
+		form = await request.formData();
+	} catch {
+		return apiError(400, "Expected multipart/form-data");
+	}
+
+	const file = form.get("file");
+	const metadata = form.get("additionalMetadata");
+	const lines = [`additionalMetadata: ${metadata ?? "null"}`];
+
+	if (file instanceof File) {
+		const bytes = Buffer.from(await file.arrayBuffer());
+		lines.push(`File uploaded to ./${file.name}, ${bytes.length} bytes`);
+
+		// Keep uploaded images viewable by storing them as data URLs
+		if (file.type.startsWith("image/")) {
+			const pet = toPet(row);
+			const dataUrl = `data:${file.type};base64,${bytes.toString("base64")}`;
+			await prisma.petstorePet.update({
+				where: { id: row.id },
+				data: { photoUrls: JSON.stringify([...pet.photoUrls, dataUrl]) },
+			});
+		}
+	}
+
+	return apiResponse(200, lines.join("\n"));
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+async function findOrder(rawId: string) {
+	const id = idSchema.safeParse(rawId);
+	if (!id.success) {
+		return { error: apiError(400, "Invalid ID supplied") };
+	}
+
+	const row = await prisma.petstoreOrder.findUnique({
+		where: { id: id.data },
+	});
+	if (!row) {
+		return { error: apiError(404, "Order not found") };
+	}
+
+	return { row: row as OrderRow };
+}
+
+async function getInventory() {
+	const groups = (await prisma.petstorePet.groupBy({
+		by: ["status"],
+		_count: { _all: true },
+	})) as Array<{ status: string; _count: { _all: number } }>;
+
+	return Response.json(
+		Object.fromEntries(
+			groups.map((group) => [group.status, group._count._all]),
+		),
+	);
+}
+
+async function placeOrder(request: Request) {
+	const order = orderSchema.safeParse(await readJson(request));
+	if (!order.success) {
+		return apiError(400, "Invalid Order");
+	}
+
+	const pet = await prisma.petstorePet.findUnique({
+		where: { id: order.data.petId },
+	});
+	if (!pet) {
+		return apiError(400, "Invalid Order: pet does not exist");
+	}
+
+	const { id, shipDate, ...rest } = order.data;
+	const data = { ...rest, shipDate: shipDate ? new Date(shipDate) : null };
+	const row = id
+		? await prisma.petstoreOrder.upsert({
+				where: { id },
+				create: { id, ...data },
+				update: data,
+			})
+		: await prisma.petstoreOrder.create({ data });
+
+	return Response.json(toOrder(row));
+}
+
+async function getOrderById(rawId: string) {
+	const { row, error } = await findOrder(rawId);
+	return error ?? Response.json(toOrder(row));
+}
+
+async function deleteOrder(rawId: string) {
+	const { row, error } = await findOrder(rawId);
+	if (error) return error;
+
+	await prisma.petstoreOrder.delete({ where: { id: row.id } });
+	return apiResponse(200, String(row.id));
+}
+
+// ============================================================================
+// User
+// ============================================================================
+
+async function findUser(username: string) {
+	if (!username) {
+		return { error: apiError(400, "Invalid username supplied") };
+	}
+
+	const row = await prisma.petstoreUser.findUnique({ where: { username } });
+	if (!row) {
+		return { error: apiError(404, "User not found") };
+	}
+
+	return { row: row as UserRow };
+}
+
+async function upsertUser(user: z.infer<typeof userSchema>) {
+	const data = fromUser(user);
+	return prisma.petstoreUser.upsert({
+		where: { username: user.username },
+		create: data,
+		update: data,
+	});
+}
+
+async function createUser(request: Request) {
+	const user = userSchema.safeParse(await readJson(request));
+	if (!user.success) {
+		return apiError(400, "Invalid user supplied");
+	}
+
+	const row = await upsertUser(user.data);
+	return apiResponse(200, String(row.id));
+}
+
+async function createUsers(request: Request) {
+	const users = z.array(userSchema).safeParse(await readJson(request));
+	if (!users.success) {
+		return apiError(400, "Invalid user list supplied");
+	}
+
+	await prisma.$transaction(users.data.map(upsertUser));
+	return apiResponse(200, "ok");
+}
+
+async function getUserByName(username: string) {
+	const { row, error } = await findUser(username);
+	return error ?? Response.json(toUser(row));
+}
+
+async function updateUser(request: Request, username: string) {
+	const { row, error } = await findUser(username);
+	if (error) return error;
+
+	const user = userSchema.safeParse(await readJson(request));
+	if (!user.success) {
+		return apiError(400, "Invalid user supplied");
+	}
+
+	// Profiles are read without their password, so keep it unless a new one
+	// is sent
+	const data = fromUser(user.data);
+	await prisma.petstoreUser.update({
+		where: { id: row.id },
+		data: { ...data, password: data.password ?? row.password },
+	});
+	return apiResponse(200, String(row.id));
+}
+
+async function deleteUser(username: string) {
+	const { row, error } = await findUser(username);
+	if (error) return error;
+
+	await prisma.petstoreUser.delete({ where: { id: row.id } });
+	return apiResponse(200, username);
+}
+
+const RATE_LIMIT = 5000;
+const SESSION_TTL_MS = 1000 * 60 * 60;
+
+async function loginUser(url: URL) {
+	const username = url.searchParams.get("username");
+	const password = url.searchParams.get("password");
+	if (!username || !password) {
+		return apiError(400, "Invalid username/password supplied");
+	}
+
+	const row = (await prisma.petstoreUser.findUnique({
+		where: { username },
+	})) as UserRow | null;
+	// Users created without a password can't log in
+	if (!row?.password || row.password !== password) {
+		return apiError(400, "Invalid username/password supplied");
+	}
+
+	return Response.json(`logged in user session:${crypto.randomUUID()}`, {
+		headers: {
+			"X-Rate-Limit": String(RATE_LIMIT),
+			"X-Expires-After": new Date(Date.now() + SESSION_TTL_MS).toUTCString(),
+		},
+	});
+}
+
+function logoutUser() {
+	return apiResponse(200, "ok");
+}
+
+// ============================================================================
+// Dispatch
+// ============================================================================
+
+type Route = {
+	method: string;
+	pattern: RegExp;
+	handle: (request: Request, url: URL, param: string) => Promise<Response>;
+	// Only answered for requests forwarded by `/api/petstore`
+	proxyOnly?: boolean;
+};
+
+// The proxy signs its requests with a key derived from the session secret,
+// so it works across server processes and can't be forged from a browser
+export const PETSTORE_PROXY_HEADER = "X-Petstore-Proxy";
+
+export function petstoreProxyKey() {
+	return createHmac("sha256", process.env.SESSION_SECRET ?? "")
+		.update("petstore-mock-proxy")
+		.digest("hex");
+}
+
+function isFromProxy(request: Request) {
+	const key = Buffer.from(request.headers.get(PETSTORE_PROXY_HEADER) ?? "");
+	const expected = Buffer.from(petstoreProxyKey());
+	return key.length === expected.length && timingSafeEqual(key, expected);
+}
+
+// Order matters: literal segments must come before `{param}` segments
+const routes: Array<Route> = [
+	{
+		method: "POST",
+		pattern: /^\/pet\/([^/]+)\/uploadImage$/,
+		handle: (request, _url, id) => uploadFile(request, id),
+	},
+	{ method: "POST", pattern: /^\/pet$/, handle: (request) => addPet(request) },
+	{
+		method: "PUT",
+		pattern: /^\/pet$/,
+		handle: (request) => updatePet(request),
+	},
+	{
+		method: "GET",
+		pattern: /^\/pet\/findByStatus$/,
+		handle: (_request, url) => findPetsByStatus(url),
+	},
+	{
+		method: "GET",
+		pattern: /^\/pet\/findByTags$/,
+		handle: (_request, url) => findPetsByTags(url),
+	},
+	{
+		method: "GET",
+		pattern: /^\/pet\/([^/]+)$/,
+		handle: (_request, _url, id) => getPetById(id),
+	},
+	{
+		method: "POST",
+		pattern: /^\/pet\/([^/]+)$/,
+		handle: (request, _url, id) => updatePetWithForm(request, id),
+	},
+	{
+		method: "DELETE",
+		pattern: /^\/pet\/([^/]+)$/,
+		handle: (_request, _url, id) => deletePet(id),
+	},
+	{
+		method: "GET",
+		pattern: /^\/store\/inventory$/,
+		handle: () => getInventory(),
+	},
+	{
+		method: "POST",
+		pattern: /^\/store\/order$/,
+		handle: (request) => placeOrder(request),
+	},
+	{
+		method: "GET",
+		pattern: /^\/store\/order\/([^/]+)$/,
+		handle: (_request, _url, id) => getOrderById(id),
+	},
+	{
+		method: "DELETE",
+		pattern: /^\/store\/order\/([^/]+)$/,
+		handle: (_request, _url, id) => deleteOrder(id),
+	},
+	{
+		method: "POST",
+		pattern: /^\/user\/createWith(?:List|Array)$/,
+		handle: (request) => createUsers(request),
+		proxyOnly: true,
+	},
+	{
+		method: "GET",
+		pattern: /^\/user\/login$/,
+		handle: (_request, url) => loginUser(url),
+	},
+	{
+		method: "GET",
+		pattern: /^\/user\/logout$/,
+		handle: async () => logoutUser(),
+	},
+	{
+		method: "POST",
+		pattern: /^\/user$/,
+		handle: (request) => createUser(request),
+		proxyOnly: true,
+	},
+	{
+		method: "GET",
+		pattern: /^\/user\/([^/]+)$/,
+		handle: (_request, _url, username) => getUserByName(username),
+	},
+	{
+		method: "PUT",
+		pattern: /^\/user\/([^/]+)$/,
+		handle: (request, _url, username) => updateUser(request, username),
+		proxyOnly: true,
+	},
+	{
+		method: "DELETE",
+		pattern: /^\/user\/([^/]+)$/,
+		handle: (_request, _url, username) => deleteUser(username),
+		proxyOnly: true,
+	},
+];
+
+function isPetstoreMockEnabled() {
+	return import.meta.env.DEV || import.meta.env.VITE_PETSTORE_MOCK === "true";
+}
+
+/**
+ * Handle a request for `/mock/petstore/v2/<path>`.
+ */
+export async function handlePetstoreMock(request: Request, path = "") {
+	if (!isPetstoreMockEnabled()) {
+		return new Response("Not Found", { status: 404 });
+	}
+
+	const url = new URL(request.url);
+	const pathname = `/${path.replace(/^\/+|\/+$/g, "")}`;
+
+	const matches = routes
+		.map((route) => ({ route, match: route.pattern.exec(pathname) }))
+		.filter(({ match }) => match !== null);
+
+	if (matches.length === 0) {
+		return apiError(404, `No operation at ${pathname}`);
+	}
+
+	const found = matches.find(({ route }) => route.method === request.method);
+	if (!found) {
+		return apiError(405, `Method ${request.method} not allowed`);
+	}
+
+	if (found.route.proxyOnly && !isFromProxy(request)) {
+		return apiError(403, "User changes must go through /api/petstore");
+	}
+
+	let param: string;
+	try {
+		param = decodeURIComponent(found.match?.[1] ?? "");
+	} catch {
+		// Malformed percent-encoding, such as `/pet/%E0`
+		return apiError(400, "Invalid path parameter");
+	}
+	return found.route.handle(request, url, param);
+}
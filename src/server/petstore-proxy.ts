@@ -0,0 +1,174 @@
+import type { ApiResponse } from "@/api/petstore/types.gen";
+import { getPetstoreBaseUrl, isPetstoreSimulator } from "@/api/petstore-client";
+import { getPetstoreToken } from "@/lib/auth";
+import { hasPermission, type Permission } from "@/lib/permissions";
+import { getSessionUser } from "@/server/auth";
+import {
+	PETSTORE_PROXY_HEADER,
+	petstoreProxyKey,
+} from "@/server/petstore-mock";
+
+// Headers that describe the browser <-> app hop and must not be forwarded
+const HOP_HEADERS = [
+	"connection",
+	"content-length",
+	"cookie",
+	"host",
+	"transfer-encoding",
+];
+
+// fetch() already decoded the body, so these would no longer be accurate
+const DECODED_RESPONSE_HEADERS = ["content-encoding", "content-length"];
+
+type ProxyRule = {
+	method: string;
+	pattern: RegExp;
+	// Omitted for operations any signed-in user may call
+	permission?: Permission | ((body: unknown) => Permission | undefined);
+};
+
+// Anyone can buy a pet; changing or cancelling an existing order is for
+// order managers
+function orderPermission(body: unknown): Permission | undefined {
+	const order = (body ?? {}) as Record<string, unknown>;
+	const isNewOrder =
+		order.id === undefined &&
+		(order.status ?? "placed") === "placed" &&
+		!order.complete;
+	return isNewOrder ? undefined : "orders:manage";
+}
+
+// Operations the proxy forwards. Anything else is refused
+const rules: Array<ProxyRule> = [
+	{ method: "GET", pattern: /^pet\/(?:findByStatus|findByTags|[^/]+)$/ },
+	{ method: "POST", pattern: /^pet$/, permission: "pets:create" },
+	{ method: "PUT", pattern: /^pet$/, permission: "pets:update" },
+	{
+		method: "POST",
+		pattern: /^pet\/[^/]+(?:\/uploadImage)?$/,
+		permission: "pets:update",
+	},
+	{ method: "DELETE", pattern: /^pet\/[^/]+$/, permission: "pets:delete" },
+	{ method: "GET", pattern: /^store\/inventory$/ },
+	{ method: "POST", pattern: /^store\/order$/, permission: orderPermission },
+	{ method: "GET", pattern: /^store\/order\/[^/]+$/ },
+	{
+		method: "DELETE",
+		pattern: /^store\/order\/[^/]+$/,
+		permission: "orders:manage",
+	},
+	// Profiles include passwords. Signing in and out happens server-side, so
+	// `user/login` and `user/logout` are refused
+	{
+		method: "GET",
+		pattern: /^user\/(?!log(?:in|out)$)[^/]+$/,
+		permission: "users:manage",
+	},
+	{
+		method: "POST",
+		pattern: /^user(?:\/createWith(?:List|Array))?$/,
+		permission: "users:manage",
+	},
+	{ method: "PUT", pattern: /^user\/[^/]+$/, permission: "users:manage" },
+	{ method: "DELETE", pattern: /^user\/[^/]+$/, permission: "users:manage" },
+];
+
+function apiError(code: number, message: string) {
+	return Response.json({ code, type: "error", message } satisfies ApiResponse, {
+		status: code,
+	});
+}
+
+// Dot segments, backslashes and encoded separators could climb out of the
+// upstream base path once the URL is resolved
+function isSafePath(path: string) {
+	return (
+		!/\\|%2f|%5c|%2e/i.test(path) &&
+		path.split("/").every((segment) => segment !== "." && segment !== "..")
+	);
+}
+
+function readJsonBody(body: ArrayBuffer | undefined) {
+	try {
+		return body ? JSON.parse(new TextDecoder().decode(body)) : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Forward a browser request to the Petstore API, attaching the token from the
+ * session so it never has to be exposed to client-side JavaScript. Callers must
+ * be signed in, and their role must grant the operation's permission.
+ */
+export async function proxyPetstoreRequest(request: Request, path = "") {
+	if (!isSafePath(path)) {
+		return apiError(400, "Invalid path");
+	}
+
+	const rule = rules.find(
+		({ method, pattern }) => method === request.method && pattern.test(path),
+	);
+	if (!rule) {
+		return apiError(404, `No operation at ${request.method} /${path}`);
+	}
+
+	const user = await getSessionUser();
+	if (!user) {
+		return apiError(401, "You must be signed in");
+	}
+
+	const hasBody = request.method !== "GET" && request.method !== "HEAD";
+	const body = hasBody ? await request.arrayBuffer() : undefined;
+
+	const permission =
+		typeof rule.permission === "function"
+			? rule.permission(readJsonBody(body))
+			: rule.permission;
+	if (permission && !hasPermission(user.role, permission)) {
+		return apiError(403, `Missing permission: ${permission}`);
+	}
+
+	const base = getPetstoreBaseUrl();
+	const incoming = new URL(request.url);
+	const upstream = new URL(`${base}/${path}`);
+	if (!upstream.href.startsWith(`${base}/`)) {
+		return apiError(400, "Invalid path");
+	}
+	upstream.search = incoming.search;
+
+	const headers = new Headers(request.headers);
+	for (const name of HOP_HEADERS) {
+		headers.delete(name);
+	}
+	// Vouches for the permission check above, so the simulator accepts user
+	// changes. Never sent anywhere else
+	headers.delete(PETSTORE_PROXY_HEADER);
+	if (isPetstoreSimulator()) {
+		headers.set(PETSTORE_PROXY_HEADER, petstoreProxyKey());
+	}
+
+	const token = await getPetstoreToken();
+	if (token) {
+		// Petstore uses a bearer token for most operations and `api_key` for the rest
+		headers.set("Authorization", `Bearer ${token}`);
+		headers.set("api_key", token);
+	}
+
+	const response = await fetch(upstream, {
+		method: request.method,
+		headers,
+		body,
+	});
+
+	const responseHeaders = new Headers(response.headers);
+	for (const name of DECODED_RESPONSE_HEADERS) {
+		responseHeaders.delete(name);
+	}
+
+	return new Response(response.body, {
+		status: response.status,
+		statusText: response.statusText,
+		headers: responseHeaders,
+	});
+}
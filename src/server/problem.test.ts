@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	PROBLEM_CONTENT_TYPE,
+	ProblemError,
+	problemResponse,
+	withProblemDetails,
+} from "./problem";
+
+const request = new Request("http://localhost/demo/api/things/1?x=1");
+
+describe("problemResponse", () => {
+	it("sends problem+json with a default type", async () => {
+		const response = problemResponse(
+			{ title: "Gone", status: 410 },
+			{ "Retry-After": "10" },
+		);
+
+		expect(response.status).toBe(410);
+		expect(response.headers.get("Content-Type")).toBe(PROBLEM_CONTENT_TYPE);
+		expect(response.headers.get("Retry-After")).toBe("10");
+		expect(await response.json()).toEqual({
+			type: "about:blank",
+			title: "Gone",
+			status: 410,
+		});
+	});
+});
+
+describe("withProblemDetails", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("passes responses through", async () => {
+		const handler = withProblemDetails(() => new Response("ok"));
+
+		expect(await (await handler({ request })).text()).toBe("ok");
+	});
+
+	it("answers a ProblemError with its problem, headers and the path", async () => {
+		const handler = withProblemDetails(() => {
+			throw new ProblemError(
+				{ title: "Conflict", status: 409, detail: "Taken", field: "name" },
+				{ ETag: '"1-2"' },
+			);
+		});
+
+		const response = await handler({ request });
+
+		expect(response.status).toBe(409);
+		expect(response.headers.get("Content-Type")).toBe(PROBLEM_CONTENT_TYPE);
+		expect(response.headers.get("ETag")).toBe('"1-2"');
+		expect(await response.json()).toEqual({
+			type: "about:blank",
+			title: "Conflict",
+			status: 409,
+			detail: "Taken",
+			field: "name",
+			instance: "/demo/api/things/1",
+		});
+	});
+
+	it("hides other errors behind a 500", async () => {
+		const log = vi.spyOn(console, "error").mockImplementation(() => {});
+		const handler = withProblemDetails(async () => {
+			throw new Error("database password is hunter2");
+		});
+
+		const response = await handler({ request });
+
+		expect(response.status).toBe(500);
+		expect(await response.json()).toEqual({
+			type: "about:blank",
+			title: "Internal Server Error",
+			status: 500,
+		});
+		expect(log).toHaveBeenCalled();
+	});
+});
@@ -0,0 +1,121 @@
+import { z } from "zod";
+import type { ApiResponseSpec } from "@/server/openapi";
+
+// RFC 7807 "problem details" error responses for server routes
+
+export const PROBLEM_CONTENT_TYPE = "application/problem+json";
+
+export type ProblemDetails = {
+	// URI identifying the problem type; "about:blank" means "see status"
+	type?: string;
+	title: string;
+	status: number;
+	detail?: string;
+	instance?: string;
+	// Extension members
+	[key: string]: unknown;
+};
+
+export const problemDetailsSchema = z
+	.looseObject({
+		type: z.string().optional(),
+		title: z.string(),
+		status: z.number().int(),
+		detail: z.string().optional(),
+		instance: z.string().optional(),
+	})
+	.meta({ id: "ProblemDetails" });
+
+/**
+ * OpenAPI description of a problem+json error response.
+ */
+export function problemSpec(description: string): ApiResponseSpec {
+	return {
+		description,
+		schema: problemDetailsSchema,
+		contentType: PROBLEM_CONTENT_TYPE,
+	};
+}
+
+/**
+ * Throw from a handler wrapped in `withProblemDetails` to answer with a
+ * problem+json response.
+ */
+export class ProblemError extends Error {
+	constructor(
+		readonly problem: ProblemDetails,
+		readonly headers?: HeadersInit,
+	) {
+		super(problem.detail ?? problem.title);
+		this.name = "ProblemError";
+	}
+}
+
+export function problemResponse(problem: ProblemDetails, init?: HeadersInit) {
+	const headers = new Headers(init);
+	headers.set("Content-Type", PROBLEM_CONTENT_TYPE);
+
+	return new Response(JSON.stringify({ type: "about:blank", ...problem }), {
+		status: problem.status,
+		headers,
+	});
+}
+
+/**
+ * Turn `ProblemError`s thrown by `handler` into problem+json responses and
+ * anything else into an opaque 500.
+ */
+export function withProblemDetails<TContext extends { request: Request }>(
+	handler: (context: TContext) => Promise<Response> | Response,
+) {
+	return async (context: TContext) => {
+		try {
+			return await handler(context);
+		} catch (error) {
+			if (error instanceof ProblemError) {
+				return problemResponse(
+					{ instance: new URL(context.request.url).pathname, ...error.problem },
+					error.headers,
+				);
+			}
+
+			console.error("Unhandled error in", context.request.url, error);
+			return problemResponse({ title: "Internal Server Error", status: 500 });
+		}
+	};
+}
+
+/**
+ * Parse and validate a JSON request body. Malformed JSON is a 400; a body
+ * that fails `schema` is a 422 listing each invalid field.
+ */
+export async function parseJsonBody<T>(
+	request: Request,
+	schema: z.ZodType<T>,
+): Promise<T> {
+	let body: unknown;
+	try {
+		body = await request.json();
+	} catch {
+		throw new ProblemError({
+			title: "Malformed JSON",
+			status: 400,
+			detail: "The request body is not valid JSON",
+		});
+	}
+
+	const result = schema.safeParse(body);
+	if (!result.success) {
+		throw new ProblemError({
+			title: "Validation Failed",
+			status: 422,
+			detail: "The request body does not match the expected schema",
+			errors: result.error.issues.map((issue) => ({
+				path: issue.path.join("."),
+				message: issue.message,
+			})),
+		});
+	}
+
+	return result.data;
+}
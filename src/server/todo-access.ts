@@ -0,0 +1,70 @@
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { prisma } from "@/db";
+import type { ShareAccess } from "@/lib/permissions";
+
+// "owner" outranks "editor", which outranks "viewer"
+export type ListAccess = "owner" | ShareAccess;
+
+const RANK: Record<ListAccess, number> = { viewer: 0, editor: 1, owner: 2 };
+
+// The signed-in user, as `requirePermission` puts them in context
+type ListUser = { id: string };
+
+/**
+ * Resolve what `user` may do with the todo list belonging to `ownerId`, or
+ * `null` when they haven't accepted an invitation to it.
+ */
+export async function getListAccess(
+	user: ListUser,
+	ownerId: string,
+): Promise<ListAccess | null> {
+	if (user.id === ownerId) return "owner";
+
+	// Pending invitations grant nothing: the email they were sent to may
+	// belong to someone else (see `acceptTodoInvite`)
+	const share = await prisma.todoShare.findFirst({
+		where: { ownerId, userId: user.id },
+	});
+	if (!share) return null;
+
+	return share.access === "editor" ? "editor" : "viewer";
+}
+
+/**
+ * Throw unless `user` has at least `required` access to `ownerId`'s list.
+ * Lists the user cannot see at all respond 404 so ids don't leak.
+ */
+export async function assertListAccess(
+	user: ListUser,
+	ownerId: string,
+	required: ListAccess,
+) {
+	const access = await getListAccess(user, ownerId);
+
+	if (!access) {
+		setResponseStatus(404);
+		throw new Error("Todo list not found");
+	}
+
+	if (RANK[access] < RANK[required]) {
+		setResponseStatus(403);
+		throw new Error(`This list is shared with you as ${access}`);
+	}
+
+	return access;
+}
+
+/**
+ * Load a todo the user is allowed to edit, enforcing list access.
+ */
+export async function findEditableTodo(user: ListUser, id: number) {
+	const todo = await prisma.todo.findUnique({ where: { id } });
+
+	if (!todo) {
+		setResponseStatus(404);
+		throw new Error("Todo not found");
+	}
+
+	await assertListAccess(user, todo.ownerId, "editor");
+	return todo;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from "vitest";
+import { toFtsQuery } from "./todo-search";
+
+// `toFtsQuery` never touches the database
+vi.mock("@/db", () => ({ prisma: {} }));
+
+describe("toFtsQuery", () => {
+	it("matches every word as a prefix", () => {
+		expect(toFtsQuery("buy milk")).toBe('"buy"* "milk"*');
+	});
+
+	it("is empty without any words", () => {
+		expect(toFtsQuery("")).toBe("");
+		expect(toFtsQuery("   ")).toBe("");
+		expect(toFtsQuery('"*-()^:')).toBe("");
+	});
+
+	it("drops quotes, so a term can't close its own string", () => {
+		expect(toFtsQuery('say "hello" world')).toBe('"say"* "hello"* "world"*');
+		expect(toFtsQuery('a"b')).toBe('"a"* "b"*');
+	});
+
+	it("quotes operators and column filters as plain words", () => {
+		expect(toFtsQuery("cats OR dogs")).toBe('"cats"* "OR"* "dogs"*');
+		expect(toFtsQuery("NOT NEAR(a b)")).toBe('"NOT"* "NEAR"* "a"* "b"*');
+		expect(toFtsQuery("notes:secret -draft ^first")).toBe(
+			'"notes"* "secret"* "draft"* "first"*',
+		);
+	});
+
+	it("keeps letters and digits from any script", () => {
+		expect(toFtsQuery("café 2024 naïve_test")).toBe(
+			'"café"* "2024"* "naïve_test"*',
+		);
+		expect(toFtsQuery("日本語")).toBe('"日本語"*');
+	});
+});
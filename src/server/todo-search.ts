@@ -0,0 +1,56 @@
+import { prisma } from "@/db";
+import { HIGHLIGHT_END, HIGHLIGHT_START } from "@/lib/highlight";
+
+// Queries the `TodoSearch` FTS5 table created by the todo_search migration
+// (migrations/20261019000100_todo_search)
+
+export type TodoMatch = {
+	id: number;
+	// Title with every match wrapped in highlight markers
+	title: string;
+	// Up to a dozen tokens of the notes around the best match
+	snippet: string;
+	rank: number;
+};
+
+/**
+ * Turn free text into an FTS5 query: every word must match, as a prefix.
+ * Quoting each term keeps operators and punctuation from being parsed as
+ * query syntax.
+ */
+export function toFtsQuery(input: string) {
+	const terms = input.match(/[\p{L}\p{N}_]+/gu) ?? [];
+	return terms.map((term) => `"${term}"*`).join(" ");
+}
+
+/**
+ * Best-ranked matches in one owner's list, most relevant first.
+ */
+export async function matchTodos(
+	ownerId: string,
+	input: string,
+	limit: number,
+): Promise<Array<TodoMatch>> {
+	const query = toFtsQuery(input);
+	if (!query) return [];
+
+	const rows = await prisma.$queryRaw<Array<TodoMatch>>`
+		SELECT
+			t.id AS id,
+			highlight("TodoSearch", 0, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}) AS title,
+			snippet("TodoSearch", 1, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}, '…', 12) AS snippet,
+			bm25("TodoSearch") AS rank
+		FROM "TodoSearch"
+		JOIN "Todo" t ON t.id = "TodoSearch".rowid
+		WHERE "TodoSearch" MATCH ${query} AND t.ownerId = ${ownerId}
+		ORDER BY rank
+		LIMIT ${limit}
+	`;
+
+	// SQLite integers can come back as BigInt from raw queries
+	return rows.map((row) => ({
+		...row,
+		id: Number(row.id),
+		rank: Number(row.rank),
+	}));
+}
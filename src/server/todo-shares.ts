@@ -0,0 +1,165 @@
+import { randomBytes } from "node:crypto";
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { z } from "zod";
+import { prisma } from "@/db";
+import { SHARE_ACCESS, type ShareAccess } from "@/lib/permissions";
+import { requirePermission } from "@/server/permissions";
+
+// Sharing a list sends an invitation: a link to `/demo/todo-invite/<token>`
+// that the owner passes on. Emails aren't verified, so matching the email
+// alone would let whoever registers it first into the list. Access starts
+// once the invitee opens the link signed in with the invited email.
+
+const INVITE_TOKEN_BYTES = 24;
+
+function toShareAccess(value: string): ShareAccess {
+	return value === "editor" ? "editor" : "viewer";
+}
+
+const invitePath = (token: string | null) =>
+	token ? `/demo/todo-invite/${token}` : null;
+
+const inviteInput = z.object({ token: z.string().min(1).max(100) });
+
+// The pending invitation behind `token`, if it was sent to `email`. Anyone
+// else gets the same "not found", so links can't be probed.
+async function findInvite(token: string, email: string) {
+	const share = await prisma.todoShare.findUnique({
+		where: { token },
+		include: { owner: { select: { id: true, name: true } } },
+	});
+
+	if (!share || share.email !== email.toLowerCase()) {
+		setResponseStatus(404);
+		throw new Error("This invitation doesn't exist or isn't for you");
+	}
+	return share;
+}
+
+// Lists the signed-in user can open: their own plus those shared with them
+export const getTodoLists = createServerFn({
+	method: "GET",
+})
+	.middleware([requirePermission("todos:read")])
+	.handler(async ({ context }) => {
+		const shares = await prisma.todoShare.findMany({
+			where: { userId: context.user.id },
+			include: { owner: { select: { id: true, name: true, email: true } } },
+			orderBy: { createdAt: "asc" },
+		});
+
+		return shares.map((share) => ({
+			ownerId: share.owner.id,
+			name: share.owner.name,
+			email: share.owner.email,
+			access: toShareAccess(share.access),
+		}));
+	});
+
+// Emails the signed-in user has shared their own list with, and the link
+// for invitations not accepted yet. Names aren't included, as they would
+// reveal which emails have an account.
+export const getTodoShares = createServerFn({
+	method: "GET",
+})
+	.middleware([requirePermission("todos:read")])
+	.handler(async ({ context }) => {
+		const shares = await prisma.todoShare.findMany({
+			where: { ownerId: context.user.id },
+			orderBy: { createdAt: "asc" },
+		});
+
+		return shares.map((share) => ({
+			email: share.email,
+			access: toShareAccess(share.access),
+			invitePath: invitePath(share.token),
+		}));
+	});
+
+export const shareTodoList = createServerFn({
+	method: "POST",
+})
+	.middleware([requirePermission("todos:write")])
+	.inputValidator(
+		z.object({
+			email: z.email("Please enter a valid email"),
+			access: z.enum(SHARE_ACCESS),
+		}),
+	)
+	.handler(async ({ data, context }) => {
+		const email = data.email.toLowerCase();
+
+		if (email === context.user.email.toLowerCase()) {
+			setResponseStatus(400);
+			throw new Error("You already own this list");
+		}
+
+		// The answer is the same whether or not the email has an account, so
+		// sharing can't be used to find out. Sharing again with the same email
+		// just changes its access.
+		const share = await prisma.todoShare.upsert({
+			where: { ownerId_email: { ownerId: context.user.id, email } },
+			create: {
+				ownerId: context.user.id,
+				email,
+				access: data.access,
+				token: randomBytes(INVITE_TOKEN_BYTES).toString("base64url"),
+			},
+			update: { access: data.access },
+		});
+
+		return { email, access: data.access, invitePath: invitePath(share.token) };
+	});
+
+export const unshareTodoList = createServerFn({
+	method: "POST",
+})
+	.middleware([requirePermission("todos:write")])
+	.inputValidator(z.object({ email: z.email() }))
+	.handler(async ({ data, context }) => {
+		const email = data.email.toLowerCase();
+		await prisma.todoShare.deleteMany({
+			where: { ownerId: context.user.id, email },
+		});
+
+		return { email };
+	});
+
+// What an invitation offers, shown before accepting it
+export const getTodoInvite = createServerFn({
+	method: "GET",
+})
+	.middleware([requirePermission("todos:read")])
+	.inputValidator(inviteInput)
+	.handler(async ({ data, context }) => {
+		const share = await findInvite(data.token, context.user.email);
+
+		return {
+			ownerId: share.owner.id,
+			name: share.owner.name,
+			access: toShareAccess(share.access),
+		};
+	});
+
+// Bind the invitation to the signed-in user. The token is used up, so the
+// link can't be accepted again.
+export const acceptTodoInvite = createServerFn({
+	method: "POST",
+})
+	.middleware([requirePermission("todos:read")])
+	.inputValidator(inviteInput)
+	.handler(async ({ data, context }) => {
+		const share = await findInvite(data.token, context.user.email);
+
+		const { count } = await prisma.todoShare.updateMany({
+			where: { id: share.id, token: data.token },
+			data: { userId: context.user.id, token: null },
+		});
+		if (count === 0) {
+			setResponseStatus(404);
+			throw new Error("This invitation doesn't exist or isn't for you");
+		}
+
+		return { ownerId: share.owner.id };
+	});
@@ -0,0 +1,244 @@
+import type { Prisma, Todo } from "@prisma/client";
+import { createServerFn } from "@tanstack/react-start";
+import { setResponseStatus } from "@tanstack/react-start/server";
+import { z } from "zod";
+import { prisma } from "@/db";
+import { stripControlCharacters } from "@/lib/highlight";
+import {
+	type TodoFilters,
+	type TodoSort,
+	todoFiltersSchema,
+} from "@/lib/todo-filters";
+import { requirePermission } from "@/server/permissions";
+import { assertListAccess, findEditableTodo } from "@/server/todo-access";
+import { matchTodos } from "@/server/todo-search";
+import { serializable } from "@/server/transactions";
+
+const todoId = z.number().int().positive();
+
+// Todo text can't contain the markers search results are highlighted with
+const todoText = () => z.string().overwrite(stripControlCharacters);
+
+// Omitting `ownerId` means the signed-in user's own list
+const listInput = z.object({ ownerId: z.string().min(1).optional() });
+
+const TODO_ORDER: Record<TodoSort, Prisma.TodoOrderByWithRelationInput[]> = {
+	position: [{ position: "asc" }, { createdAt: "desc" }, { id: "asc" }],
+	newest: [{ createdAt: "desc" }, { id: "desc" }],
+	oldest: [{ createdAt: "asc" }, { id: "asc" }],
+	title: [{ title: "asc" }, { id: "asc" }],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Most full-text matches a filtered listing will page through
+const MAX_TEXT_MATCHES = 500;
+
+// Text search (`q`) goes through the FTS index, see `matchTodos`
+function todoWhere(
+	ownerId: string,
+	filters: TodoFilters,
+): Prisma.TodoWhereInput {
+	return {
+		ownerId,
+		...(filters.status !== "all" && {
+			completed: filters.status === "completed",
+		}),
+		...((filters.from || filters.to) && {
+			createdAt: {
+				...(filters.from && { gte: new Date(filters.from) }),
+				// `to` is inclusive, so stop at the start of the next day
+				...(filters.to && {
+					lt: new Date(new Date(filters.to).getTime() + DAY_MS),
+				}),
+			},
+		}),
+	};
+}
+
+/**
+ * One page of a todo list. Pass the previous page's `nextCursor` as `cursor`
+ * to continue; `nextCursor` is `null` on the last page.
+ */
+export const getTodos = createServerFn({
+	method: "GET",
+})
+	.middleware([requirePermission("todos:read")])
+	.inputValidator(
+		todoFiltersSchema.extend({
+			cursor: todoId.optional(),
+			limit: z.number().int().min(1).max(100).default(20),
+		}),
+	)
+	.handler(async ({ data, context }) => {
+		const ownerId = data.list ?? context.user.id;
+		const access = await assertListAccess(context.user, ownerId, "viewer");
+
+		const matches = data.q
+			? await matchTodos(ownerId, data.q, MAX_TEXT_MATCHES)
+			: null;
+
+		// Fetch one extra row to learn whether another page follows
+		const rows = await prisma.todo.findMany({
+			where: {
+				...todoWhere(ownerId, data),
+				...(matches && { id: { in: matches.map((match) => match.id) } }),
+			},
+			orderBy: TODO_ORDER[data.sort],
+			take: data.limit + 1,
+			...(data.cursor && { cursor: { id: data.cursor }, skip: 1 }),
+		});
+
+		const todos = rows.slice(0, data.limit);
+		const nextCursor =
+			rows.length > data.limit ? todos[todos.length - 1].id : null;
+
+		return { ownerId, access, todos, nextCursor };
+	});
+
+/**
+ * Full-text search within a list, best matches first. Each result carries
+ * the title and a notes snippet with matches wrapped in highlight markers.
+ * The status and date filters apply; `sort` is ignored in favour of rank.
+ */
+export const searchTodos = createServerFn({
+	method: "GET",
+})
+	.middleware([requirePermission("todos:read")])
+	.inputValidator(
+		todoFiltersSchema.extend({
+			q: z.string().trim().min(1).max(200),
+			limit: z.number().int().min(1).max(50).default(20),
+		}),
+	)
+	.handler(async ({ data, context }) => {
+		const ownerId = data.list ?? context.user.id;
+		await assertListAccess(context.user, ownerId, "viewer");
+
+		const matches = await matchTodos(ownerId, data.q, MAX_TEXT_MATCHES);
+		const todos = await prisma.todo.findMany({
+			where: {
+				...todoWhere(ownerId, data),
+				id: { in: matches.map((match) => match.id) },
+			},
+		});
+		const todosById = new Map<number, Todo>(
+			todos.map((todo) => [todo.id, todo]),
+		);
+
+		// Keep rank order and drop matches the filters excluded
+		return matches
+			.flatMap((match) => {
+				const todo = todosById.get(match.id);
+				return todo
+					? [{ todo, highlightedTitle: match.title, snippet: match.snippet }]
+					: [];
+			})
+			.slice(0, data.limit);
+	});
+
+export const createTodo = createServerFn({
+	method: "POST",
+})
+	.middleware([requirePermission("todos:write")])
+	.inputValidator(listInput.extend({ title: todoText().trim().min(1) }))
+	.handler(async ({ data, context }) => {
+		const ownerId = data.ownerId ?? context.user.id;
+		await assertListAccess(context.user, ownerId, "editor");
+
+		// New todos go to the end of the list. Reading the last position and
+		// inserting in one transaction keeps concurrent creates from sharing it.
+		return await serializable(async (tx) => {
+			const { _max } = await tx.todo.aggregate({
+				where: { ownerId },
+				_max: { position: true },
+			});
+
+			return tx.todo.create({
+				data: {
+					title: data.title,
+					ownerId,
+					position: (_max.position ?? -1) + 1,
+				},
+			});
+		});
+	});
+
+export const updateTodo = createServerFn({
+	method: "POST",
+})
+	.middleware([requirePermission("todos:write")])
+	.inputValidator(
+		z.object({
+			id: todoId,
+			title: todoText().trim().min(1).optional(),
+			notes: todoText().max(10_000).optional(),
+		}),
+	)
+	.handler(async ({ data, context }) => {
+		await findEditableTodo(context.user, data.id);
+
+		return await prisma.todo.update({
+			where: { id: data.id },
+			data: { title: data.title, notes: data.notes },
+		});
+	});
+
+export const toggleTodo = createServerFn({
+	method: "POST",
+})
+	.middleware([requirePermission("todos:write")])
+	.inputValidator(z.object({ id: todoId, completed: z.boolean() }))
+	.handler(async ({ data, context }) => {
+		await findEditableTodo(context.user, data.id);
+
+		return await prisma.todo.update({
+			where: { id: data.id },
+			data: {
+				completed: data.completed,
+				completedAt: data.completed ? new Date() : null,
+			},
+		});
+	});
+
+export const deleteTodo = createServerFn({
+	method: "POST",
+})
+	.middleware([requirePermission("todos:write")])
+	.inputValidator(z.object({ id: todoId }))
+	.handler(async ({ data, context }) => {
+		await findEditableTodo(context.user, data.id);
+
+		await prisma.todo.delete({ where: { id: data.id } });
+		return { id: data.id };
+	});
+
+// Persist a new order: each id's index in `ids` becomes its position
+export const reorderTodos = createServerFn({
+	method: "POST",
+})
+	.middleware([requirePermission("todos:write")])
+	.inputValidator(z.object({ ids: z.array(todoId).min(1) }))
+	.handler(async ({ data, context }) => {
+		const todos = await prisma.todo.findMany({
+			where: { id: { in: data.ids } },
+			select: { ownerId: true },
+		});
+		const ownerIds = new Set<string>(todos.map((todo) => todo.ownerId));
+
+		// Every id must exist and belong to the same list
+		if (todos.length !== data.ids.length || ownerIds.size !== 1) {
+			setResponseStatus(400);
+			throw new Error("Todos must all belong to one list");
+		}
+
+		const [ownerId] = ownerIds;
+		await assertListAccess(context.user, ownerId, "editor");
+
+		await prisma.$transaction(
+			data.ids.map((id, position) =>
+				prisma.todo.update({ where: { id }, data: { position } }),
+			),
+		);
+		return { ids: data.ids };
+	});
@@ -0,0 +1,205 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { tqTodoEtag } from "@/lib/tq-todos";
+import { Route } from "@/routes/demo/api.tq-todos.$id";
+import { PROBLEM_CONTENT_TYPE } from "./problem";
+import { etagMatches } from "./tq-todos";
+
+type Handler = (context: {
+	request: Request;
+	params: { id: string };
+}) => Promise<Response>;
+
+const handlers = Route.options.server?.handlers as Record<
+	"GET" | "PATCH" | "DELETE",
+	Handler
+>;
+
+function call(
+	method: "GET" | "PATCH" | "DELETE",
+	id: string,
+	init: { headers?: Record<string, string>; body?: unknown } = {},
+) {
+	const url = `http://localhost/demo/api/tq-todos/${id}`;
+	const request = new Request(url, {
+		method,
+		headers: init.headers,
+		body: init.body === undefined ? undefined : JSON.stringify(init.body),
+	});
+	return handlers[method]({ request, params: { id } });
+}
+
+describe("etagMatches", () => {
+	const etag = '"1-2"';
+
+	it("matches the exact tag, any tag in a list, or *", () => {
+		expect(etagMatches('"1-2"', etag)).toBe(true);
+		expect(etagMatches('"1-1", "1-2"', etag)).toBe(true);
+		expect(etagMatches('"1-1","1-2"', etag)).toBe(true);
+		expect(etagMatches("*", etag)).toBe(true);
+		expect(etagMatches('"1-1", *', etag)).toBe(true);
+	});
+
+	it("rejects other tags", () => {
+		expect(etagMatches('"1-1"', etag)).toBe(false);
+		expect(etagMatches('"1-1", "1-3"', etag)).toBe(false);
+		expect(etagMatches("1-2", etag)).toBe(false);
+		expect(etagMatches("", etag)).toBe(false);
+	});
+
+	it("only ignores W/ when comparing weakly", () => {
+		expect(etagMatches('W/"1-2"', etag)).toBe(false);
+		expect(etagMatches('W/"1-2"', etag, "weak")).toBe(true);
+		expect(etagMatches('"1-1", W/"1-2"', etag, "weak")).toBe(true);
+	});
+});
+
+describe("/demo/api/tq-todos/$id", () => {
+	let cwd: string;
+	let dir: string;
+
+	// The store lives in the working directory
+	beforeEach(async () => {
+		cwd = process.cwd();
+		dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "tq-todos-"));
+		process.chdir(dir);
+	});
+
+	afterEach(async () => {
+		process.chdir(cwd);
+		await fs.promises.rm(dir, { recursive: true, force: true });
+	});
+
+	it("sends the todo's ETag", async () => {
+		const response = await call("GET", "1");
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("ETag")).toBe(
+			tqTodoEtag({ id: 1, version: 1 }),
+		);
+		expect(await response.json()).toMatchObject({ id: 1, version: 1 });
+	});
+
+	it.each(['"1-1"', 'W/"1-1"', '"0-0", "1-1"', "*"])(
+		"answers If-None-Match: %s with 304",
+		async (ifNoneMatch) => {
+			const response = await call("GET", "1", {
+				headers: { "If-None-Match": ifNoneMatch },
+			});
+
+			expect(response.status).toBe(304);
+			expect(response.headers.get("ETag")).toBe('"1-1"');
+			expect(await response.text()).toBe("");
+		},
+	);
+
+	it("sends the todo when If-None-Match names an older revision", async () => {
+		const response = await call("GET", "1", {
+			headers: { "If-None-Match": '"1-0"' },
+		});
+
+		expect(response.status).toBe(200);
+	});
+
+	it("updates with a matching If-Match and bumps the ETag", async () => {
+		const response = await call("PATCH", "1", {
+			headers: { "If-Match": '"1-1"', "Content-Type": "application/json" },
+			body: { completed: true },
+		});
+
+		expect(response.status).toBe(200);
+		expect(response.headers.get("ETag")).toBe('"1-2"');
+		expect(await response.json()).toMatchObject({
+			completed: true,
+			version: 2,
+		});
+	});
+
+	it("answers a stale If-Match with 412 problem details", async () => {
+		await call("PATCH", "1", {
+			headers: { "If-Match": '"1-1"' },
+			body: { completed: true },
+		});
+
+		const response = await call("PATCH", "1", {
+			headers: { "If-Match": '"1-1"' },
+			body: { name: "Lost update" },
+		});
+
+		expect(response.status).toBe(412);
+		expect(response.headers.get("Content-Type")).toBe(PROBLEM_CONTENT_TYPE);
+		expect(response.headers.get("ETag")).toBe('"1-2"');
+		expect(await response.json()).toEqual({
+			type: "about:blank",
+			title: "Precondition Failed",
+			status: 412,
+			detail: "The todo was changed by someone else; reload it and retry",
+			instance: "/demo/api/tq-todos/1",
+			currentVersion: 2,
+		});
+		expect(await (await call("GET", "1")).json()).toMatchObject({
+			completed: true,
+		});
+	});
+
+	it("never accepts a weak ETag as If-Match", async () => {
+		const response = await call("DELETE", "1", {
+			headers: { "If-Match": 'W/"1-1"' },
+		});
+
+		expect(response.status).toBe(412);
+	});
+
+	it("requires If-Match to change a todo", async () => {
+		const response = await call("DELETE", "1");
+
+		expect(response.status).toBe(428);
+		expect(await response.json()).toMatchObject({
+			title: "Precondition Required",
+			status: 428,
+		});
+	});
+
+	it("deletes with If-Match: *", async () => {
+		const response = await call("DELETE", "1", {
+			headers: { "If-Match": "*" },
+		});
+		expect(response.ok).toBe(true);
+
+		const missing = await call("GET", "1");
+		expect(missing.status).toBe(404);
+		expect(missing.headers.get("Content-Type")).toBe(PROBLEM_CONTENT_TYPE);
+		expect(await missing.json()).toMatchObject({
+			title: "Not Found",
+			status: 404,
+			detail: "Todo 1 does not exist",
+		});
+	});
+
+	it("describes invalid bodies field by field", async () => {
+		const response = await call("PATCH", "2", {
+			headers: { "If-Match": '"2-1"' },
+			body: { name: 42 },
+		});
+
+		expect(response.status).toBe(422);
+		expect(await response.json()).toMatchObject({
+			title: "Validation Failed",
+			errors: [expect.objectContaining({ path: "name" })],
+		});
+	});
+
+	it("answers malformed JSON with 400", async () => {
+		const request = new Request("http://localhost/demo/api/tq-todos/2", {
+			method: "PATCH",
+			headers: { "If-Match": '"2-1"' },
+			body: "{",
+		});
+		const response = await handlers.PATCH({ request, params: { id: "2" } });
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toMatchObject({ title: "Malformed JSON" });
+	});
+});
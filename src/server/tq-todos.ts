@@ -0,0 +1,172 @@
+import { z } from "zod";
+import {
+	type CreateTqTodo,
+	createTqTodoSchema,
+	type PatchTqTodo,
+	type ReplaceTqTodo,
+	type TqTodo,
+	tqTodoEtag,
+	tqTodoSchema,
+} from "@/lib/tq-todos";
+import { createJsonFileStore } from "@/server/json-file-store";
+import { ProblemError } from "@/server/problem";
+
+// Persistence and concurrency rules for the `/demo/api/tq-todos` resource
+
+const store = createJsonFileStore({
+	file: "tq-todos.json",
+	schema: z.object({
+		nextId: z.number().int().positive(),
+		todos: z.array(tqTodoSchema),
+	}),
+	initial: () => {
+		const now = new Date().toISOString();
+		const todo = (id: number, name: string): TqTodo => ({
+			id,
+			name,
+			completed: false,
+			version: 1,
+			createdAt: now,
+			updatedAt: now,
+		});
+
+		return {
+			nextId: 4,
+			todos: [
+				todo(1, "Buy groceries"),
+				todo(2, "Buy mobile phone"),
+				todo(3, "Buy laptop"),
+			],
+		};
+	},
+});
+
+function notFound(id: number) {
+	return new ProblemError({
+		title: "Not Found",
+		status: 404,
+		detail: `Todo ${id} does not exist`,
+	});
+}
+
+/**
+ * Whether a conditional header (`If-Match`, `If-None-Match`) names `etag`.
+ * The value is `*` or a comma-separated list of entity tags. `If-None-Match`
+ * compares weakly, ignoring `W/`; `If-Match` never matches a weak tag.
+ */
+export function etagMatches(
+	header: string,
+	etag: string,
+	comparison: "strong" | "weak" = "strong",
+) {
+	const opaque = (tag: string) =>
+		comparison === "weak" ? tag.replace(/^W\//, "") : tag;
+
+	return header
+		.split(",")
+		.map((tag) => tag.trim())
+		.some((tag) => tag === "*" || opaque(tag) === opaque(etag));
+}
+
+/**
+ * Enforce optimistic concurrency: the caller must prove which revision it
+ * last saw. `*` matches any revision of an existing todo.
+ */
+function assertIfMatch(todo: TqTodo, ifMatch: string | null) {
+	if (ifMatch === null) {
+		throw new ProblemError({
+			title: "Precondition Required",
+			status: 428,
+			detail: "Send If-Match with the todo's current ETag",
+		});
+	}
+
+	const etag = tqTodoEtag(todo);
+	if (!etagMatches(ifMatch, etag)) {
+		throw new ProblemError(
+			{
+				title: "Precondition Failed",
+				status: 412,
+				detail: "The todo was changed by someone else; reload it and retry",
+				currentVersion: todo.version,
+			},
+			{ ETag: etag },
+		);
+	}
+}
+
+export async function listTqTodos() {
+	return (await store.read()).todos;
+}
+
+export async function getTqTodo(id: number) {
+	const todo = (await store.read()).todos.find((todo) => todo.id === id);
+	if (!todo) throw notFound(id);
+	return todo;
+}
+
+export async function createTqTodo(input: CreateTqTodo) {
+	const { name, completed } = createTqTodoSchema.parse(input);
+	let created: TqTodo | undefined;
+
+	await store.update(({ nextId, todos }) => {
+		const now = new Date().toISOString();
+		created = {
+			id: nextId,
+			name,
+			completed,
+			version: 1,
+			createdAt: now,
+			updatedAt: now,
+		};
+		return { nextId: nextId + 1, todos: [...todos, created] };
+	});
+
+	return created as TqTodo;
+}
+
+/**
+ * Apply `changes` to a todo if `ifMatch` names its current revision.
+ * Used by both PUT (every field) and PATCH (some fields).
+ */
+export async function updateTqTodo(
+	id: number,
+	changes: ReplaceTqTodo | PatchTqTodo,
+	ifMatch: string | null,
+) {
+	let updated: TqTodo | undefined;
+
+	await store.update((document) => {
+		const current = document.todos.find((todo) => todo.id === id);
+		if (!current) throw notFound(id);
+		assertIfMatch(current, ifMatch);
+
+		updated = {
+			...current,
+			...changes,
+			version: current.version + 1,
+			updatedAt: new Date().toISOString(),
+		};
+		return {
+			...document,
+			todos: document.todos.map((todo) =>
+				todo.id === id ? (updated as TqTodo) : todo,
+			),
+		};
+	});
+
+	return updated as TqTodo;
+}
+
+export async function deleteTqTodo(id: number, ifMatch: string | null) {
+	await store.update((document) => {
+		const current = document.todos.find((todo) => todo.id === id);
+		if (!current) throw notFound(id);
+		assertIfMatch(current, ifMatch);
+
+		return {
+			...document,
+			todos: document.todos.filter((todo) => todo.id !== id),
+		};
+	});
+}
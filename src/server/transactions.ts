@@ -0,0 +1,37 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/db";
+
+const SERIALIZABLE_ATTEMPTS = 3;
+
+/**
+ * Whether `error` is a Prisma error with `code`, e.g. P2002 for a unique
+ * constraint.
+ */
+export function isPrismaError(error: unknown, code: string) {
+	return (
+		typeof error === "object" &&
+		error !== null &&
+		"code" in error &&
+		error.code === code
+	);
+}
+
+/**
+ * Run `fn` in a serializable transaction, so what it reads can't change
+ * before it writes. Retried when it loses a write conflict to a concurrent
+ * transaction.
+ */
+export async function serializable<T>(
+	fn: (tx: Prisma.TransactionClient) => Promise<T>,
+): Promise<T> {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await prisma.$transaction(fn, { isolationLevel: "Serializable" });
+		} catch (error) {
+			// P2034: the transaction lost a write conflict and can be retried
+			if (!isPrismaError(error, "P2034") || attempt >= SERIALIZABLE_ATTEMPTS) {
+				throw error;
+			}
+		}
+	}
+}